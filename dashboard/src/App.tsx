@@ -8,9 +8,10 @@ import {
 } from 'lucide-react';
 import {
   checkAuth, setAuth, listPipelines, launchIdea,
-  killPipeline, deletePipeline, connectAllSSE, modifyPipeline,
+  killPipeline, deletePipeline, connectAllSSE, connectPipelineSSE, modifyPipeline,
+  getApproval, decideApproval,
 } from './api/client';
-import type { Pipeline, PipelineEvent, PipelineAgent } from './api/client';
+import type { Pipeline, PipelineEvent, PipelineAgent, ApprovalGate, ApprovalDecision, AgentDeltaEvent } from './api/client';
 import './index.css';
 
 // ─── App ───
@@ -162,8 +163,8 @@ function Dashboard() {
         {showModal && (
           <LaunchModal
             onClose={() => setShowModal(false)}
-            onLaunch={async (desc, name, files) => {
-              await launchIdea(desc, name, files);
+            onLaunch={async (desc, name, files, gates) => {
+              await launchIdea(desc, name, files, gates);
               setShowModal(false);
               load();
             }}
@@ -274,7 +275,9 @@ function ProjectCard({ pipeline: p, onClick }: { pipeline: Pipeline; onClick: ()
         <span className="card-name" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
           {getTypeIcon()} {p.name}
         </span>
-        <span className={`phase-badge ${p.phase.toLowerCase()}`}>{p.phase}</span>
+        <span className={`phase-badge ${p.phase.toLowerCase()}`}>
+          {p.phase}{p.queuePosition ? ` #${p.queuePosition}` : ''}
+        </span>
       </div>
       <div className="card-desc">{p.description}</div>
       <div className="progress-bar">
@@ -486,10 +489,29 @@ function ProjectDetail({ pipeline: p, onBack, onRefresh }: {
             <Coins size={12} />
             {formatTokenCount(p.tokenUsage?.inputTokens || 0)} in / {formatTokenCount(p.tokenUsage?.outputTokens || 0)} out
             ({formatTokenCount(totalTokens)} total)
+            {p.tokenUsage?.cost ? ` · $${p.tokenUsage.cost.toFixed(2)}` : ''}
+            {p.budget?.maxCost ? ` / $${p.budget.maxCost}` : ''}
+          </div>
+        )}
+        {p.phase === 'PAUSED' && p.pause?.reason === 'budget' && (
+          <div className="pause-reason">💸 {p.pause.message}</div>
+        )}
+        {p.tokenUsage?.byModel && Object.keys(p.tokenUsage.byModel).length > 0 && (
+          <div className="token-models">
+            {Object.entries(p.tokenUsage.byModel).map(([model, usage]) => (
+              <span key={model} className="token-model">
+                {model}: {formatTokenCount(usage.inputTokens + usage.outputTokens)}
+              </span>
+            ))}
           </div>
         )}
       </div>
 
+      {/* Approval Gate */}
+      {p.phase === 'AWAITING_APPROVAL' && (
+        <ApprovalPanel key={p.approval?.requestedAt} pipeline={p} onDecided={onRefresh} />
+      )}
+
       {/* Agent Cards */}
       <div className="section-title">Agents</div>
       <div className="agent-cards">
@@ -502,6 +524,9 @@ function ProjectDetail({ pipeline: p, onBack, onRefresh }: {
       <div className="section-title">Console</div>
       <Terminal events={p.events || []} />
 
+      {/* Live agent output */}
+      {!['COMPLETED', 'FAILED'].includes(p.phase) && <LiveOutput pipelineId={p.id} />}
+
       {/* Modify Modal */}
       <AnimatePresence>
         {showModify && (
@@ -592,6 +617,71 @@ function ProjectDetail({ pipeline: p, onBack, onRefresh }: {
   );
 }
 
+function ApprovalPanel({ pipeline: p, onDecided }: { pipeline: Pipeline; onDecided: () => void }) {
+  const [original, setOriginal] = useState('');
+  const [draft, setDraft] = useState('');
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+  const gateLabel = p.approval?.gate === 'architecture' ? "l'architecture" : 'le PRD';
+
+  useEffect(() => {
+    getApproval(p.id)
+      .then(data => {
+        const text = JSON.stringify(data.artifact ?? {}, null, 2);
+        setOriginal(text);
+        setDraft(text);
+      })
+      .catch(err => console.warn('Failed to load approval:', err));
+  }, [p.id]);
+
+  const edited = draft !== original;
+  let draftValid = true;
+  try { JSON.parse(draft); } catch { draftValid = false; }
+
+  const decide = async (decision: ApprovalDecision) => {
+    setBusy(true);
+    try {
+      const artifact = decision === 'edit-and-approve' ? JSON.parse(draft) : undefined;
+      await decideApproval(p.id, decision, artifact, comment.trim() || undefined);
+      onDecided();
+    } catch (err) {
+      alert(`Erreur: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="section-title">✋ Validation requise : {gateLabel}</div>
+      <textarea
+        className="modify-textarea"
+        rows={14}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        style={{ fontFamily: 'monospace', fontSize: 12 }}
+      />
+      <input
+        className="login-input"
+        placeholder="Commentaire (optionnel)"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        style={{ width: '100%', marginBottom: 12 }}
+      />
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+        <button className="btn-cancel" onClick={() => decide('reject')} disabled={busy}>Rejeter</button>
+        {edited ? (
+          <button className="btn-launch" onClick={() => decide('edit-and-approve')} disabled={busy || !draftValid}>
+            {draftValid ? '✏️ Enregistrer et approuver' : 'JSON invalide'}
+          </button>
+        ) : (
+          <button className="btn-launch" onClick={() => decide('approve')} disabled={busy}>✅ Approuver</button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function AgentCard({ agent }: { agent: PipelineAgent }) {
   return (
     <motion.div
@@ -642,6 +732,60 @@ function Terminal({ events }: { events: PipelineEvent[] }) {
   );
 }
 
+// Blocks kept on screen, and characters kept per block
+const LIVE_OUTPUT_BLOCKS = 6;
+const LIVE_OUTPUT_CHARS = 4000;
+
+type LiveBlock = { key: string; role?: string; kind: AgentDeltaEvent['kind']; tool?: string; content: string };
+
+// Partial tool input is raw JSON: show string escapes as the code being written
+function unescapeJsonFragment(json: string): string {
+  return json.replace(/\\(["\\/nt])/g, (_, c: string) => (c === 'n' ? '\n' : c === 't' ? '\t' : c));
+}
+
+function LiveOutput({ pipelineId }: { pipelineId: string }) {
+  const [blocks, setBlocks] = useState<LiveBlock[]>([]);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    return connectPipelineSSE(pipelineId, (event) => {
+      if (event.type !== 'agent-delta') return;
+      const role = event.context?.role;
+      const key = `${role}-${event.turn}-${event.block}`;
+      setBlocks(prev => {
+        const last = prev[prev.length - 1];
+        if (last?.key === key) {
+          return [...prev.slice(0, -1), { ...last, content: (last.content + event.content).slice(-LIVE_OUTPUT_CHARS) }];
+        }
+        return [...prev, { key, role, kind: event.kind, tool: event.tool, content: event.content }].slice(-LIVE_OUTPUT_BLOCKS);
+      });
+    });
+  }, [pipelineId]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [blocks]);
+
+  if (blocks.length === 0) return null;
+
+  return (
+    <>
+      <div className="section-title">Sortie en direct</div>
+      <div className="terminal live-output">
+        <div className="terminal-body">
+          {blocks.map(b => (
+            <div key={b.key} className={`live-block ${b.kind}`}>
+              <div className="terminal-agent">{b.role}{b.tool ? ` → ${b.tool}` : ''}</div>
+              <pre>{b.kind === 'tool_input' ? unescapeJsonFragment(b.content) : b.content}</pre>
+            </div>
+          ))}
+          <div ref={endRef} />
+        </div>
+      </div>
+    </>
+  );
+}
+
 // ─── Agents View ───
 
 function AgentsView({ pipelines }: { pipelines: Pipeline[] }) {
@@ -861,10 +1005,11 @@ function LiveActivityPanel({ events, pipelines }: { events: PipelineEvent[]; pip
 
 function LaunchModal({ onClose, onLaunch }: {
   onClose: () => void;
-  onLaunch: (desc: string, name?: string, files?: { base64: string; type: string }[]) => void;
+  onLaunch: (desc: string, name?: string, files?: { base64: string; type: string }[], approvalGates?: ApprovalGate[]) => void;
 }) {
   const [desc, setDesc] = useState('');
   const [name, setName] = useState('');
+  const [gates, setGates] = useState<ApprovalGate[]>([]);
   const [files, setFiles] = useState<{ name: string; type: string; data: string; size: number; error?: string; thumbnail?: string }[]>([]);
   const [loading, setLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -923,7 +1068,7 @@ function LaunchModal({ onClose, onLaunch }: {
     setLoading(true);
     try {
       const validFiles = files.filter(f => !f.error).map(f => ({ base64: f.data, type: f.type }));
-      await onLaunch(desc.trim(), name.trim() || undefined, validFiles.length > 0 ? validFiles : undefined);
+      await onLaunch(desc.trim(), name.trim() || undefined, validFiles.length > 0 ? validFiles : undefined, gates.length > 0 ? gates : undefined);
     } finally {
       setLoading(false);
     }
@@ -982,6 +1127,19 @@ function LaunchModal({ onClose, onLaunch }: {
           </div>
         )}
 
+        <div style={{ display: 'flex', gap: 16, marginBottom: 16, fontSize: 13 }}>
+          {([['analysis', 'Valider le PRD'], ['architecture', "Valider l'architecture"]] as [ApprovalGate, string][]).map(([gate, label]) => (
+            <label key={gate} style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={gates.includes(gate)}
+                onChange={(e) => setGates(prev => e.target.checked ? [...prev, gate] : prev.filter(g => g !== gate))}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
         <div className="modal-actions">
           <input
             type="file"
@@ -36,10 +36,10 @@ async function api<T = unknown>(path: string, options?: RequestInit): Promise<T>
 
 // ─── Pipeline (Orchestrator) ───
 
-export async function launchIdea(description: string, name?: string, files?: { base64: string; type: string }[]) {
+export async function launchIdea(description: string, name?: string, files?: { base64: string; type: string }[], approvalGates?: ApprovalGate[]) {
     return api<{ pipeline: Pipeline }>('/pipeline/launch', {
         method: 'POST',
-        body: JSON.stringify({ description, name, files }),
+        body: JSON.stringify({ description, name, files, approvalGates }),
     });
 }
 
@@ -67,9 +67,22 @@ export async function deletePipeline(id: string) {
     return api('/pipeline/' + id, { method: 'DELETE' });
 }
 
+// ─── Approval Gates ───
+
+export async function getApproval(id: string) {
+    return api<{ approval?: Pipeline['approval']; artifact?: unknown; approvals: ApprovalRecord[] }>(`/pipeline/${id}/approval`);
+}
+
+export async function decideApproval(id: string, decision: ApprovalDecision, artifact?: unknown, comment?: string) {
+    return api<{ pipeline: Pipeline }>(`/pipeline/${id}/approval`, {
+        method: 'POST',
+        body: JSON.stringify({ decision, artifact, comment }),
+    });
+}
+
 // ─── SSE (Server-Sent Events) ───
 
-export function connectPipelineSSE(id: string, onEvent: (event: PipelineEvent) => void): () => void {
+export function connectPipelineSSE(id: string, onEvent: (event: PipelineEvent | AgentDeltaEvent) => void): () => void {
     const auth = localStorage.getItem('vibe_auth');
     const url = `${API_BASE}/pipeline/${id}/events${auth ? `?auth=${btoa(auth)}` : ''}`;
     const es = new EventSource(url);
@@ -138,6 +151,16 @@ export type PipelineAgent = {
     completedAt?: string;
 };
 
+export type ApprovalGate = 'analysis' | 'architecture';
+export type ApprovalDecision = 'approve' | 'reject' | 'edit-and-approve';
+
+export type ApprovalRecord = {
+    gate: ApprovalGate;
+    decision: ApprovalDecision;
+    comment?: string;
+    decidedAt: string;
+};
+
 export type PipelineEvent = {
     id: string;
     pipelineId: string;
@@ -148,6 +171,19 @@ export type PipelineEvent = {
     type: 'info' | 'success' | 'error' | 'warning' | 'deploy';
 };
 
+// Live partial output of an agent (not persisted, only sent to /pipeline/:id/events listeners)
+export type AgentDeltaEvent = {
+    type: 'agent-delta';
+    pipelineId: string;
+    context?: { pipelineId?: string; phase?: string; role?: string; featureIndex?: number };
+    kind: 'text' | 'tool_input';
+    content: string;
+    tool?: string;
+    turn: number;
+    block: number;
+    timestamp: string;
+};
+
 export type Pipeline = {
     id: string;
     name: string;
@@ -173,6 +209,20 @@ export type Pipeline = {
     tokenUsage?: {
         inputTokens: number;
         outputTokens: number;
+        byModel?: Record<string, { inputTokens: number; outputTokens: number }>;
+        cost?: number;
+    };
+    budget?: { maxTokens?: number; maxCost?: number };
+    pause?: {
+        reason: 'manual' | 'interrupted' | 'budget';
+        message?: string;
+        pausedAt: string;
+    };
+    queuePosition?: number;
+    approvalGates?: ApprovalGate[];
+    approval?: {
+        gate: ApprovalGate;
+        requestedAt: string;
     };
 };
 
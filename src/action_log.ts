@@ -0,0 +1,111 @@
+/**
+ * Action Log — every agent action of a pipeline, stamped with its run
+ * context (phase, role, feature), appended to one JSON-lines file per
+ * pipeline under ACTION_LOG_DIR so it survives restarts without bloating
+ * the pipelines store.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import type { AgentAction } from "./claude_code.js";
+
+// ─── Types ───
+
+export type ActionLogEntry = AgentAction & { seq: number };
+
+export type ActionLogQuery = {
+    phase?: string;
+    role?: string;
+    featureIndex?: number;
+    type?: AgentAction["type"];
+    tool?: string;
+    since?: number;            // only entries with seq > since
+    limit?: number;            // last N matching entries (default 200, max 1000)
+};
+
+// ─── Config ───
+
+export const getActionLogDir = () => process.env.ACTION_LOG_DIR || "/data/actions";
+
+// Tool inputs can hold whole files (write_file); keep the log readable
+const MAX_INPUT_STRING = 2000;
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+function truncateInput(input: Record<string, unknown>): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(input)) {
+        out[key] = typeof value === "string" && value.length > MAX_INPUT_STRING
+            ? `${value.slice(0, MAX_INPUT_STRING)}… (${value.length} chars)`
+            : value;
+    }
+    return out;
+}
+
+// ─── Log ───
+
+export class ActionLog {
+    private readonly seqs = new Map<string, number>();
+    private readonly writes = new Map<string, Promise<void>>();
+
+    constructor(private readonly dir: string = getActionLogDir()) { }
+
+    private fileFor(pipelineId: string) {
+        return path.join(this.dir, `${pipelineId.replace(/[^a-zA-Z0-9_-]/g, "_")}.jsonl`);
+    }
+
+    /** Append an action; writes to one pipeline are serialized so lines never interleave. */
+    append(pipelineId: string, action: AgentAction): Promise<void> {
+        const previous = this.writes.get(pipelineId) ?? Promise.resolve();
+        const next = previous.then(async () => {
+            const seq = (this.seqs.get(pipelineId) ?? await this.lastSeq(pipelineId)) + 1;
+            this.seqs.set(pipelineId, seq);
+            const entry: ActionLogEntry = { seq, ...action, ...(action.input ? { input: truncateInput(action.input) } : {}) };
+            await fs.mkdir(this.dir, { recursive: true });
+            await fs.appendFile(this.fileFor(pipelineId), JSON.stringify(entry) + "\n");
+        }).catch(err => console.warn(`[ActionLog] Append failed for ${pipelineId}: ${err.message}`));
+        this.writes.set(pipelineId, next);
+        return next;
+    }
+
+    async read(pipelineId: string): Promise<ActionLogEntry[]> {
+        await this.writes.get(pipelineId);
+        const raw = await fs.readFile(this.fileFor(pipelineId), "utf-8").catch(() => "");
+        const entries: ActionLogEntry[] = [];
+        for (const line of raw.split("\n")) {
+            if (!line.trim()) continue;
+            try { entries.push(JSON.parse(line)); } catch { /* torn last line after a crash */ }
+        }
+        return entries;
+    }
+
+    /** Matching entries, oldest first, plus the total number of matches before `limit`. */
+    async query(pipelineId: string, query: ActionLogQuery = {}): Promise<{ actions: ActionLogEntry[]; total: number }> {
+        const matches = (await this.read(pipelineId)).filter(e =>
+            (query.phase === undefined || e.context?.phase === query.phase) &&
+            (query.role === undefined || e.context?.role?.toLowerCase() === query.role.toLowerCase()) &&
+            (query.featureIndex === undefined || e.context?.featureIndex === query.featureIndex) &&
+            (query.type === undefined || e.type === query.type) &&
+            (query.tool === undefined || e.tool === query.tool) &&
+            (query.since === undefined || e.seq > query.since));
+        const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+        return { actions: matches.slice(-limit), total: matches.length };
+    }
+
+    async delete(pipelineId: string): Promise<void> {
+        await this.writes.get(pipelineId);
+        this.writes.delete(pipelineId);
+        this.seqs.delete(pipelineId);
+        await fs.rm(this.fileFor(pipelineId), { force: true });
+    }
+
+    private async lastSeq(pipelineId: string): Promise<number> {
+        const entries = await fs.readFile(this.fileFor(pipelineId), "utf-8").catch(() => "");
+        const lines = entries.trimEnd().split("\n");
+        for (let i = lines.length - 1; i >= 0; i--) {
+            try { return Number(JSON.parse(lines[i]).seq) || 0; } catch { /* skip */ }
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ * Pipeline Artifacts — schemas, validation, patching and diffing of the PRD
+ * (analysis) and architecture documents produced by the Analyst / Architect agents.
+ */
+
+import { z } from "zod";
+
+import type { ProjectType } from "./orchestrator.js";
+
+// ─── Types ───
+
+export type ArtifactName = "analysis" | "architecture";
+
+export const EDITABLE_ARTIFACTS: ArtifactName[] = ["analysis", "architecture"];
+
+export type ArtifactVersion = {
+    version: number;           // 1-based, increments per artifact
+    author: "agent" | "human";
+    source: string;            // "analyst", "architect", "approval", "patch"...
+    createdAt: string;
+    content: unknown;
+};
+
+export type ArtifactDiffEntry = {
+    path: string;              // e.g. "features[2]" or "services[0].type"
+    op: "added" | "removed" | "changed";
+    before?: unknown;
+    after?: unknown;
+};
+
+export function isArtifactName(name: string): name is ArtifactName {
+    return (EDITABLE_ARTIFACTS as string[]).includes(name);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ─── Schemas ───
+// Unknown keys are kept (passthrough): agents and humans may add context fields.
+
+const SERVICE_TYPES = ["static", "spa", "fullstack", "api", "python-worker", "node-worker", "postgres", "redis", "unknown"] as const satisfies readonly ProjectType[];
+
+const FeatureList = z.array(z.string().trim().min(1, "must be a non-empty string"));
+
+export const ServiceSchema = z.object({
+    name: z.string().trim().min(1),
+    type: z.enum(SERVICE_TYPES),
+    stack: z.string().optional(),
+}).passthrough();
+
+export const AnalysisSchema = z.object({
+    name: z.string().optional(),
+    summary: z.string().optional(),
+    services: z.array(ServiceSchema).min(1, "at least one service is required"),
+    features: FeatureList.optional(),
+    userStories: z.array(z.object({
+        story: z.string(),
+        priority: z.string().optional(),
+    }).passthrough()).optional(),
+    targetAudience: z.string().optional(),
+}).passthrough();
+
+export const ArchitectureSchema = z.object({
+    architectureOverview: z.string().optional(),
+    servicesStack: z.record(z.unknown()).optional(),
+    fileStructure: z.array(z.object({
+        path: z.string(),
+        description: z.string().optional(),
+    }).passthrough()).optional(),
+    endpoints: z.array(z.object({
+        method: z.string(),
+        path: z.string(),
+        description: z.string().optional(),
+    }).passthrough()).optional(),
+    features: FeatureList.min(1, "at least one feature is required"),
+}).passthrough();
+
+export type AnalysisArtifact = z.infer<typeof AnalysisSchema>;
+export type ArchitectureArtifact = z.infer<typeof ArchitectureSchema>;
+
+const SCHEMAS: Record<ArtifactName, z.ZodTypeAny> = {
+    analysis: AnalysisSchema,
+    architecture: ArchitectureSchema,
+};
+
+// ─── Validation ───
+
+/**
+ * Returns a list of human-readable errors ("services[0].type: ..."), empty
+ * when the artifact is valid.
+ */
+export function validateArtifact(name: ArtifactName, value: unknown): string[] {
+    const result = SCHEMAS[name].safeParse(value);
+    if (result.success) return [];
+    return result.error.issues.map(issue => {
+        const where = issue.path
+            .map((key, i) => typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`)
+            .join("");
+        return `${where || "$"}: ${issue.message}`;
+    });
+}
+
+/**
+ * Extract the JSON document from an agent answer: a ```json fence if there
+ * is one, otherwise the outermost {...} span.
+ */
+export function extractJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    for (const candidate of [fenced?.[1], text.match(/\{[\s\S]*\}/)?.[0]]) {
+        if (!candidate) continue;
+        try {
+            return JSON.parse(candidate);
+        } catch { /* try the next candidate */ }
+    }
+    return undefined;
+}
+
+/** Parse and validate an agent answer for `name`. */
+export function parseArtifactOutput(name: ArtifactName, text: string): { value?: unknown; errors: string[] } {
+    const value = extractJson(text);
+    if (value === undefined) return { errors: ["$: no valid JSON object found in the answer"] };
+    return { value, errors: validateArtifact(name, value) };
+}
+
+// ─── Patching ───
+
+/**
+ * RFC 7386 JSON Merge Patch: objects are merged recursively, `null` deletes
+ * a key, anything else (including arrays) replaces the target value.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+    if (!isPlainObject(patch)) return patch;
+
+    const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) delete result[key];
+        else result[key] = applyMergePatch(result[key], value);
+    }
+    return result;
+}
+
+// ─── Diffing ───
+
+export function diffArtifacts(before: unknown, after: unknown, basePath = ""): ArtifactDiffEntry[] {
+    if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+    const join = (key: string | number) =>
+        typeof key === "number" ? `${basePath}[${key}]` : basePath ? `${basePath}.${key}` : key;
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const entries: ArtifactDiffEntry[] = [];
+        const len = Math.max(before.length, after.length);
+        for (let i = 0; i < len; i++) {
+            if (i >= after.length) entries.push({ path: join(i), op: "removed", before: before[i] });
+            else if (i >= before.length) entries.push({ path: join(i), op: "added", after: after[i] });
+            else entries.push(...diffArtifacts(before[i], after[i], join(i)));
+        }
+        return entries;
+    }
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const entries: ArtifactDiffEntry[] = [];
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            if (!(key in after)) entries.push({ path: join(key), op: "removed", before: before[key] });
+            else if (!(key in before)) entries.push({ path: join(key), op: "added", after: after[key] });
+            else entries.push(...diffArtifacts(before[key], after[key], join(key)));
+        }
+        return entries;
+    }
+
+    return [{ path: basePath || "$", op: "changed", before, after }];
+}
@@ -0,0 +1,263 @@
+/**
+ * Background Processes — long-running commands an agent starts and comes
+ * back to (dev servers, watchers, a long `npm install`), instead of the
+ * bash tool's single wall-clock-limited call. Processes run in the same
+ * sandbox as `bash`, each in its own process group, and are:
+ *   scoped  to a pipeline: agents only see the processes of their own pipeline
+ *   owned   by the agent run that started them, stopped when that run ends
+ *   capped  in number per pipeline, lifetime and buffered output
+ * Everything still running is killed when the orchestrator exits.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+
+import { prepareSandboxedCommand } from "./sandbox.js";
+
+// ─── Types ───
+
+export type BackgroundProcessStatus = "running" | "exited" | "stopped" | "timed_out";
+
+export type BackgroundProcessInfo = {
+    id: string;
+    name?: string;
+    command: string;
+    cwd: string;
+    pid?: number;
+    status: BackgroundProcessStatus;
+    exitCode?: number | null;
+    startedAt: string;
+    endedAt?: string;
+    outputChars: number;       // total output produced so far
+};
+
+export type BackgroundOutput = {
+    process: BackgroundProcessInfo;
+    output: string;            // output since the previous read (tail if longer than `maxChars`)
+    dropped: number;           // chars produced since the previous read but not returned
+    matched?: boolean;         // `waitFor` was seen (undefined when no pattern was given)
+};
+
+export type WaitOptions = {
+    waitFor?: RegExp;          // return as soon as new output matches
+    waitMs?: number;           // max wait for `waitFor` or exit, 0 = don't wait
+    maxChars?: number;
+    signal?: AbortSignal;      // ends the wait early
+};
+
+type Entry = {
+    info: BackgroundProcessInfo;
+    scope: string;
+    owner: string;
+    proc?: ChildProcess;
+    buffer: string;            // last MAX_BUFFER chars of combined stdout / stderr
+    cursor: number;            // outputChars already returned by read()
+    timer?: NodeJS.Timeout;
+    listeners: Set<() => void>;
+};
+
+// ─── Config ───
+
+const toInt = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+};
+
+/** BG_PROCESS_MAX: processes running at once per pipeline. */
+export const getMaxBackgroundProcesses = () => Math.max(1, toInt(process.env.BG_PROCESS_MAX, 5));
+
+/** BG_PROCESS_TIMEOUT_MS: lifetime ceiling of a background process. */
+export const getBackgroundProcessTimeoutMs = () => Math.max(1000, toInt(process.env.BG_PROCESS_TIMEOUT_MS, 30 * 60 * 1000));
+
+const MAX_BUFFER = 200_000;
+const DEFAULT_READ_CHARS = 4000;
+const MAX_WAIT_MS = 120_000;
+const STOP_GRACE_MS = 3000;
+const KEEP_ENDED = 20;         // ended processes kept per scope for a last read
+
+// ─── Manager ───
+
+export class BackgroundProcesses {
+    private readonly entries = new Map<string, Entry>();
+    private nextId = 1;
+    private exitHooked = false;
+
+    /** Start `command` in the sandbox; throws when the pipeline already runs the maximum. */
+    async start(scope: string, owner: string, command: string, cwd: string, options: { name?: string; timeoutMs?: number } = {}): Promise<BackgroundProcessInfo> {
+        const running = this.list(scope).filter(p => p.status === "running");
+        if (running.length >= getMaxBackgroundProcesses()) {
+            throw new Error(`${running.length} background processes already running (max ${getMaxBackgroundProcesses()}), stop one first: ${running.map(p => p.id).join(", ")}`);
+        }
+        this.hookExit();
+
+        const prepared = await prepareSandboxedCommand(command, cwd);
+        const id = `bg${this.nextId++}`;
+        const entry: Entry = {
+            info: { id, ...(options.name ? { name: options.name } : {}), command, cwd, status: "running", startedAt: new Date().toISOString(), outputChars: 0 },
+            scope,
+            owner,
+            buffer: "",
+            cursor: 0,
+            listeners: new Set(),
+        };
+        this.entries.set(id, entry);
+        this.prune(scope);
+
+        const proc = spawn(prepared.file, prepared.args, prepared.options);
+        entry.proc = proc;
+        entry.info.pid = proc.pid;
+
+        const append = (d: Buffer) => {
+            const text = d.toString();
+            entry.info.outputChars += text.length;
+            entry.buffer = (entry.buffer + text).slice(-MAX_BUFFER);
+            entry.listeners.forEach(l => l());
+        };
+        proc.stdout?.on("data", append);
+        proc.stderr?.on("data", append);
+        proc.on("error", err => append(Buffer.from(`Spawn error: ${err.message}\n`)));
+        proc.on("close", code => {
+            if (entry.timer) clearTimeout(entry.timer);
+            if (entry.info.status === "running") entry.info.status = "exited";
+            entry.info.exitCode = code;
+            entry.info.endedAt = new Date().toISOString();
+            entry.proc = undefined;
+            entry.listeners.forEach(l => l());
+        });
+
+        const lifetime = Math.min(options.timeoutMs ?? getBackgroundProcessTimeoutMs(), getBackgroundProcessTimeoutMs());
+        entry.timer = setTimeout(() => {
+            entry.info.status = "timed_out";
+            this.kill(entry);
+        }, lifetime);
+        entry.timer.unref();
+
+        console.log(`[Processes] ▶️ ${id} (pid ${proc.pid}) in ${scope}: ${command.slice(0, 120)}`);
+        return { ...entry.info };
+    }
+
+    list(scope: string): BackgroundProcessInfo[] {
+        return [...this.entries.values()].filter(e => e.scope === scope).map(e => ({ ...e.info }));
+    }
+
+    /**
+     * Output produced since the previous read, after optionally waiting for
+     * `waitFor` to appear in it or for the process to exit.
+     */
+    async read(scope: string, id: string, options: WaitOptions = {}): Promise<BackgroundOutput | undefined> {
+        const entry = this.get(scope, id);
+        if (!entry) return undefined;
+
+        const fresh = () => entry.buffer.slice(Math.max(0, entry.buffer.length - (entry.info.outputChars - entry.cursor)));
+        const waitMs = Math.min(Math.max(0, options.waitMs ?? 0), MAX_WAIT_MS);
+        let matched = options.waitFor ? options.waitFor.test(fresh()) : undefined;
+
+        if (waitMs > 0 && !matched && entry.info.status === "running" && !options.signal?.aborted) {
+            await new Promise<void>(resolve => {
+                const done = () => {
+                    clearTimeout(timer);
+                    entry.listeners.delete(check);
+                    options.signal?.removeEventListener("abort", done);
+                    resolve();
+                };
+                const check = () => {
+                    if (options.waitFor?.test(fresh())) matched = true;
+                    if (matched || entry.info.status !== "running") done();
+                };
+                const timer = setTimeout(done, waitMs);
+                entry.listeners.add(check);
+                options.signal?.addEventListener("abort", done, { once: true });
+            });
+        }
+
+        const available = entry.info.outputChars - entry.cursor;
+        const text = fresh();
+        const maxChars = options.maxChars ?? DEFAULT_READ_CHARS;
+        const output = text.length > maxChars ? text.slice(-maxChars) : text;
+        entry.cursor = entry.info.outputChars;
+        return { process: { ...entry.info }, output, dropped: available - output.length, ...(matched !== undefined ? { matched } : {}) };
+    }
+
+    /** SIGTERM the process group, SIGKILL after a grace period; resolves once it has exited. */
+    async stop(scope: string, id: string): Promise<BackgroundProcessInfo | undefined> {
+        const entry = this.get(scope, id);
+        if (!entry) return undefined;
+        if (entry.info.status === "running") {
+            entry.info.status = "stopped";
+            await this.kill(entry);
+        }
+        return { ...entry.info };
+    }
+
+    /** Stop every process started by one agent run. */
+    async stopOwner(owner: string): Promise<number> {
+        const owned = [...this.entries.values()].filter(e => e.owner === owner && e.info.status === "running");
+        await Promise.all(owned.map(e => this.stop(e.scope, e.info.id)));
+        return owned.length;
+    }
+
+    /** Stop every process of a pipeline (run finished, killed or deleted). */
+    async stopScope(scope: string): Promise<number> {
+        const scoped = [...this.entries.values()].filter(e => e.scope === scope && e.info.status === "running");
+        await Promise.all(scoped.map(e => this.stop(e.scope, e.info.id)));
+        for (const [id, e] of this.entries) if (e.scope === scope) this.entries.delete(id);
+        return scoped.length;
+    }
+
+    private get(scope: string, id: string): Entry | undefined {
+        const entry = this.entries.get(id);
+        return entry && entry.scope === scope ? entry : undefined;
+    }
+
+    private kill(entry: Entry): Promise<void> {
+        const proc = entry.proc;
+        if (!proc || proc.pid === undefined) return Promise.resolve();
+        const signal = (sig: NodeJS.Signals) => {
+            try { process.kill(-proc.pid!, sig); } catch { /* already exited */ }
+        };
+        return new Promise(resolve => {
+            const force = setTimeout(() => signal("SIGKILL"), STOP_GRACE_MS);
+            proc.once("close", () => {
+                clearTimeout(force);
+                resolve();
+            });
+            signal("SIGTERM");
+        });
+    }
+
+    /** Forget the oldest ended processes of a scope beyond KEEP_ENDED. */
+    private prune(scope: string) {
+        const ended = [...this.entries.values()].filter(e => e.scope === scope && e.info.status !== "running");
+        for (const e of ended.slice(0, Math.max(0, ended.length - KEEP_ENDED))) this.entries.delete(e.info.id);
+    }
+
+    /** Process groups are detached: kill them ourselves when the orchestrator goes away. */
+    private hookExit() {
+        if (this.exitHooked) return;
+        this.exitHooked = true;
+        const killAll = () => {
+            for (const e of this.entries.values()) {
+                if (e.proc?.pid !== undefined) {
+                    try { process.kill(-e.proc.pid, "SIGKILL"); } catch { /* already exited */ }
+                }
+            }
+        };
+        process.once("exit", killAll);
+        for (const sig of ["SIGINT", "SIGTERM"] as const) {
+            // Re-raised once our listener is gone, so the default exit still happens
+            process.once(sig, () => {
+                killAll();
+                process.kill(process.pid, sig);
+            });
+        }
+    }
+}
+
+export const backgroundProcesses = new BackgroundProcesses();
+
+/** One-line description for tool results. */
+export function describeProcess(p: BackgroundProcessInfo): string {
+    const state = p.status === "running" ? `running (pid ${p.pid})`
+        : p.status === "exited" ? `exited with code ${p.exitCode}`
+            : p.status === "timed_out" ? "killed: lifetime limit reached" : "stopped";
+    return `${p.id}${p.name ? ` [${p.name}]` : ""} ${state}: ${p.command.slice(0, 120)}`;
+}
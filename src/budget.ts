@@ -0,0 +1,237 @@
+/**
+ * Budget — token and cost ceilings per pipeline and across all pipelines.
+ * Costs come from a price table per model (USD per million tokens), built
+ * in for the usual models and overridable with MODEL_PRICES:
+ *
+ *   MODEL_PRICES="claude-haiku-4-5=1/5/0.1/1.25,gpt-4o-mini=0.15/0.6"   (input/output[/cache read/cache write])
+ *
+ * Prompt-cache reads and writes are priced at their own rate (the input
+ * price when the table has none).
+ * A model matches the longest key it starts with, so dated ids
+ * (claude-haiku-4-5-20251001) use their family price. Unknown models cost 0.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+// ─── Types ───
+
+export type ModelPrice = {     // USD per million tokens
+    input: number;
+    output: number;
+    cacheRead?: number;        // default: input
+    cacheWrite?: number;       // default: input
+};
+
+export type TokenUsage = {
+    inputTokens: number;       // all prompt tokens, cached ones included
+    outputTokens: number;
+    cacheReadTokens?: number;
+    cacheCreationTokens?: number;
+};
+
+export type ModelUsage = Record<string, TokenUsage>;
+
+export type BudgetLimits = {
+    maxTokens?: number;        // input + output
+    maxCost?: number;          // USD
+};
+
+export type BudgetSpend = {
+    tokens: number;
+    cost: number;
+};
+
+export type BudgetScope = "pipeline" | "global";
+
+export type BudgetExceeded = {
+    scope: BudgetScope;
+    kind: "tokens" | "cost";
+    limit: number;
+    spent: number;
+};
+
+// ─── Config ───
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    "claude-haiku-4-5": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+    "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+    "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    "claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+    // OpenAI caches automatically: discounted reads, writes at the input price
+    "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+    "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1 },
+    "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5 },
+};
+
+/**
+ * Parse "model=input/output[/cacheRead[/cacheWrite]],..." into a price
+ * table; malformed entries are skipped.
+ */
+export function parseModelPrices(raw: string): Record<string, ModelPrice> {
+    const prices: Record<string, ModelPrice> = {};
+    for (const part of raw.split(",")) {
+        const [model, value] = part.split("=").map(s => s.trim());
+        const numbers = (value ?? "").split("/").map(Number);
+        const [input, output, cacheRead, cacheWrite] = numbers;
+        if (!model || numbers.length < 2 || numbers.length > 4 || numbers.some(n => !Number.isFinite(n) || n < 0)) continue;
+        prices[model] = {
+            input,
+            output,
+            ...(cacheRead !== undefined ? { cacheRead } : {}),
+            ...(cacheWrite !== undefined ? { cacheWrite } : {}),
+        };
+    }
+    return prices;
+}
+
+export function getModelPrices(): Record<string, ModelPrice> {
+    return { ...DEFAULT_PRICES, ...parseModelPrices(process.env.MODEL_PRICES ?? "") };
+}
+
+const positive = (raw: string | undefined) => {
+    const n = Number(raw);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+/** Default per-pipeline limits (PIPELINE_MAX_TOKENS / PIPELINE_MAX_COST), unset = unlimited. */
+export function getPipelineBudgetDefaults(): BudgetLimits {
+    return { maxTokens: positive(process.env.PIPELINE_MAX_TOKENS), maxCost: positive(process.env.PIPELINE_MAX_COST) };
+}
+
+/** Limits over all pipelines, deleted ones included (GLOBAL_MAX_TOKENS / GLOBAL_MAX_COST), unset = unlimited. */
+export function getGlobalBudget(): BudgetLimits {
+    return { maxTokens: positive(process.env.GLOBAL_MAX_TOKENS), maxCost: positive(process.env.GLOBAL_MAX_COST) };
+}
+
+/**
+ * Validate `{ maxTokens?, maxCost? }` from a request body: positive numbers,
+ * or `null` (clear the limit) when `allowNull`. Returns null if invalid.
+ */
+export function parseBudgetLimits(raw: unknown): BudgetLimits | null;
+export function parseBudgetLimits(raw: unknown, allowNull: true): { maxTokens?: number | null; maxCost?: number | null } | null;
+export function parseBudgetLimits(raw: unknown, allowNull = false): { maxTokens?: number | null; maxCost?: number | null } | null {
+    if (!raw || typeof raw !== "object") return null;
+    const limits: { maxTokens?: number | null; maxCost?: number | null } = {};
+    for (const key of ["maxTokens", "maxCost"] as const) {
+        const value = (raw as Record<string, unknown>)[key];
+        if (value === undefined) continue;
+        if (value === null && allowNull) limits[key] = null;
+        else if (typeof value === "number" && Number.isFinite(value) && value > 0) limits[key] = value;
+        else return null;
+    }
+    return limits;
+}
+
+// ─── Cost ───
+
+export function priceFor(model: string, prices: Record<string, ModelPrice> = getModelPrices()): ModelPrice | undefined {
+    if (prices[model]) return prices[model];
+    const key = Object.keys(prices)
+        .filter(k => model.startsWith(k))
+        .sort((a, b) => b.length - a.length)[0];
+    return key ? prices[key] : undefined;
+}
+
+/** USD cost of a per-model usage breakdown, cached prompt tokens at the cache rates. */
+export function costOf(usage: ModelUsage, prices: Record<string, ModelPrice> = getModelPrices()): number {
+    let cost = 0;
+    for (const [model, u] of Object.entries(usage)) {
+        const price = priceFor(model, prices);
+        if (!price) continue;
+        const cacheRead = u.cacheReadTokens ?? 0;
+        const cacheWrite = u.cacheCreationTokens ?? 0;
+        const uncached = Math.max(0, u.inputTokens - cacheRead - cacheWrite);
+        cost += (uncached * price.input
+            + cacheRead * (price.cacheRead ?? price.input)
+            + cacheWrite * (price.cacheWrite ?? price.input)
+            + u.outputTokens * price.output) / 1_000_000;
+    }
+    return cost;
+}
+
+/** Add one call's (or one run's) usage to the per-model totals in place. */
+export function addModelUsage(totals: ModelUsage, model: string, usage: TokenUsage) {
+    const total = totals[model] ??= { inputTokens: 0, outputTokens: 0 };
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    if (usage.cacheReadTokens) total.cacheReadTokens = (total.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+    if (usage.cacheCreationTokens) total.cacheCreationTokens = (total.cacheCreationTokens ?? 0) + usage.cacheCreationTokens;
+}
+
+// ─── Checks ───
+
+/** First limit reached by `spend`, tokens before cost. */
+export function checkBudget(spend: BudgetSpend, limits: BudgetLimits, scope: BudgetScope): BudgetExceeded | undefined {
+    if (limits.maxTokens !== undefined && spend.tokens >= limits.maxTokens) {
+        return { scope, kind: "tokens", limit: limits.maxTokens, spent: spend.tokens };
+    }
+    if (limits.maxCost !== undefined && spend.cost >= limits.maxCost) {
+        return { scope, kind: "cost", limit: limits.maxCost, spent: spend.cost };
+    }
+    return undefined;
+}
+
+export function describeBudgetExceeded(e: BudgetExceeded): string {
+    const scope = e.scope === "global" ? "global" : "du pipeline";
+    return e.kind === "tokens"
+        ? `Budget ${scope} épuisé: ${e.spent} / ${e.limit} tokens`
+        : `Budget ${scope} épuisé: $${e.spent.toFixed(2)} / $${e.limit.toFixed(2)}`;
+}
+
+// ─── Global Spend ───
+
+/**
+ * Running total of everything spent across pipelines, persisted on its own
+ * so that deleting a pipeline does not hand its spend back to the global budget.
+ */
+export class SpendTotal {
+    private filePath: string;
+    private spend: BudgetSpend = { tokens: 0, cost: 0 };
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    /** Load the stored total; without a file yet, start from `initial` (what the stored pipelines spent). */
+    async load(initial: BudgetSpend = { tokens: 0, cost: 0 }): Promise<BudgetSpend> {
+        try {
+            const parsed = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+            this.spend = { tokens: Number(parsed.tokens) || 0, cost: Number(parsed.cost) || 0 };
+        } catch {
+            this.spend = { ...initial };
+            await this.persist();
+        }
+        return this.get();
+    }
+
+    get(): BudgetSpend {
+        return { ...this.spend };
+    }
+
+    add(spend: BudgetSpend): Promise<void> {
+        this.spend.tokens += spend.tokens;
+        this.spend.cost += spend.cost;
+        return this.persist();
+    }
+
+    /** Serialize writes so concurrent additions never race on the tmp file. */
+    private persist(): Promise<void> {
+        this.saving = this.saving.then(() => this.save());
+        return this.saving;
+    }
+
+    private async save() {
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmp = `${this.filePath}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(this.spend, null, 2), "utf-8");
+            await fs.rename(tmp, this.filePath);
+        } catch (err) {
+            console.warn("[Budget] Failed to save global spend:", err);
+        }
+    }
+}
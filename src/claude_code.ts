@@ -1,22 +1,52 @@
 /**
- * Claude Agent — Direct Anthropic SDK
- * Uses @anthropic-ai/sdk Messages API with tool use for agentic coding.
+ * Claude Agent — agentic coding loop with tool use.
+ * The model backend is pluggable (see llm_provider.ts), Anthropic by default.
  * Replaces the Claude Code CLI which hangs in Docker containers.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import { spawn } from "node:child_process";
 import { promises as fs } from "node:fs";
 import path from "node:path";
+import crypto from "node:crypto";
 import { EventEmitter } from "node:events";
 
+import {
+    getProvider,
+    type LlmContentBlock,
+    type LlmMessage,
+    type LlmProvider,
+    type LlmResponse,
+    type LlmStreamDelta,
+    type LlmToolDefinition,
+    type LlmToolResultBlock,
+} from "./llm_provider.js";
+import { ContextManager, getContextBudgetTokens } from "./context_manager.js";
+import { backoffDelayMs, classifyLlmError, getRetryPolicy, sleep, type LlmErrorKind } from "./llm_errors.js";
+import { PathDeniedError, resolveWorkspacePath } from "./path_guard.js";
+import { applyPatchToWorkspace, multiEditFile } from "./patch_tools.js";
+import { globFiles, searchCode } from "./search_tools.js";
+import { fetchPageText, formatDocHits, getDocsIndex, webSearch } from "./docs_index.js";
+import { gitCommandEnv, runSandboxed } from "./sandbox.js";
+import { backgroundProcesses, describeProcess, type BackgroundOutput } from "./bg_processes.js";
+import { resolveAllowedTools } from "./tool_permissions.js";
+import { addModelUsage, type ModelUsage } from "./budget.js";
+
 // ─── Types ───
 
+/** Who is running the agent; stamped on every action and delta so concurrent pipelines can be told apart. */
+export type AgentRunContext = {
+    pipelineId?: string;
+    phase?: string;
+    role?: string;
+    featureIndex?: number;
+};
+
 export type AgentAction = {
-    type: "text" | "tool_use" | "tool_result" | "result" | "error" | "system";
+    type: "text" | "tool_use" | "tool_result" | "result" | "error" | "system" | "denied";
     content?: string;
     tool?: string;
     input?: Record<string, unknown>;
+    context?: AgentRunContext;
     timestamp: string;
 };
 
@@ -28,18 +58,97 @@ export type AgentResult = {
     durationMs: number;
     inputTokens: number;
     outputTokens: number;
+    model?: string;            // model in use at the end of the run (after any fallback)
+    modelUsage?: ModelUsage;
+    budgetExhausted?: string;  // set when checkBudget stopped the run between two turns
+    retries?: number;          // API calls retried after a transient error
+    transcriptId?: string;
+};
+
+/** One tool call of a turn with its untruncated input and output. */
+export type TranscriptToolCall = {
+    toolUseId: string;
+    name: string;
+    input: Record<string, unknown>;
+    output: string;            // full output (capped at 100k chars); the model saw the first 3000
+    isError?: boolean;
+    denied?: boolean;
+    durationMs: number;
+};
+
+export type TranscriptTurn = {
+    turn: number;              // 1-based
+    model: string;
+    startedAt: string;
+    durationMs: number;        // model call + tools
+    retries: number;
+    response: LlmResponse;
+    toolCalls: TranscriptToolCall[];
+    compactedExchanges?: number;  // total exchanges summarized once this turn's results were added
+};
+
+/** Full record of one runClaudeAgent conversation, replayable with a ScriptedProvider. */
+export type AgentTranscript = {
+    id: string;
+    context?: AgentRunContext;
+    provider: string;
+    models: string[];
+    systemPrompt: string;
+    prompt: string;            // prompt + appended context, as sent; attachments are listed, not stored
+    attachments?: string[];
+    allowedTools?: string[];
+    tools: string[];
+    maxTurns: number;
+    cwd: string;
+    startedAt: string;
+    endedAt?: string;
+    turns: TranscriptTurn[];
+    outcome?: Pick<AgentResult, "success" | "error" | "finalResult" | "durationMs" | "inputTokens" | "outputTokens" | "model" | "modelUsage">;
+};
+
+export type AgentRetry = {
+    kind: LlmErrorKind;
+    status?: number;
+    model: string;
+    attempt: number;           // 1-based retry number for the current turn
+    maxRetries: number;
+    delayMs: number;
+    message: string;
+};
+
+/** Live partial output of a streaming agent, emitted as `delta` on agentEvents. */
+export type AgentDelta = {
+    kind: "text" | "tool_input";
+    content: string;           // text or partial tool-input JSON since the previous delta of the block
+    tool?: string;
+    turn: number;
+    block: number;             // content block index within the turn
+    context?: AgentRunContext;
+    timestamp: string;
 };
 
 export type AgentOptions = {
     prompt: string;
     systemPrompt?: string;
     cwd: string;
-    allowedTools?: string[];
+    allowedTools?: string[];   // logical names (see tool_permissions.ts); undefined = every tool
     maxTurns?: number;
     appendPrompt?: string;
     timeoutMs?: number;
     attachedFiles?: { base64: string; type: string }[];
     abortSignal?: AbortSignal;
+    provider?: LlmProvider;    // default: the process-wide provider (AI_PROVIDER)
+    model?: string;            // default: the provider's model (AI_MODEL)
+    fallbackModels?: string[]; // tried in order when the model is overloaded or rate-limited
+    contextBudgetTokens?: number;  // history budget before old turns are summarized (AGENT_CONTEXT_BUDGET_TOKENS)
+    stream?: boolean;          // emit partial output as `delta` events (default AGENT_STREAMING, on)
+    runContext?: AgentRunContext;  // stamped on every action and streamed delta
+    /** Called before each turn with the run's usage so far; a returned reason stops the run. */
+    checkBudget?: (usage: Pick<AgentResult, "inputTokens" | "outputTokens" | "modelUsage">) => string | undefined;
+    onRetry?: (retry: AgentRetry) => void;  // a turn is about to be retried after a transient API error
+    onTranscript?: (transcript: AgentTranscript) => void;  // at the start, after each turn and at the end of the run
+    /** Replay: a returned string stands in for running the tool call (`index` = position in the turn). */
+    toolOverride?: (call: { turn: number; index: number; name: string; input: Record<string, unknown> }) => string | undefined;
 };
 
 // ─── Event Emitter for live streaming ───
@@ -47,14 +156,46 @@ export type AgentOptions = {
 export const agentEvents = new EventEmitter();
 agentEvents.setMaxListeners(50);
 
+const isStreamingEnabled = () => !/^(0|false|off|no)$/i.test(process.env.AGENT_STREAMING ?? "");
+
+// Deltas are coalesced per block so listeners get a few updates per second, not one per token
+const DELTA_FLUSH_MS = 100;
+
+function createDeltaEmitter(context: AgentRunContext | undefined) {
+    let pending: AgentDelta | undefined;
+    let timer: NodeJS.Timeout | undefined;
+
+    const flush = () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        if (pending) agentEvents.emit("delta", pending);
+        pending = undefined;
+    };
+
+    const push = (turn: number, delta: LlmStreamDelta) => {
+        const kind = delta.type;
+        const content = delta.type === "text" ? delta.text : delta.partialJson;
+        const tool = delta.type === "tool_input" ? delta.name : undefined;
+        if (pending && (pending.turn !== turn || pending.block !== delta.index)) flush();
+        if (pending) {
+            pending.content += content;
+        } else {
+            pending = { kind, content, tool, turn, block: delta.index, context, timestamp: new Date().toISOString() };
+        }
+        timer ??= setTimeout(flush, DELTA_FLUSH_MS);
+    };
+
+    return { push, flush };
+}
+
 // ─── Tool Definitions ───
 
-const TOOLS: Anthropic.Messages.Tool[] = [
+const TOOLS: LlmToolDefinition[] = [
     {
         name: "read_file",
         description: "Read the contents of a file at the given path.",
-        input_schema: {
-            type: "object" as const,
+        inputSchema: {
+            type: "object",
             properties: {
                 path: { type: "string", description: "Path to the file to read" },
             },
@@ -64,8 +205,8 @@ const TOOLS: Anthropic.Messages.Tool[] = [
     {
         name: "write_file",
         description: "Write content to a file. Creates parent directories if needed.",
-        input_schema: {
-            type: "object" as const,
+        inputSchema: {
+            type: "object",
             properties: {
                 path: { type: "string", description: "Path to write to" },
                 content: { type: "string", description: "Content to write" },
@@ -76,30 +217,105 @@ const TOOLS: Anthropic.Messages.Tool[] = [
     {
         name: "list_dir",
         description: "List files and directories in the given path.",
-        input_schema: {
-            type: "object" as const,
+        inputSchema: {
+            type: "object",
             properties: {
                 path: { type: "string", description: "Directory path to list" },
             },
             required: ["path"],
         },
     },
+    {
+        name: "glob_files",
+        description: "Find files by path pattern anywhere under a directory in one call. `**` matches any depth, `*` and `?` stay within one path segment, `{a,b}` lists alternatives (e.g. \"**/*.{ts,tsx}\", \"src/**/routes/*.ts\"). Skips node_modules, .git and .gitignore'd files. Results are capped.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "Glob relative to `path`, e.g. \"**/*.test.ts\"" },
+                path: { type: "string", description: "Directory to search (default: project root)" },
+                limit: { type: "number", description: "Maximum paths returned (default 200)" },
+            },
+            required: ["pattern"],
+        },
+    },
+    {
+        name: "search_code",
+        description: "Search file contents for a regex (or literal text) across the project in one call, like grep -rn. Returns \"path:line: text\" for each match. Skips node_modules, .git, .gitignore'd, binary and >1MB files. Results are capped: narrow with `path` or `glob` if truncated.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "JavaScript regular expression, or plain text with literal: true" },
+                path: { type: "string", description: "Directory or file to search (default: project root)" },
+                glob: { type: "string", description: "Only search files matching this glob, e.g. \"*.ts\" or \"src/**/*.tsx\"" },
+                literal: { type: "boolean", description: "Treat pattern as plain text" },
+                ignoreCase: { type: "boolean", description: "Case-insensitive match" },
+                contextLines: { type: "number", description: "Lines of context around each match (0-3, default 0)" },
+                limit: { type: "number", description: "Maximum matches returned (default 100)" },
+            },
+            required: ["pattern"],
+        },
+    },
     {
         name: "bash",
-        description: "Run a bash command and return its output. Use for npm install, building, testing, etc.",
-        input_schema: {
-            type: "object" as const,
+        description: "Run a bash command and return its output. Use for npm install, building, testing, etc. The command is killed after timeoutSeconds; for servers, watchers or anything that must keep running, use process_start instead.",
+        inputSchema: {
+            type: "object",
             properties: {
                 command: { type: "string", description: "The bash command to run" },
+                timeoutSeconds: { type: "number", description: "Wall-clock limit for this command (default 60, raised up to the configured maximum, e.g. for a long install)" },
             },
             required: ["command"],
         },
     },
+    {
+        name: "process_start",
+        description: "Start a long-running command in the background (dev server, watcher, long install) and return its id right away. Optionally wait until its output matches waitFor (e.g. 'ready|listening'). Background processes are stopped automatically when you finish.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                command: { type: "string", description: "The bash command to run, e.g. 'npm run dev -- --port 3000'" },
+                name: { type: "string", description: "Short label to recognize it in process_list" },
+                waitFor: { type: "string", description: "Regex: return as soon as the output matches it" },
+                waitSeconds: { type: "number", description: "Max seconds to wait for waitFor or for the process to exit (default 0, max 120)" },
+                timeoutSeconds: { type: "number", description: "Kill the process after this many seconds (default and max: the configured lifetime)" },
+            },
+            required: ["command"],
+        },
+    },
+    {
+        name: "process_output",
+        description: "Read the output a background process produced since the last read, and its status (running / exited with code). Can wait for new output matching waitFor.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                id: { type: "string", description: "Process id returned by process_start (e.g. 'bg1')" },
+                waitFor: { type: "string", description: "Regex: wait until new output matches it" },
+                waitSeconds: { type: "number", description: "Max seconds to wait for waitFor or exit (default 0, max 120)" },
+            },
+            required: ["id"],
+        },
+    },
+    {
+        name: "process_stop",
+        description: "Stop a background process (SIGTERM, then SIGKILL) and return its last output.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                id: { type: "string", description: "Process id" },
+            },
+            required: ["id"],
+        },
+    },
+    {
+        name: "process_list",
+        description: "List the background processes of this project with their status.",
+        inputSchema: { type: "object", properties: {} },
+    },
     {
         name: "replace_in_file",
         description: "Replace a specific exact string block in a file with another string block. Use this instead of write_file when editing existing large files.",
-        input_schema: {
-            type: "object" as const,
+        inputSchema: {
+            type: "object",
             properties: {
                 path: { type: "string", description: "Path to the file to modify" },
                 targetStr: { type: "string", description: "The EXACT current string in the file to replace (including indentation/newlines)" },
@@ -108,11 +324,59 @@ const TOOLS: Anthropic.Messages.Tool[] = [
             required: ["path", "targetStr", "replacementStr"],
         },
     },
+    {
+        name: "multi_edit",
+        description: "Apply several exact string replacements to one file in a single atomic call: either every edit applies or the file is left unchanged and the failing edits are reported. Edits apply in order. A target that only differs by whitespace/indentation is matched on whole lines. A target found several times fails unless replaceAll is set.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Path to the file to modify" },
+                edits: {
+                    type: "array",
+                    description: "Replacements, applied in order",
+                    items: {
+                        type: "object",
+                        properties: {
+                            targetStr: { type: "string", description: "The current string to replace (include enough surrounding lines to be unique)" },
+                            replacementStr: { type: "string", description: "The new string" },
+                            replaceAll: { type: "boolean", description: "Replace every occurrence instead of requiring a unique match" },
+                        },
+                        required: ["targetStr", "replacementStr"],
+                    },
+                },
+            },
+            required: ["path", "edits"],
+        },
+    },
+    {
+        name: "apply_patch",
+        description: "Apply a unified diff (--- a/path, +++ b/path, @@ hunks) to one or more files. Hunks are located even if line numbers are off or whitespace drifted. /dev/null as old path creates a file, as new path deletes it. Atomic: if any hunk fails nothing is written and the failing hunks are reported.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                patch: { type: "string", description: "The unified diff, paths relative to the project root" },
+            },
+            required: ["patch"],
+        },
+    },
+    {
+        name: "docs_search",
+        description: "Search the local documentation index (framework docs and skills ingested ahead of time) for API usage, configuration and examples. Works offline; prefer it over web_search. Returns the best matching sections with their source.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                query: { type: "string", description: "What you need (e.g. 'next.js app router middleware redirect')" },
+                tag: { type: "string", description: "Restrict to one tag, e.g. a framework name" },
+                limit: { type: "number", description: "Maximum sections returned (default 5)" },
+            },
+            required: ["query"],
+        },
+    },
     {
         name: "web_search",
         description: "Search the web to find up-to-date documentation or fixes for errors.",
-        input_schema: {
-            type: "object" as const,
+        inputSchema: {
+            type: "object",
             properties: {
                 query: { type: "string", description: "Search query (e.g. 'Next.js 14 app router middleware example')" },
             },
@@ -122,8 +386,8 @@ const TOOLS: Anthropic.Messages.Tool[] = [
     {
         name: "fetch_url",
         description: "Fetch the text content of a generic URL. Useful for reading documentation pages or GitHub issues you found via web_search. Fails on heavy JS single-page-apps.",
-        input_schema: {
-            type: "object" as const,
+        inputSchema: {
+            type: "object",
             properties: {
                 url: { type: "string", description: "The exact URL to scrape" },
             },
@@ -134,32 +398,78 @@ const TOOLS: Anthropic.Messages.Tool[] = [
 
 // ─── Tool Executor ───
 
-async function executeTool(name: string, input: Record<string, any>, cwd: string): Promise<string> {
+/** What a tool call depends on besides its input. */
+type ToolRunContext = {
+    allowedTools: Set<string>;
+    processScope: string;      // background processes are shared per pipeline
+    runId: string;             // owns the background processes started by the call
+    signal?: AbortSignal;
+};
+
+async function executeTool(name: string, input: Record<string, any>, cwd: string, run: ToolRunContext): Promise<string> {
     try {
         switch (name) {
             case "read_file": {
-                const filePath = path.resolve(cwd, input.path);
+                const filePath = await resolveWorkspacePath(cwd, input.path, "read");
                 const content = await fs.readFile(filePath, "utf-8");
                 return content;
             }
             case "write_file": {
-                const filePath = path.resolve(cwd, input.path);
+                const filePath = await resolveWorkspacePath(cwd, input.path, "write");
                 await fs.mkdir(path.dirname(filePath), { recursive: true });
                 await fs.writeFile(filePath, input.content, "utf-8");
                 return `File written: ${input.path}`;
             }
             case "list_dir": {
-                const dirPath = path.resolve(cwd, input.path || ".");
+                const dirPath = await resolveWorkspacePath(cwd, input.path || ".", "read");
                 const entries = await fs.readdir(dirPath, { withFileTypes: true });
                 return entries
                     .map(e => `${e.isDirectory() ? "📁" : "📄"} ${e.name}`)
                     .join("\n");
             }
+            case "glob_files": {
+                return await globFiles(cwd, { pattern: String(input.pattern ?? ""), path: input.path, limit: input.limit });
+            }
+            case "search_code": {
+                return await searchCode(cwd, {
+                    pattern: String(input.pattern ?? ""),
+                    path: input.path,
+                    glob: input.glob,
+                    literal: input.literal === true,
+                    ignoreCase: input.ignoreCase === true,
+                    contextLines: input.contextLines,
+                    limit: input.limit,
+                });
+            }
             case "bash": {
-                return await runBash(input.command, cwd);
+                return await runBash(input.command, cwd, bashTimeoutMs(input.timeoutSeconds), run.signal);
+            }
+            case "process_start": {
+                const waitFor = input.waitFor ? new RegExp(input.waitFor, "i") : undefined;
+                const started = await backgroundProcesses.start(run.processScope, run.runId, String(input.command ?? ""), cwd, {
+                    name: input.name,
+                    timeoutMs: typeof input.timeoutSeconds === "number" && input.timeoutSeconds > 0 ? input.timeoutSeconds * 1000 : undefined,
+                });
+                const read = await backgroundProcesses.read(run.processScope, started.id, { waitFor, waitMs: (Number(input.waitSeconds) || 0) * 1000, signal: run.signal });
+                return formatProcessOutput(read!, waitFor);
+            }
+            case "process_output": {
+                const waitFor = input.waitFor ? new RegExp(input.waitFor, "i") : undefined;
+                const read = await backgroundProcesses.read(run.processScope, String(input.id), { waitFor, waitMs: (Number(input.waitSeconds) || 0) * 1000, signal: run.signal });
+                return read ? formatProcessOutput(read, waitFor) : `Error: no background process ${input.id}. Use process_list.`;
+            }
+            case "process_stop": {
+                const stopped = await backgroundProcesses.stop(run.processScope, String(input.id));
+                if (!stopped) return `Error: no background process ${input.id}. Use process_list.`;
+                const read = await backgroundProcesses.read(run.processScope, stopped.id);
+                return formatProcessOutput(read!);
+            }
+            case "process_list": {
+                const list = backgroundProcesses.list(run.processScope);
+                return list.length ? list.map(describeProcess).join("\n") : "No background processes.";
             }
             case "replace_in_file": {
-                const filePath = path.resolve(cwd, input.path);
+                const filePath = await resolveWorkspacePath(cwd, input.path, "write");
                 let content = await fs.readFile(filePath, "utf-8");
                 if (!content.includes(input.targetStr)) {
                     return `Error: Target string not found in file. Ensure exact match including whitespaces.`;
@@ -168,95 +478,84 @@ async function executeTool(name: string, input: Record<string, any>, cwd: string
                 await fs.writeFile(filePath, content, "utf-8");
                 return `Successfully replaced content in ${input.path}`;
             }
+            case "multi_edit": {
+                return await multiEditFile(cwd, input.path, input.edits);
+            }
+            case "apply_patch": {
+                return await applyPatchToWorkspace(cwd, String(input.patch ?? ""));
+            }
+            case "docs_search": {
+                const query = String(input.query ?? "");
+                // Going to the web is only allowed to agents that could fetch pages themselves
+                const { hits, live } = await getDocsIndex().searchWithFallback(query, {
+                    tag: input.tag,
+                    limit: input.limit,
+                    allowLive: run.allowedTools.has("fetch_url"),
+                });
+                return formatDocHits(query, hits, live);
+            }
             case "web_search": {
                 try {
-                    // Primitive search parsing DuckDuckGo HTML using standard fetch
-                    const encodedQuery = encodeURIComponent(input.query);
-                    const res = await fetch(`https://html.duckduckgo.com/html/?q=${encodedQuery}`, {
-                        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36" }
-                    });
-                    const html = await res.text();
-
-                    const results: string[] = [];
-                    // Very basic regex to extract snippet results
-                    const snippetBoxes = html.split('class="result__snippet');
-                    for (let i = 1; i < Math.min(snippetBoxes.length, 6); i++) {
-                        const snippetMatch = snippetBoxes[i].match(/href="([^"]+)">([^<]+)<\/a>/i);
-                        const abstractMatch = snippetBoxes[i].match(/>\s*([^<]+)\s*<\/a>/);
-                        if (snippetMatch) {
-                            results.push(`[${snippetMatch[2]}] URL: ${snippetMatch[1]}`);
-                        }
-                    }
+                    const results = await webSearch(input.query);
                     if (results.length === 0) return `No search results found.`;
-                    return `Search Results for "${input.query}":\n\n${results.join('\n')}`;
+                    return `Search Results for "${input.query}":\n\n${results.map(r => `[${r.title}] URL: ${r.url}`).join('\n')}`;
                 } catch (e: any) {
                     return `Search failed: ${e.message}`;
                 }
             }
             case "fetch_url": {
                 try {
-                    const res = await fetch(input.url, {
-                        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)" }
-                    });
-                    if (!res.ok) return `HTTP Error ${res.status} fetching ${input.url}`;
-                    let text = await res.text();
-                    // Strip HTML tags naively to save tokens
-                    text = text.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-                        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-                        .replace(/<[^>]+>/g, ' ')
-                        .replace(/\s+/g, ' ')
-                        .trim();
+                    const { text } = await fetchPageText(input.url);
                     return text.slice(0, 8000); // 8k chars max to save tokens
                 } catch (e: any) {
-                    return `Fetch failed: ${e.message}`;
+                    return /^HTTP Error/.test(e.message) ? e.message : `Fetch failed: ${e.message}`;
                 }
             }
             default:
                 return `Unknown tool: ${name}`;
         }
     } catch (err: any) {
+        if (err instanceof PathDeniedError) throw err;
         return `Error: ${err.message}`;
     }
 }
 
-function runBash(command: string, cwd: string): Promise<string> {
-    return new Promise((resolve) => {
-        const proc = spawn("bash", ["-c", command], {
-            cwd,
-            env: { ...process.env, HOME: "/root" },
-            stdio: ["pipe", "pipe", "pipe"],
-        });
+// Wall-clock limit of one agent bash command, and the most an agent may ask for with timeoutSeconds
+const BASH_TIMEOUT_MS = Math.max(1000, Number(process.env.SANDBOX_TIMEOUT_MS) || 60000);
+const BASH_MAX_TIMEOUT_MS = Math.max(BASH_TIMEOUT_MS, Number(process.env.SANDBOX_MAX_TIMEOUT_MS) || 10 * 60 * 1000);
 
-        let stdout = "";
-        let stderr = "";
-        proc.stdout.on("data", (d) => { stdout += d.toString(); });
-        proc.stderr.on("data", (d) => { stderr += d.toString(); });
+function bashTimeoutMs(seconds: unknown): number {
+    const requested = Number(seconds);
+    return Number.isFinite(requested) && requested > 0 ? Math.min(Math.max(1000, requested * 1000), BASH_MAX_TIMEOUT_MS) : BASH_TIMEOUT_MS;
+}
 
-        // Timeout for bash commands: 60s
-        const timeout = setTimeout(() => {
-            proc.kill("SIGTERM");
-            resolve(`Command timed out after 60s.\nStdout: ${stdout}\nStderr: ${stderr}`);
-        }, 60000);
+async function runBash(command: string, cwd: string, timeoutMs: number, signal?: AbortSignal): Promise<string> {
+    // Runs inside the sandbox (see sandbox.ts): no orchestrator secrets, resource limits
+    const { exitCode, stdout, stderr, timedOut } = await runSandboxed(command, cwd, { timeoutMs, signal });
+    if (timedOut) {
+        return `Command timed out after ${Math.round(timeoutMs / 1000)}s (pass timeoutSeconds up to ${Math.round(BASH_MAX_TIMEOUT_MS / 1000)}, or use process_start for servers).\nStdout: ${stdout}\nStderr: ${stderr}`;
+    }
+    const output = stdout + (stderr ? `\nStderr: ${stderr}` : "");
+    return exitCode === 0 ? output : `Exit code ${exitCode}\n${output}`;
+}
 
-        proc.on("close", (code) => {
-            clearTimeout(timeout);
-            const output = stdout + (stderr ? `\nStderr: ${stderr}` : "");
-            resolve(code === 0 ? output : `Exit code ${code}\n${output}`);
-        });
-        proc.on("error", (err) => {
-            clearTimeout(timeout);
-            resolve(`Spawn error: ${err.message}`);
-        });
-    });
+function formatProcessOutput(read: BackgroundOutput, waitFor?: RegExp): string {
+    const lines = [describeProcess(read.process)];
+    if (waitFor) lines.push(read.matched ? `Output matched /${waitFor.source}/.` : `Output did not match /${waitFor.source}/ yet.`);
+    if (read.dropped > 0) lines.push(`(${read.dropped} earlier chars omitted)`);
+    lines.push(read.output ? `Output:\n${read.output}` : "No new output.");
+    return lines.join("\n");
 }
 
 // ─── Main Agent Runner ───
 
 const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
-const DEFAULT_MODEL = process.env.AI_MODEL || "claude-haiku-4-5-20251001";
+
+// Tool outputs kept in transcripts; the model itself only gets the first 3000 chars
+const MAX_TRANSCRIPT_OUTPUT = 100_000;
 
 export function getCurrentModel(): string {
-    return DEFAULT_MODEL;
+    return getProvider().defaultModel;
 }
 
 export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult> {
@@ -265,25 +564,43 @@ export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult
     const maxTurns = options.maxTurns || 10;
     const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
 
+    const record = (action: Omit<AgentAction, "context" | "timestamp">) => {
+        const stamped: AgentAction = { ...action, ...(options.runContext ? { context: options.runContext } : {}), timestamp: new Date().toISOString() };
+        actions.push(stamped);
+        agentEvents.emit("action", stamped);
+    };
+
+    const provider = options.provider ?? getProvider();
+    const models = [...new Set([options.model || provider.defaultModel, ...(options.fallbackModels ?? [])])];
+    let modelIndex = 0;
+    const modelUsage: NonNullable<AgentResult["modelUsage"]> = {};
+
     // Pre-flight check
-    if (!process.env.ANTHROPIC_API_KEY) {
-        console.error("[Agent] ❌ ANTHROPIC_API_KEY is not set!");
+    const configError = provider.configError();
+    if (configError) {
+        console.error(`[Agent] ❌ ${configError}`);
         return {
             success: false,
             actions: [],
-            error: "ANTHROPIC_API_KEY is not set.",
+            error: configError,
             durationMs: Date.now() - startTime,
             inputTokens: 0,
             outputTokens: 0,
         };
     }
 
+    const { allowed: allowedTools, unknown } = resolveAllowedTools(options.allowedTools, TOOLS.map(t => t.name));
+    if (unknown.length > 0) console.warn(`[Agent] Unknown allowedTools ignored: ${unknown.join(", ")}`);
+    const tools = TOOLS.filter(t => allowedTools.has(t.name));
+
     console.log(`[Agent] Starting in ${options.cwd}`);
-    console.log(`[Agent] Model: ${DEFAULT_MODEL}, Max turns: ${maxTurns}, Timeout: ${timeoutMs / 1000}s`);
+    console.log(`[Agent] Provider: ${provider.name}, Model: ${models.join(" → ")}, Max turns: ${maxTurns}, Timeout: ${timeoutMs / 1000}s`);
 
-    const client = new Anthropic();
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
+    let budgetExhausted: string | undefined;
+    let retries = 0;
+    const retryPolicy = getRetryPolicy();
 
     // Build full prompt
     let fullPromptText = options.prompt;
@@ -293,7 +610,7 @@ export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult
 
     const systemPrompt = options.systemPrompt || "You are a senior software engineer. Write clean, working code.";
 
-    const initialContent: Anthropic.Messages.ContentBlockParam[] = [
+    const initialContent: LlmContentBlock[] = [
         { type: "text", text: fullPromptText }
     ];
 
@@ -301,33 +618,61 @@ export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult
         for (const file of options.attachedFiles) {
             const isImage = file.type.startsWith("image/");
             if (isImage) {
-                initialContent.push({
-                    type: "image",
-                    source: {
-                        type: "base64",
-                        media_type: file.type as any,
-                        data: file.base64,
-                    }
-                });
+                initialContent.push({ type: "image", mediaType: file.type, data: file.base64 });
                 console.log(`[Agent] 📎 Attached Image: ${file.type}`);
             } else if (file.type === "application/pdf") {
-                initialContent.push({
-                    type: "document",
-                    source: {
-                        type: "base64",
-                        media_type: "application/pdf",
-                        data: file.base64,
-                    }
-                });
+                initialContent.push({ type: "document", mediaType: "application/pdf", data: file.base64 });
                 console.log(`[Agent] 📎 Attached Document: PDF`);
             }
         }
     }
 
     // Conversation loop
-    const messages: Anthropic.Messages.MessageParam[] = [
+    const context = new ContextManager({ budgetTokens: options.contextBudgetTokens ?? getContextBudgetTokens() });
+    const messages: LlmMessage[] = [
         { role: "user", content: initialContent },
     ];
+    const deltas = (options.stream ?? isStreamingEnabled()) ? createDeltaEmitter(options.runContext) : undefined;
+
+    const transcript: AgentTranscript = {
+        id: `${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+        ...(options.runContext ? { context: options.runContext } : {}),
+        provider: provider.name,
+        models,
+        systemPrompt,
+        prompt: fullPromptText,
+        ...(options.attachedFiles?.length ? { attachments: options.attachedFiles.map(f => f.type) } : {}),
+        allowedTools: options.allowedTools,
+        tools: tools.map(t => t.name),
+        maxTurns,
+        cwd: options.cwd,
+        startedAt: new Date(startTime).toISOString(),
+        turns: [],
+    };
+    options.onTranscript?.(transcript);
+
+    const toolRun: ToolRunContext = {
+        allowedTools,
+        processScope: options.runContext?.pipelineId ?? path.resolve(options.cwd),
+        runId: transcript.id,
+        signal: options.abortSignal,
+    };
+
+    const finish = (result: AgentResult): AgentResult => {
+        transcript.endedAt = new Date().toISOString();
+        transcript.outcome = {
+            success: result.success,
+            error: result.error,
+            finalResult: result.finalResult,
+            durationMs: result.durationMs,
+            inputTokens: result.inputTokens,
+            outputTokens: result.outputTokens,
+            model: result.model,
+            modelUsage: result.modelUsage,
+        };
+        options.onTranscript?.(transcript);
+        return { ...result, transcriptId: transcript.id };
+    };
 
     try {
         for (let turn = 0; turn < maxTurns; turn++) {
@@ -337,75 +682,138 @@ export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult
                 break;
             }
 
+            // Stop between turns, never in the middle of a tool call
+            budgetExhausted = options.checkBudget?.({ inputTokens: totalInputTokens, outputTokens: totalOutputTokens, modelUsage });
+            if (budgetExhausted) {
+                console.log(`[Agent] 💸 Budget exhausted after ${turn} turns: ${budgetExhausted}`);
+                break;
+            }
+
             console.log(`[Agent] Turn ${turn + 1}/${maxTurns}`);
 
-            // Create API request init with signal if provided
-            const requestOptions: any = {};
-            if (options.abortSignal) {
-                requestOptions.signal = options.abortSignal;
-            }
+            // Transient API errors: on saturation move down the fallback chain for the rest
+            // of the run, otherwise retry the same turn with backoff (the conversation is kept)
+            const turnStart = Date.now();
+            let turnRetries = 0;
+            let response: LlmResponse;
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    response = await provider.createMessage({
+                        model: models[modelIndex],
+                        maxTokens: 8192,
+                        system: systemPrompt + "\n\nRÈGLES ABSOLUES: Ne crée JAMAIS de fichiers de documentation (.md), de tests, de rapports ou de scripts de validation. Concentre-toi uniquement sur le code fonctionnel demandé. Sois concis dans tes réponses textuelles.",
+                        tools,
+                        messages,
+                        signal: options.abortSignal,
+                        onDelta: deltas ? delta => deltas.push(turn + 1, delta) : undefined,
+                    });
+                    break;
+                } catch (err) {
+                    deltas?.flush();
+                    const error = classifyLlmError(err);
+                    if (options.abortSignal?.aborted || error.kind === "aborted") throw err;
+                    if (error.capacity && modelIndex < models.length - 1) {
+                        console.warn(`[Agent] ⚠️ ${models[modelIndex]} unavailable (${error.message.slice(0, 120)}), falling back to ${models[modelIndex + 1]}`);
+                        modelIndex++;
+                        attempt = 0;
+                        continue;
+                    }
 
-            const response = await client.messages.create({
-                model: DEFAULT_MODEL,
-                max_tokens: 8192,
-                system: systemPrompt + "\n\nRÈGLES ABSOLUES: Ne crée JAMAIS de fichiers de documentation (.md), de tests, de rapports ou de scripts de validation. Concentre-toi uniquement sur le code fonctionnel demandé. Sois concis dans tes réponses textuelles.",
-                tools: TOOLS,
-                messages,
-            }, requestOptions);
+                    const delayMs = backoffDelayMs(attempt, retryPolicy, error.retryAfterMs);
+                    if (!error.retryable || attempt > retryPolicy.maxRetries || Date.now() - startTime + delayMs > timeoutMs) throw error;
+
+                    retries++;
+                    turnRetries++;
+                    const retry: AgentRetry = { kind: error.kind, status: error.status, model: models[modelIndex], attempt, maxRetries: retryPolicy.maxRetries, delayMs, message: error.message };
+                    console.warn(`[Agent] 🔁 ${error.kind}${error.status ? ` (${error.status})` : ""} on ${retry.model}, retry ${attempt}/${retryPolicy.maxRetries} in ${delayMs}ms`);
+                    record({ type: "system", content: `API ${error.kind}: retry ${attempt}/${retryPolicy.maxRetries} in ${delayMs}ms` });
+                    options.onRetry?.(retry);
+                    await sleep(delayMs, options.abortSignal);
+                }
+            }
 
-            console.log(`[Agent] Response: stop_reason=${response.stop_reason}, ${response.content.length} blocks, tokens: ${response.usage.input_tokens}in/${response.usage.output_tokens}out`);
+            deltas?.flush();
+            console.log(`[Agent] Response: stop_reason=${response.stopReason}, ${response.content.length} blocks, tokens: ${response.usage.inputTokens}in/${response.usage.outputTokens}out${response.usage.cacheReadTokens ? ` (${response.usage.cacheReadTokens} cached)` : ""}`);
 
-            totalInputTokens += response.usage.input_tokens;
-            totalOutputTokens += response.usage.output_tokens;
+            totalInputTokens += response.usage.inputTokens;
+            totalOutputTokens += response.usage.outputTokens;
+            addModelUsage(modelUsage, models[modelIndex], response.usage);
 
             // Process response content
-            const assistantContent: Anthropic.Messages.ContentBlock[] = response.content;
-            const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
+            const assistantContent = response.content;
+            const toolResults: LlmToolResultBlock[] = [];
+            const toolCalls: TranscriptToolCall[] = [];
 
             for (const block of assistantContent) {
                 if (block.type === "text") {
-                    const action: AgentAction = {
-                        type: "text",
-                        content: block.text,
-                        timestamp: new Date().toISOString(),
-                    };
-                    actions.push(action);
-                    agentEvents.emit("action", action);
+                    record({ type: "text", content: block.text });
                     console.log(`[Agent] 📝 Text: ${block.text.substring(0, 120)}...`);
                 } else if (block.type === "tool_use") {
-                    const action: AgentAction = {
-                        type: "tool_use",
-                        tool: block.name,
-                        input: block.input as Record<string, unknown>,
-                        content: `Tool: ${block.name}`,
-                        timestamp: new Date().toISOString(),
-                    };
-                    actions.push(action);
-                    agentEvents.emit("action", action);
+                    record({ type: "tool_use", tool: block.name, input: block.input, content: `Tool: ${block.name}` });
                     console.log(`[Agent] 🔧 Tool: ${block.name} → ${JSON.stringify(block.input).substring(0, 100)}`);
 
-                    // Execute tool
-                    const result = await executeTool(block.name, block.input as Record<string, any>, options.cwd);
+                    // Execute tool (only the allowed ones, file tools confined to the workspace)
+                    const toolStart = Date.now();
+                    let result: string;
+                    let denied: { message: string } | undefined;
+                    if (!allowedTools.has(block.name)) {
+                        denied = { message: `Tool not allowed for this agent: ${block.name}` };
+                        result = `${denied.message}. Allowed tools: ${tools.map(t => t.name).join(", ") || "none"}.`;
+                        console.warn(`[Agent] 🚫 Denied ${block.name}: not in allowedTools`);
+                    } else {
+                        try {
+                            result = options.toolOverride?.({ turn: turn + 1, index: toolCalls.length, name: block.name, input: block.input })
+                                ?? await executeTool(block.name, block.input as Record<string, any>, options.cwd, toolRun);
+                        } catch (err) {
+                            if (!(err instanceof PathDeniedError)) throw err;
+                            denied = err;
+                            result = `${err.message}. File tools only work inside the project workspace${err.reason === "read_only" ? " and this path is read-only" : ""}.`;
+                            console.warn(`[Agent] 🚫 Denied ${block.name}: ${err.reason} ${err.requestedPath}`);
+                        }
+                    }
 
-                    const resultAction: AgentAction = {
-                        type: "tool_result",
+                    const ok = !denied && !/^(Error|Exit code|Spawn error)/.test(result);
+                    context.recordToolCall(block.name, block.input, turn + 1, ok);
+
+                    record({
+                        type: denied ? "denied" : "tool_result",
                         tool: block.name,
-                        content: result.substring(0, 500),
-                        timestamp: new Date().toISOString(),
-                    };
-                    actions.push(resultAction);
-                    agentEvents.emit("action", resultAction);
+                        input: denied ? block.input : undefined,
+                        content: denied ? denied.message : result.substring(0, 500),
+                    });
 
                     toolResults.push({
                         type: "tool_result",
-                        tool_use_id: block.id,
+                        toolUseId: block.id,
                         content: result.substring(0, 3000),
+                        ...(denied ? { isError: true } : {}),
+                    });
+                    toolCalls.push({
+                        toolUseId: block.id,
+                        name: block.name,
+                        input: block.input,
+                        output: result.slice(0, MAX_TRANSCRIPT_OUTPUT),
+                        ...(ok ? {} : { isError: true }),
+                        ...(denied ? { denied: true } : {}),
+                        durationMs: Date.now() - toolStart,
                     });
                 }
             }
 
+            const turnRecord: TranscriptTurn = {
+                turn: turn + 1,
+                model: models[modelIndex],
+                startedAt: new Date(turnStart).toISOString(),
+                durationMs: Date.now() - turnStart,
+                retries: turnRetries,
+                response,
+                toolCalls,
+            };
+            transcript.turns.push(turnRecord);
+            options.onTranscript?.(transcript);
+
             // If no tool use, we're done
-            if (response.stop_reason === "end_turn") {
+            if (response.stopReason === "end_turn") {
                 console.log(`[Agent] ✅ Completed after ${turn + 1} turns`);
                 break;
             }
@@ -415,14 +823,13 @@ export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult
                 messages.push({ role: "assistant", content: assistantContent });
                 messages.push({ role: "user", content: toolResults });
 
-                // Sliding window: keep initial user message + last 3 exchange pairs
-                // to prevent quadratic token growth over many turns
-                const KEEP_PAIRS = 3;
-                if (messages.length > 1 + KEEP_PAIRS * 2) {
-                    const initial = messages[0];
-                    const tail = messages.slice(-(KEEP_PAIRS * 2));
-                    messages.length = 0;
-                    messages.push(initial, ...tail);
+                // Keep the history within the token budget: old exchanges are summarized,
+                // touched files stay listed (see context_manager.ts)
+                const evictedBefore = context.evictedExchanges;
+                context.compact(messages);
+                if (context.evictedExchanges > evictedBefore) {
+                    turnRecord.compactedExchanges = context.evictedExchanges;
+                    console.log(`[Agent] 🗜️ Context compacted: ${context.evictedExchanges} exchange(s) summarized, ${context.getWorkingSet().length} file(s) in working set`);
                 }
             } else {
                 break;
@@ -435,41 +842,50 @@ export async function runClaudeAgent(options: AgentOptions): Promise<AgentResult
             .join("\n");
 
         const result: AgentResult = {
-            success: true,
+            success: !budgetExhausted,
             actions,
             finalResult: finalResult || undefined,
+            ...(budgetExhausted ? { error: `budget_exhausted: ${budgetExhausted}`, budgetExhausted } : {}),
             durationMs: Date.now() - startTime,
             inputTokens: totalInputTokens,
             outputTokens: totalOutputTokens,
+            model: models[modelIndex],
+            modelUsage,
+            retries,
         };
 
         console.log(`[Agent] Done in ${result.durationMs}ms, ${actions.length} actions, tokens: ${totalInputTokens}in/${totalOutputTokens}out`);
-        return result;
+        return finish(result);
 
     } catch (err: any) {
         const errMsg = String(err.message || err);
         console.error(`[Agent] ❌ Error: ${errMsg}`);
 
-        // Fatal errors that should stop the entire pipeline
-        const isFatal =
-            errMsg.includes("credit balance is too low") ||
-            errMsg.includes("invalid_api_key") ||
-            errMsg.includes("permission_error");
-
-        if (isFatal) {
+        // Fatal errors (auth, permission, credit) should stop the entire pipeline
+        const error = classifyLlmError(err);
+        if (error.fatal) {
+            finish({ success: false, actions, error: `FATAL: ${errMsg}`, durationMs: Date.now() - startTime, inputTokens: totalInputTokens, outputTokens: totalOutputTokens, model: models[modelIndex], modelUsage });
             const fatalErr = new Error(`FATAL: ${errMsg}`);
             (fatalErr as any).fatal = true;
+            (fatalErr as any).kind = error.kind;
             throw fatalErr;
         }
 
-        return {
+        return finish({
             success: false,
             actions,
             error: errMsg,
             durationMs: Date.now() - startTime,
             inputTokens: totalInputTokens,
             outputTokens: totalOutputTokens,
-        };
+            model: models[modelIndex],
+            modelUsage,
+            retries,
+        });
+    } finally {
+        // Dev servers and the like never outlive the agent that started them
+        const stopped = await backgroundProcesses.stopOwner(transcript.id);
+        if (stopped > 0) console.log(`[Agent] 🧹 Stopped ${stopped} background process(es)`);
     }
 }
 
@@ -479,7 +895,7 @@ export async function gitClone(repoUrl: string, targetDir: string): Promise<bool
     return new Promise((resolve) => {
         console.log(`[Git] Cloning → ${targetDir}`);
         const proc = spawn("git", ["clone", repoUrl, targetDir], {
-            env: { ...process.env, HOME: "/root" },
+            env: { ...gitCommandEnv(), HOME: "/root" },
             stdio: ["pipe", "pipe", "pipe"],
         });
 
@@ -521,7 +937,7 @@ export async function gitPush(cwd: string, message: string, authRemoteUrl?: stri
             console.log(`[Git] ${cmd} ${args.join(" ")}`);
             const proc = spawn(cmd, [...args], {
                 cwd,
-                env: { ...process.env, HOME: "/root" },
+                env: { ...gitCommandEnv(), HOME: "/root" },
                 stdio: ["pipe", "pipe", "pipe"],
             });
 
@@ -561,7 +977,7 @@ export async function gitInit(cwd: string, remoteUrl: string): Promise<boolean>
             console.log(`[Git] ${cmd} ${args.join(" ")}`);
             const proc = spawn(cmd, [...args], {
                 cwd,
-                env: { ...process.env, HOME: "/root" },
+                env: { ...gitCommandEnv(), HOME: "/root" },
                 stdio: ["pipe", "pipe", "pipe"],
             });
             proc.on("close", () => runNext());
@@ -570,3 +986,34 @@ export async function gitInit(cwd: string, remoteUrl: string): Promise<boolean>
         runNext();
     });
 }
+
+export async function gitHeadSha(cwd: string): Promise<string | undefined> {
+    return new Promise((resolve) => {
+        const proc = spawn("git", ["rev-parse", "HEAD"], {
+            cwd,
+            env: { ...gitCommandEnv(), HOME: "/root" },
+            stdio: ["pipe", "pipe", "pipe"],
+        });
+
+        let stdout = "";
+        proc.stdout?.on("data", (chunk: Buffer) => { stdout += chunk.toString(); });
+
+        proc.on("close", (code) => resolve(code === 0 ? stdout.trim() : undefined));
+        proc.on("error", () => resolve(undefined));
+    });
+}
+
+/**
+ * Keep a workspace file out of every commit without touching the project's
+ * .gitignore (.git/info/exclude is never pushed). No-op outside a git repo.
+ */
+export async function gitExclude(cwd: string, pattern: string): Promise<boolean> {
+    const gitDir = path.join(cwd, ".git");
+    if (!await fs.stat(gitDir).then(s => s.isDirectory(), () => false)) return false;
+    const file = path.join(gitDir, "info", "exclude");
+    const current = await fs.readFile(file, "utf-8").catch(() => "");
+    if (current.split("\n").includes(pattern)) return true;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, `${current && !current.endsWith("\n") ? "\n" : ""}${pattern}\n`, "utf-8");
+    return true;
+}
@@ -0,0 +1,172 @@
+/**
+ * Context Manager — keeps an agent conversation within a token budget.
+ * Old exchanges (assistant tool calls + their results, always together) are
+ * evicted oldest-first and folded into a running summary, and the files the
+ * agent touched are tracked as a working set, so a long run doesn't forget
+ * what it already wrote or re-read files it just edited.
+ */
+
+import type { LlmContentBlock, LlmMessage, LlmTextBlock } from "./llm_provider.js";
+import { patchedPaths } from "./patch_tools.js";
+
+// ─── Types ───
+
+export type WorkingFile = {
+    path: string;
+    lastAction: "read" | "write" | "edit" | "list";
+    turn: number;
+    content?: string;          // last content written by write_file (stale after a later edit)
+};
+
+export type ContextManagerOptions = {
+    budgetTokens: number;      // estimated tokens allowed for the message history
+    keepRecentExchanges?: number;  // exchanges never evicted, even over budget (default 2)
+    workingSetChars?: number;  // file contents inlined in the summary (default 12000)
+};
+
+// ─── Config ───
+
+export const getContextBudgetTokens = () => Math.max(4000, Number(process.env.AGENT_CONTEXT_BUDGET_TOKENS) || 60000);
+
+const SUMMARY_HEADER = "--- CONTEXTE DES TOURS PRÉCÉDENTS (résumé) ---";
+const MAX_SUMMARY_LINES = 60;
+
+// ─── Token Estimate ───
+
+/** Rough token count (~4 characters per token, fixed cost for media). */
+export function estimateTokens(blocks: LlmContentBlock[]): number {
+    let chars = 0;
+    let media = 0;
+    for (const b of blocks) {
+        if (b.type === "text") chars += b.text.length;
+        else if (b.type === "tool_result") chars += b.content.length + 20;
+        else if (b.type === "tool_use") chars += JSON.stringify(b.input).length + b.name.length + 20;
+        else media += 1600;
+    }
+    return Math.ceil(chars / 4) + media;
+}
+
+const messagesTokens = (messages: LlmMessage[]) => messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+const oneLine = (text: string, max: number) => {
+    const flat = text.replace(/\s+/g, " ").trim();
+    return flat.length > max ? flat.slice(0, max) + "…" : flat;
+};
+
+// ─── Manager ───
+
+export class ContextManager {
+    private readonly workingSet = new Map<string, WorkingFile>();
+    private readonly summary: string[] = [];
+    private readonly options: Required<ContextManagerOptions>;
+    private initialText?: string;  // the first message's own text, before any summary was attached
+    evictedExchanges = 0;
+
+    constructor(options: ContextManagerOptions) {
+        this.options = { keepRecentExchanges: 2, workingSetChars: 12000, ...options };
+    }
+
+    /** Track a file tool call in the working set. */
+    recordToolCall(tool: string, input: Record<string, unknown>, turn: number, ok: boolean) {
+        if (ok && tool === "apply_patch" && typeof input.patch === "string") {
+            for (const p of patchedPaths(input.patch)) this.workingSet.set(p, { path: p, lastAction: "edit", turn });
+            return;
+        }
+        const filePath = typeof input.path === "string" ? input.path : undefined;
+        if (!ok || !filePath) return;
+        switch (tool) {
+            case "write_file":
+                this.workingSet.set(filePath, { path: filePath, lastAction: "write", turn, content: typeof input.content === "string" ? input.content : undefined });
+                break;
+            case "replace_in_file":
+            case "multi_edit":
+                this.workingSet.set(filePath, { path: filePath, lastAction: "edit", turn });
+                break;
+            case "read_file":
+                // Reading doesn't downgrade a file we wrote ourselves
+                if (!this.workingSet.has(filePath)) this.workingSet.set(filePath, { path: filePath, lastAction: "read", turn });
+                break;
+            case "list_dir":
+                if (!this.workingSet.has(filePath)) this.workingSet.set(filePath, { path: filePath, lastAction: "list", turn });
+                break;
+        }
+    }
+
+    getWorkingSet(): WorkingFile[] {
+        return [...this.workingSet.values()].sort((a, b) => b.turn - a.turn);
+    }
+
+    /**
+     * Evict the oldest exchanges until the history fits the budget, folding
+     * them into the summary attached to the first (user) message. Mutates and
+     * returns `messages`.
+     */
+    compact(messages: LlmMessage[]): LlmMessage[] {
+        if (messages.length === 0) return messages;
+        if (this.initialText === undefined) {
+            this.initialText = messages[0].content.filter((b): b is LlmTextBlock => b.type === "text").map(b => b.text).join("\n");
+        }
+
+        // messages = [initial user, (assistant, user)*]
+        const minLength = 1 + this.options.keepRecentExchanges * 2;
+        let evicted = false;
+        while (messages.length > minLength && messagesTokens(messages) > this.options.budgetTokens) {
+            const [assistant, results] = messages.splice(1, 2);
+            this.summarizeExchange(assistant, results);
+            evicted = true;
+        }
+        if (evicted) this.attachSummary(messages[0]);
+        return messages;
+    }
+
+    private summarizeExchange(assistant: LlmMessage, results: LlmMessage | undefined) {
+        this.evictedExchanges++;
+        const resultFor = new Map<string, { content: string; isError?: boolean }>();
+        for (const b of results?.content ?? []) {
+            if (b.type === "tool_result") resultFor.set(b.toolUseId, b);
+        }
+
+        const parts: string[] = [];
+        for (const b of assistant.content) {
+            if (b.type === "text" && b.text.trim()) parts.push(`dit: "${oneLine(b.text, 160)}"`);
+            if (b.type !== "tool_use") continue;
+            const result = resultFor.get(b.id);
+            const status = !result ? "" : result.isError ? " ✗ " + oneLine(result.content, 120) : " → " + oneLine(result.content, 80);
+            const target = typeof b.input.pattern === "string" ? `"${oneLine(b.input.pattern, 80)}"${typeof b.input.path === "string" ? ` in ${b.input.path}` : ""}`
+                : typeof b.input.path === "string" ? b.input.path
+                    : typeof b.input.command === "string" ? `\`${oneLine(b.input.command, 100)}\``
+                        : typeof b.input.query === "string" ? `"${oneLine(b.input.query, 80)}"`
+                            : typeof b.input.url === "string" ? b.input.url : "";
+            parts.push(`${b.name} ${target}${status}`);
+        }
+        if (parts.length > 0) this.summary.push(`- Tour ${this.evictedExchanges}: ${parts.join("; ")}`);
+        if (this.summary.length > MAX_SUMMARY_LINES) this.summary.splice(0, this.summary.length - MAX_SUMMARY_LINES);
+    }
+
+    private attachSummary(first: LlmMessage) {
+        const lines = [SUMMARY_HEADER, ...this.summary];
+
+        const files = this.getWorkingSet();
+        if (files.length > 0) {
+            lines.push("", "Fichiers de travail (déjà vus ou modifiés):");
+            let budget = this.options.workingSetChars;
+            for (const f of files) {
+                const label = { write: "écrit", edit: "modifié", read: "lu", list: "listé" }[f.lastAction];
+                // Only the inlined contents are still in context, anything else was evicted with its exchange
+                if (f.lastAction === "write" && f.content !== undefined && f.content.length <= budget) {
+                    budget -= f.content.length;
+                    lines.push(`- ${f.path} (${label}, tour ${f.turn}) — contenu ci-dessous, inutile de le relire sauf si un tool l'a changé depuis`);
+                    lines.push("```", f.content, "```");
+                } else if (f.lastAction === "list") {
+                    lines.push(`- ${f.path} (${label}, tour ${f.turn})`);
+                } else {
+                    lines.push(`- ${f.path} (${label}, tour ${f.turn}) — contenu plus dans le contexte, relis-le si tu en as besoin`);
+                }
+            }
+        }
+
+        // Keep media blocks (attachments) and replace the text with initial text + summary
+        const media = first.content.filter(b => b.type !== "text");
+        first.content = [{ type: "text", text: `${this.initialText ?? ""}\n\n${lines.join("\n")}` }, ...media];
+    }
+}
@@ -0,0 +1,449 @@
+/**
+ * Docs Index — a local, searchable store of documentation for agents:
+ * framework docs imported ahead of time (DOCS_IMPORT_DIR, POST /docs),
+ * skills.sh skill contents, and pages fetched live. Documents are split
+ * into heading-sized chunks and ranked with BM25, so `docs_search` answers
+ * offline; it only fetches the web when the caller allows it.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import dns from "node:dns/promises";
+import net from "node:net";
+import * as cheerio from "cheerio";
+
+import { fetchSkillDetail } from "./skills_get.js";
+
+// ─── Types ───
+
+export type DocSource = "skill" | "url" | "file" | "manual";
+
+export type DocRecord = {
+    id: string;
+    source: DocSource;
+    title: string;
+    url?: string;
+    tags: string[];
+    content: string;
+    ingestedAt: string;
+};
+
+export type DocInput = {
+    source: DocSource;
+    title: string;
+    content: string;
+    url?: string;
+    tags?: string[];
+};
+
+export type DocHit = {
+    docId: string;
+    title: string;
+    url?: string;
+    source: DocSource;
+    heading?: string;
+    snippet: string;
+    score: number;
+};
+
+export type DocSearchOptions = {
+    limit?: number;            // default 5, max 20
+    tag?: string;
+    allowLive?: boolean;       // fetch from the web when the index has nothing (still subject to DOCS_LIVE_FALLBACK)
+};
+
+type Chunk = { docId: string; heading?: string; text: string; terms: Map<string, number>; length: number };
+
+// ─── Config ───
+
+export const getDocsIndexPath = () => process.env.DOCS_INDEX_PATH || "/data/docs-index.json";
+
+export const isDocsLiveFallbackEnabled = () => !/^(0|false|off|no)$/i.test(process.env.DOCS_LIVE_FALLBACK ?? "");
+
+/** DOCS_FETCH_TIMEOUT_MS: limit of one web fetch (headers and body), so a live lookup cannot hang an agent turn. */
+export const getDocsFetchTimeoutMs = () => {
+    const n = Number(process.env.DOCS_FETCH_TIMEOUT_MS);
+    return Number.isFinite(n) && n > 0 ? n : 15_000;
+};
+
+const MAX_DOC_CHARS = 200_000;
+const CHUNK_CHARS = 1500;
+const SNIPPET_CHARS = 700;
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+const LIVE_PAGES = 2;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36";
+
+// ─── Text ───
+
+const STOPWORDS = new Set(["the", "a", "an", "and", "or", "of", "to", "in", "on", "for", "with", "is", "are", "be", "it", "this", "that", "how", "what", "le", "la", "les", "de", "des", "du", "un", "une", "et", "en", "pour"]);
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9_]+/).filter(t => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+/** Split on markdown headings, then cut long sections on paragraph boundaries. */
+function splitChunks(content: string): Array<{ heading?: string; text: string }> {
+    const sections: Array<{ heading?: string; text: string }> = [];
+    let heading: string | undefined;
+    let lines: string[] = [];
+    const flush = () => {
+        const text = lines.join("\n").trim();
+        if (text) sections.push({ heading, text });
+        lines = [];
+    };
+    for (const line of content.split("\n")) {
+        const m = line.match(/^#{1,4}\s+(.+)/);
+        if (m) { flush(); heading = m[1].trim(); continue; }
+        lines.push(line);
+    }
+    flush();
+
+    const chunks: Array<{ heading?: string; text: string }> = [];
+    for (const section of sections) {
+        let current = "";
+        for (const para of section.text.split(/\n\s*\n/)) {
+            if (current && current.length + para.length > CHUNK_CHARS) {
+                chunks.push({ heading: section.heading, text: current });
+                current = "";
+            }
+            current = current ? `${current}\n\n${para}` : para;
+        }
+        if (current) chunks.push({ heading: section.heading, text: current.slice(0, CHUNK_CHARS * 2) });
+    }
+    return chunks;
+}
+
+// ─── Live Fetching ───
+
+/** Loopback, private, link-local, shared (CGNAT), multicast and reserved addresses. */
+function isInternalAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        const [a, b] = address.split(".").map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224
+            || (a === 100 && b >= 64 && b < 128)
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b < 32)
+            || (a === 192 && b === 168)
+            || (a === 198 && (b === 18 || b === 19));
+    }
+    const v6 = address.toLowerCase();
+    // IPv4-mapped, dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1)
+    const dotted = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) return isInternalAddress(dotted[1]);
+    const hex = v6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+        const [hi, lo] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+        return isInternalAddress(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+    }
+    return v6 === "::" || v6 === "::1" || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith("ff");
+}
+
+/**
+ * Throws unless `raw` is an http(s) URL whose host resolves to public
+ * addresses only: the server never fetches its own network on request.
+ */
+export async function assertPublicUrl(raw: string): Promise<URL> {
+    let url: URL;
+    try {
+        url = new URL(raw);
+    } catch {
+        throw new Error(`invalid URL: ${raw}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error(`only http(s) URLs can be fetched: ${raw}`);
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    const addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(a => a.address);
+    if (addresses.length === 0 || addresses.some(isInternalAddress)) throw new Error(`refusing to fetch an internal address: ${url.host}`);
+    return url;
+}
+
+/** GET a public URL, re-checking every redirect hop, within DOCS_FETCH_TIMEOUT_MS. */
+async function fetchPublic(raw: string): Promise<{ res: Response; body: string }> {
+    const timeoutMs = getDocsFetchTimeoutMs();
+    const signal = AbortSignal.timeout(timeoutMs);
+    let url = raw;
+    try {
+        for (let hop = 0; ; hop++) {
+            await assertPublicUrl(url);
+            const res = await fetch(url, { headers: { "User-Agent": USER_AGENT }, redirect: "manual", signal });
+            const location = res.headers.get("location");
+            // The body is read under the same deadline
+            if (res.status < 300 || res.status >= 400 || !location) return { res, body: await res.text() };
+            if (hop >= MAX_REDIRECTS) throw new Error(`too many redirects fetching ${raw}`);
+            url = new URL(location, url).toString();
+        }
+    } catch (err: any) {
+        if (err.name === "TimeoutError") throw new Error(`timed out after ${timeoutMs} ms fetching ${raw}`);
+        throw err;
+    }
+}
+
+/** DuckDuckGo HTML results; result links are unwrapped from the /l/?uddg= redirect. */
+export async function webSearch(query: string, limit = 5): Promise<Array<{ title: string; url: string }>> {
+    const res = await fetch(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`, {
+        headers: { "User-Agent": USER_AGENT },
+        signal: AbortSignal.timeout(getDocsFetchTimeoutMs()),
+    });
+    if (!res.ok) throw new Error(`search http ${res.status}`);
+    const $ = cheerio.load(await res.text());
+    const results: Array<{ title: string; url: string }> = [];
+    $("a.result__a").each((_, a) => {
+        const href = String($(a).attr("href") || "");
+        const title = $(a).text().replace(/\s+/g, " ").trim();
+        let url = href;
+        try {
+            const wrapped = new URL(href, "https://duckduckgo.com").searchParams.get("uddg");
+            if (wrapped) url = wrapped;
+        } catch { /* keep raw href */ }
+        if (url.startsWith("//")) url = `https:${url}`;
+        if (title && /^https?:\/\//.test(url)) results.push({ title, url });
+    });
+    return results.slice(0, limit);
+}
+
+/**
+ * Readable text of a page: scripts, styles and navigation dropped, the
+ * main/article element preferred, headings kept as markdown "##" lines.
+ */
+export async function fetchPageText(url: string): Promise<{ title: string; text: string }> {
+    const { res, body } = await fetchPublic(url);
+    if (!res.ok) throw new Error(`HTTP Error ${res.status} fetching ${url}`);
+    if (!/html/i.test(res.headers.get("content-type") ?? "html")) return { title: url, text: body };
+
+    const $ = cheerio.load(body);
+    $("script, style, noscript, svg, nav, header, footer, aside, form, iframe").remove();
+    const title = $("title").first().text().replace(/\s+/g, " ").trim() || url;
+    const root = $("main").first().length ? $("main").first() : $("article").first().length ? $("article").first() : $("body");
+
+    const blocks: string[] = [];
+    root.find("h1, h2, h3, h4, p, li, pre, td").each((_, el) => {
+        // Nested blocks (li > p) would be emitted twice
+        if ($(el).parents("p, li, pre").length) return;
+        const tag = el.tagName.toLowerCase();
+        const text = tag === "pre" ? $(el).text().trim() : $(el).text().replace(/\s+/g, " ").trim();
+        if (!text) return;
+        if (/^h\d$/.test(tag)) blocks.push(`## ${text}`);
+        else if (tag === "li") blocks.push(`- ${text}`);
+        else if (tag === "pre") blocks.push("```\n" + text + "\n```");
+        else blocks.push(text);
+    });
+    const text = blocks.length ? blocks.join("\n\n") : root.text().replace(/\s+/g, " ").trim();
+    return { title, text };
+}
+
+// ─── Index ───
+
+export class DocsIndex {
+    private docs: DocRecord[] | undefined;
+    private chunks: Chunk[] = [];
+    private docFreq = new Map<string, number>();
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string = getDocsIndexPath()) { }
+
+    private async load(): Promise<DocRecord[]> {
+        if (!this.docs) {
+            try {
+                const raw = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+                this.docs = Array.isArray(raw.docs) ? raw.docs : [];
+            } catch {
+                this.docs = [];
+            }
+            this.rebuild();
+        }
+        return this.docs!;
+    }
+
+    private async save(): Promise<void> {
+        const docs = this.docs ?? [];
+        this.writing = this.writing.then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmp = `${this.filePath}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify({ docs }), "utf-8");
+            await fs.rename(tmp, this.filePath);
+        }).catch(err => console.warn(`[Docs] Save failed: ${err.message}`));
+        return this.writing;
+    }
+
+    private rebuild() {
+        this.chunks = [];
+        this.docFreq = new Map();
+        for (const doc of this.docs ?? []) {
+            const titleTerms = tokenize(doc.title);
+            for (const { heading, text } of splitChunks(doc.content)) {
+                const terms = new Map<string, number>();
+                const all = [...tokenize(text), ...tokenize(heading ?? ""), ...titleTerms, ...titleTerms];
+                for (const t of all) terms.set(t, (terms.get(t) ?? 0) + 1);
+                for (const t of terms.keys()) this.docFreq.set(t, (this.docFreq.get(t) ?? 0) + 1);
+                this.chunks.push({ docId: doc.id, heading, text, terms, length: all.length });
+            }
+        }
+    }
+
+    async list(): Promise<Array<Omit<DocRecord, "content"> & { chars: number }>> {
+        return (await this.load()).map(({ content, ...doc }) => ({ ...doc, chars: content.length }));
+    }
+
+    async get(id: string): Promise<DocRecord | undefined> {
+        return (await this.load()).find(d => d.id === id);
+    }
+
+    /** Add or replace a document; the same source + url (or title) keeps its id. */
+    async ingest(input: DocInput): Promise<DocRecord> {
+        const doc = this.put(await this.load(), input);
+        this.rebuild();
+        await this.save();
+        return doc;
+    }
+
+    private put(docs: DocRecord[], input: DocInput): DocRecord {
+        const id = crypto.createHash("sha1").update(`${input.source}:${input.url || input.title}`).digest("hex").slice(0, 12);
+        const doc: DocRecord = {
+            id,
+            source: input.source,
+            title: input.title.trim() || input.url || id,
+            url: input.url,
+            tags: [...new Set((input.tags ?? []).map(t => t.toLowerCase().trim()).filter(Boolean))],
+            content: input.content.slice(0, MAX_DOC_CHARS),
+            ingestedAt: new Date().toISOString(),
+        };
+        const index = docs.findIndex(d => d.id === id);
+        if (index === -1) docs.push(doc);
+        else docs[index] = doc;
+        return doc;
+    }
+
+    async ingestUrl(url: string, tags: string[] = []): Promise<DocRecord> {
+        const page = await fetchPageText(url);
+        return this.ingest({ source: "url", title: page.title, url, content: page.text, tags });
+    }
+
+    async ingestSkill(owner: string, repo: string, skill: string, tags: string[] = []): Promise<DocRecord> {
+        const detail = await fetchSkillDetail(owner, repo, skill);
+        const content = [
+            detail.description ?? "",
+            ...(detail.sections ?? []).map(s => `## ${s.heading}\n${s.content}`),
+        ].filter(Boolean).join("\n\n");
+        if (!content) throw new Error(`Skill ${owner}/${repo}/${skill} has no content`);
+        return this.ingest({ source: "skill", title: detail.title || skill, url: detail.href, content, tags: [owner, repo, ...tags] });
+    }
+
+    /** Import .md / .mdx / .txt files under `dir`; a file's first "# " heading is its title. */
+    async importDirectory(dir: string, tags: string[] = []): Promise<number> {
+        const docs = await this.load();
+        let count = 0;
+        const visit = async (current: string) => {
+            const entries = await fs.readdir(current, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                const full = path.join(current, entry.name);
+                if (entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== "node_modules") await visit(full);
+                else if (entry.isFile() && /\.(md|mdx|txt)$/i.test(entry.name)) {
+                    const content = await fs.readFile(full, "utf-8");
+                    const rel = path.relative(dir, full).split(path.sep).join("/");
+                    const title = content.match(/^#\s+(.+)$/m)?.[1].trim() ?? rel;
+                    // Top-level folder names are tags: docs/nextjs/routing.md → "nextjs"
+                    const folder = rel.includes("/") ? [rel.split("/")[0]] : [];
+                    this.put(docs, { source: "file", title, url: rel, content, tags: [...tags, ...folder] });
+                    count++;
+                }
+            }
+        };
+        await visit(dir);
+        if (count > 0) {
+            this.rebuild();
+            await this.save();
+        }
+        return count;
+    }
+
+    async remove(id: string): Promise<boolean> {
+        const docs = await this.load();
+        const index = docs.findIndex(d => d.id === id);
+        if (index === -1) return false;
+        docs.splice(index, 1);
+        this.rebuild();
+        await this.save();
+        return true;
+    }
+
+    /** BM25 over chunks, best chunk per document. */
+    async search(query: string, options: DocSearchOptions = {}): Promise<DocHit[]> {
+        const docs = await this.load();
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0 || this.chunks.length === 0) return [];
+
+        const byId = new Map(docs.map(d => [d.id, d]));
+        const tag = options.tag?.toLowerCase();
+        const avgLength = this.chunks.reduce((n, c) => n + c.length, 0) / this.chunks.length;
+        const k1 = 1.2, b = 0.75;
+        const best = new Map<string, { chunk: Chunk; score: number }>();
+
+        for (const chunk of this.chunks) {
+            const doc = byId.get(chunk.docId);
+            if (!doc || (tag && !doc.tags.includes(tag))) continue;
+            let score = 0;
+            for (const term of terms) {
+                const tf = chunk.terms.get(term);
+                if (!tf) continue;
+                const df = this.docFreq.get(term) ?? 0;
+                const idf = Math.log(1 + (this.chunks.length - df + 0.5) / (df + 0.5));
+                score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * chunk.length / avgLength));
+            }
+            if (score > 0 && score > (best.get(doc.id)?.score ?? 0)) best.set(doc.id, { chunk, score });
+        }
+
+        const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+        return [...best.values()]
+            .sort((x, y) => y.score - x.score)
+            .slice(0, limit)
+            .map(({ chunk, score }) => {
+                const doc = byId.get(chunk.docId)!;
+                return {
+                    docId: doc.id,
+                    title: doc.title,
+                    url: doc.url,
+                    source: doc.source,
+                    heading: chunk.heading,
+                    snippet: chunk.text.length > SNIPPET_CHARS ? chunk.text.slice(0, SNIPPET_CHARS) + "…" : chunk.text,
+                    score: Math.round(score * 100) / 100,
+                };
+            });
+    }
+
+    /**
+     * Search the index; when it has no match and live lookups are allowed,
+     * fetch the top web results into the index (tag "live") and search again.
+     */
+    async searchWithFallback(query: string, options: DocSearchOptions = {}): Promise<{ hits: DocHit[]; live: boolean }> {
+        const hits = await this.search(query, options);
+        if (hits.length > 0 || !options.allowLive || !isDocsLiveFallbackEnabled()) return { hits, live: false };
+
+        const results = await webSearch(query, LIVE_PAGES).catch(() => []);
+        for (const result of results) {
+            await this.ingestUrl(result.url, ["live", ...(options.tag ? [options.tag] : [])])
+                .catch(err => console.warn(`[Docs] Live fetch failed for ${result.url}: ${err.message}`));
+        }
+        return { hits: await this.search(query, options), live: true };
+    }
+}
+
+let shared: DocsIndex | undefined;
+
+export function getDocsIndex(): DocsIndex {
+    if (!shared) shared = new DocsIndex();
+    return shared;
+}
+
+/** `docs_search` tool output. */
+export function formatDocHits(query: string, hits: DocHit[], live: boolean): string {
+    if (hits.length === 0) {
+        return live
+            ? `No documentation found for "${query}", even after a live web lookup.`
+            : `No documentation indexed for "${query}". Try other keywords, or web_search / fetch_url if you have them.`;
+    }
+    return `Documentation for "${query}"${live ? " (fetched live)" : ""}:\n\n` + hits.map(h =>
+        `### ${h.title}${h.heading ? ` › ${h.heading}` : ""}\n${h.url ? `Source: ${h.url}\n` : ""}${h.snippet}`
+    ).join("\n\n");
+}
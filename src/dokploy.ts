@@ -29,6 +29,8 @@ export interface CreateApplicationInput {
     owner?: string;
     repo?: string;
     branch?: string;
+    buildPath?: string;        // Dockerfile path in the repo, default "/Dockerfile"
+    repository?: string;       // generic git URL, used when there is no GitHub owner/repo
     description?: string;
     env?: string;
     sourceType?: "git" | "github" | "gitlab" | "bitbucket" | "docker";
@@ -6,6 +6,7 @@ import { ProjectsStore } from "./projects_store.js";
 
 import { fetchTrending, searchSkills } from "./skills.js";
 import { fetchSkillDetail } from "./skills_get.js";
+import { getDocsIndex, type DocRecord } from "./docs_index.js";
 import { PROFILES, getProfile } from "./profiles.js";
 import { TEMPLATES } from "./templates.js";
 import {
@@ -16,8 +17,10 @@ import {
     triggerDeploy,
 } from "./dokploy.js";
 
-import { getOrchestrator, type PipelineEvent } from "./orchestrator.js";
-import { getCurrentModel } from "./claude_code.js";
+import { getOrchestrator, type PipelineEvent, type ApprovalGate, type ApprovalDecision } from "./orchestrator.js";
+import { isArtifactName, validateArtifact } from "./artifacts.js";
+import { parseBudgetLimits } from "./budget.js";
+import { getCurrentModel, type AgentAction, type AgentDelta } from "./claude_code.js";
 
 const app = express();
 const port = process.env.PORT || 3000;
@@ -56,6 +59,7 @@ app.use('/projects', authMiddleware);
 app.use('/pipeline', authMiddleware);
 app.use('/agents', authMiddleware);
 app.use('/dokploy', authMiddleware);
+app.use('/docs', authMiddleware);
 
 // Initialize Stores
 const agentsStore = new AgentsStore(storePath);
@@ -78,12 +82,20 @@ app.post("/pipeline/launch", async (req: Request, res: Response) => {
         const description = String(req.body?.description ?? "").trim();
         const name = req.body?.name ? String(req.body.name).trim() : undefined;
         const files = req.body?.files as { base64: string; type: string }[] | undefined;
+        const templateId = req.body?.templateId ? String(req.body.templateId) : undefined;
+        const approvalGates = Array.isArray(req.body?.approvalGates)
+            ? (req.body.approvalGates as unknown[]).map(String).filter((g): g is ApprovalGate => g === "analysis" || g === "architecture")
+            : undefined;
+        const budget = req.body?.budget ? parseBudgetLimits(req.body.budget) : undefined;
 
         if (!description) {
             return res.status(400).json({ error: "missing_description" });
         }
+        if (budget === null) {
+            return res.status(400).json({ error: "invalid_budget" });
+        }
 
-        const pipeline = await orchestrator.launchIdea(description, name, files);
+        const pipeline = await orchestrator.launchIdea(description, name, files, { templateId, approvalGates, budget });
         res.json({ pipeline });
     } catch (err: any) {
         console.error("Pipeline launch error:", err);
@@ -97,6 +109,11 @@ app.get("/pipeline/list", (_req: Request, res: Response) => {
     res.json({ pipelines });
 });
 
+// Registered phase graphs (templates select one via pipeline.flow)
+app.get("/pipeline/flows", (_req: Request, res: Response) => {
+    res.json({ flows: orchestrator.listFlows() });
+});
+
 // Get pipeline status
 app.get("/pipeline/:id/status", (req: Request, res: Response) => {
     const pipeline = orchestrator.getPipeline(req.params.id);
@@ -133,12 +150,21 @@ app.get("/pipeline/:id/events", (req: Request, res: Response) => {
         }
     };
 
+    // Live agent output (partial text / tool input), not replayed on connect
+    const onAgentDelta = (data: AgentDelta & { pipelineId: string }) => {
+        if (data.pipelineId === req.params.id) {
+            res.write(`data: ${JSON.stringify({ type: "agent-delta", ...data })}\n\n`);
+        }
+    };
+
     orchestrator.on("event", onEvent);
     orchestrator.on("phase-change", onPhaseChange);
+    orchestrator.on("agent-delta", onAgentDelta);
 
     req.on("close", () => {
         orchestrator.off("event", onEvent);
         orchestrator.off("phase-change", onPhaseChange);
+        orchestrator.off("agent-delta", onAgentDelta);
     });
 });
 
@@ -205,6 +231,208 @@ app.post("/pipeline/:id/modify", async (req: Request, res: Response) => {
     }
 });
 
+// Approval gates (review PRD / architecture before continuing)
+app.get("/pipeline/:id/approval", (req: Request, res: Response) => {
+    const approval = orchestrator.getApproval(req.params.id);
+    if (!approval) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json(approval);
+});
+
+app.post("/pipeline/:id/approval", async (req: Request, res: Response) => {
+    const decision = String(req.body?.decision ?? "") as ApprovalDecision;
+    if (!["approve", "reject", "edit-and-approve"].includes(decision)) {
+        return res.status(400).json({ error: "invalid_decision", allowed: ["approve", "reject", "edit-and-approve"] });
+    }
+    try {
+        const pipeline = await orchestrator.decideApproval(req.params.id, decision, {
+            artifact: req.body?.artifact,
+            comment: req.body?.comment ? String(req.body.comment) : undefined,
+        });
+        res.json({ pipeline });
+    } catch (err: any) {
+        const msg = String(err?.message || err);
+        if (msg === "pipeline_not_found") return res.status(404).json({ error: msg });
+        if (msg === "invalid_artifact") return res.status(422).json({ error: msg, details: err.details });
+        res.status(400).json({ error: msg });
+    }
+});
+
+// Feature ledger (per-feature status, commit, tokens, actions)
+app.get("/pipeline/:id/features", (req: Request, res: Response) => {
+    const features = orchestrator.getFeatures(req.params.id);
+    if (!features) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json({ features });
+});
+
+// Token / cost budget: limits, spend, and whether it is exhausted
+app.get("/pipeline/:id/budget", (req: Request, res: Response) => {
+    const budget = orchestrator.getBudget(req.params.id);
+    if (!budget) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json(budget);
+});
+
+// { maxTokens?, maxCost? } — null removes the override; resume a budget-paused pipeline afterwards
+app.put("/pipeline/:id/budget", async (req: Request, res: Response) => {
+    const limits = parseBudgetLimits(req.body ?? {}, true);
+    if (limits === null) return res.status(400).json({ error: "invalid_budget" });
+    const budget = await orchestrator.setBudget(req.params.id, limits);
+    if (!budget) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json(budget);
+});
+
+// Agent action log, filterable: ?phase=&role=&feature=&type=&tool=&since=&limit=
+app.get("/pipeline/:id/actions", async (req: Request, res: Response) => {
+    const num = (v: unknown) => (typeof v === "string" && v !== "" ? Number(v) : undefined);
+    const str = (v: unknown) => (typeof v === "string" && v !== "" ? v : undefined);
+    const query = {
+        phase: str(req.query.phase)?.toUpperCase(),
+        role: str(req.query.role),
+        featureIndex: num(req.query.feature),
+        type: str(req.query.type) as AgentAction["type"] | undefined,
+        tool: str(req.query.tool),
+        since: num(req.query.since),
+        limit: num(req.query.limit),
+    };
+    if ([query.featureIndex, query.since, query.limit].some(n => n !== undefined && !Number.isInteger(n))) {
+        return res.status(400).json({ error: "invalid_query" });
+    }
+    const result = await orchestrator.getActions(req.params.id, query);
+    if (!result) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json(result);
+});
+
+app.get("/pipeline/:id/transcripts", async (req: Request, res: Response) => {
+    const feature = typeof req.query.feature === "string" && req.query.feature !== "" ? Number(req.query.feature) : undefined;
+    if (feature !== undefined && !Number.isInteger(feature)) return res.status(400).json({ error: "invalid_query" });
+    const transcripts = await orchestrator.listTranscripts(req.params.id, {
+        phase: typeof req.query.phase === "string" && req.query.phase ? req.query.phase.toUpperCase() : undefined,
+        role: typeof req.query.role === "string" && req.query.role ? req.query.role : undefined,
+        featureIndex: feature,
+    });
+    if (!transcripts) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json({ transcripts });
+});
+
+app.get("/pipeline/:id/transcripts/:transcriptId", async (req: Request, res: Response) => {
+    if (!orchestrator.getPipeline(req.params.id)) return res.status(404).json({ error: "pipeline_not_found" });
+    const transcript = await orchestrator.getTranscript(req.params.id, req.params.transcriptId);
+    if (!transcript) return res.status(404).json({ error: "transcript_not_found" });
+    res.json(transcript);
+});
+
+// Debug: re-run a recorded conversation with its recorded model responses
+app.post("/pipeline/:id/transcripts/:transcriptId/replay", async (req: Request, res: Response) => {
+    const mode = req.body?.mode ?? "dry";
+    if (mode !== "dry" && mode !== "execute") return res.status(400).json({ error: "invalid_mode", allowed: ["dry", "execute"] });
+    if (!orchestrator.getPipeline(req.params.id)) return res.status(404).json({ error: "pipeline_not_found" });
+    const report = await orchestrator.replayTranscript(req.params.id, req.params.transcriptId, mode);
+    if (!report) return res.status(404).json({ error: "transcript_not_found" });
+    res.json(report);
+});
+
+// Re-run a single feature without restarting the pipeline
+app.post("/pipeline/:id/features/:index/rerun", async (req: Request, res: Response) => {
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0) {
+        return res.status(400).json({ error: "invalid_feature_index" });
+    }
+    try {
+        const feature = await orchestrator.rerunFeature(req.params.id, index);
+        res.json({ feature });
+    } catch (err: any) {
+        const msg = String(err?.message || err);
+        if (msg === "pipeline_not_found" || msg === "feature_not_found") return res.status(404).json({ error: msg });
+        res.status(409).json({ error: msg });
+    }
+});
+
+// Latest security review (secrets + dependency advisories)
+app.get("/pipeline/:id/security", (req: Request, res: Response) => {
+    const pipeline = orchestrator.getPipeline(req.params.id);
+    if (!pipeline) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json({ report: pipeline.artifacts.security ?? null });
+});
+
+// Latest QA test run (per-service pass/fail counts)
+app.get("/pipeline/:id/qa", (req: Request, res: Response) => {
+    const pipeline = orchestrator.getPipeline(req.params.id);
+    if (!pipeline) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json({ report: pipeline.artifacts.qaReport ?? null });
+});
+
+// Editable PRD / architecture with version history
+app.get("/pipeline/:id/artifacts/:name", (req: Request, res: Response) => {
+    if (!isArtifactName(req.params.name)) return res.status(404).json({ error: "artifact_not_found" });
+    const artifact = orchestrator.getArtifact(req.params.id, req.params.name);
+    if (!artifact) return res.status(404).json({ error: "pipeline_not_found" });
+    res.json({ name: req.params.name, ...artifact });
+});
+
+// Body: { patch } (JSON merge patch) or { content } (full replacement)
+app.patch("/pipeline/:id/artifacts/:name", async (req: Request, res: Response) => {
+    if (!isArtifactName(req.params.name)) return res.status(404).json({ error: "artifact_not_found" });
+    if (req.body?.patch === undefined && req.body?.content === undefined) {
+        return res.status(400).json({ error: "patch_or_content_required" });
+    }
+    try {
+        const version = await orchestrator.updateArtifact(req.params.id, req.params.name, {
+            patch: req.body.patch,
+            content: req.body.content,
+        });
+        res.json({ version });
+    } catch (err: any) {
+        const msg = String(err?.message || err);
+        if (msg === "pipeline_not_found" || msg === "artifact_not_found") return res.status(404).json({ error: msg });
+        if (msg === "invalid_artifact") return res.status(422).json({ error: msg, details: err.details });
+        res.status(409).json({ error: msg });
+    }
+});
+
+// Dry-run validation of { content }, or of the stored artifact when omitted
+app.post("/pipeline/:id/artifacts/:name/validate", (req: Request, res: Response) => {
+    if (!isArtifactName(req.params.name)) return res.status(404).json({ error: "artifact_not_found" });
+    const stored = orchestrator.getArtifact(req.params.id, req.params.name);
+    if (!stored) return res.status(404).json({ error: "pipeline_not_found" });
+    const errors = validateArtifact(req.params.name, req.body?.content ?? stored.content);
+    res.json({ valid: errors.length === 0, errors });
+});
+
+app.get("/pipeline/:id/artifacts/:name/versions/:version", (req: Request, res: Response) => {
+    if (!isArtifactName(req.params.name)) return res.status(404).json({ error: "artifact_not_found" });
+    const version = orchestrator.getArtifactVersion(req.params.id, req.params.name, Number(req.params.version));
+    if (!version) return res.status(404).json({ error: "version_not_found" });
+    res.json({ version });
+});
+
+// ?from=&to= version numbers; defaults to latest agent output vs current content
+app.get("/pipeline/:id/artifacts/:name/diff", (req: Request, res: Response) => {
+    if (!isArtifactName(req.params.name)) return res.status(404).json({ error: "artifact_not_found" });
+    try {
+        const diff = orchestrator.diffArtifact(
+            req.params.id,
+            req.params.name,
+            req.query.from ? Number(req.query.from) : undefined,
+            req.query.to ? Number(req.query.to) : undefined,
+        );
+        res.json(diff);
+    } catch (err: any) {
+        res.status(404).json({ error: String(err?.message || err) });
+    }
+});
+
+// Re-run the phases downstream of the edited artifact
+app.post("/pipeline/:id/artifacts/:name/replan", async (req: Request, res: Response) => {
+    if (!isArtifactName(req.params.name)) return res.status(404).json({ error: "artifact_not_found" });
+    try {
+        const pipeline = await orchestrator.replanFromArtifact(req.params.id, req.params.name);
+        res.json({ pipeline });
+    } catch (err: any) {
+        const msg = String(err?.message || err);
+        if (msg === "pipeline_not_found" || msg === "artifact_not_found") return res.status(404).json({ error: msg });
+        res.status(409).json({ error: msg });
+    }
+});
+
 app.post("/pipeline/:id/kill", async (req: Request, res: Response) => {
     try {
         const success = await orchestrator.killPipeline(req.params.id);
@@ -331,6 +559,57 @@ app.get("/skills/get", async (req: Request, res: Response) => {
     res.json(detail);
 });
 
+// ─────────────────────────────────────
+// Docs index (docs_search)
+// ─────────────────────────────────────
+
+app.get("/docs", async (_req: Request, res: Response) => {
+    res.json({ docs: await getDocsIndex().list() });
+});
+
+app.get("/docs/search", async (req: Request, res: Response) => {
+    const q = String(req.query.q ?? "");
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    const tag = req.query.tag ? String(req.query.tag) : undefined;
+    const hits = await getDocsIndex().search(q, { limit, tag });
+    res.json({ q, hits });
+});
+
+app.get("/docs/:id", async (req: Request, res: Response) => {
+    const doc = await getDocsIndex().get(req.params.id);
+    if (!doc) return res.status(404).json({ error: "doc_not_found" });
+    res.json(doc);
+});
+
+// Body: { url } | { owner, repo, skill } | { title, content }, plus optional tags
+app.post("/docs", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const tags = Array.isArray(body.tags) ? body.tags.map(String) : [];
+    const docs = getDocsIndex();
+    try {
+        let doc: DocRecord;
+        if (typeof body.url === "string" && body.url) {
+            doc = await docs.ingestUrl(body.url, tags);
+        } else if (body.owner && body.repo && body.skill) {
+            doc = await docs.ingestSkill(String(body.owner), String(body.repo), String(body.skill), tags);
+        } else if (typeof body.title === "string" && typeof body.content === "string" && body.content.trim()) {
+            doc = await docs.ingest({ source: "manual", title: body.title, content: body.content, tags });
+        } else {
+            return res.status(400).json({ error: "missing_fields", oneOf: [["url"], ["owner", "repo", "skill"], ["title", "content"]] });
+        }
+        const { content, ...summary } = doc;
+        res.status(201).json({ ...summary, chars: content.length });
+    } catch (err: any) {
+        res.status(502).json({ error: "ingest_failed", message: err.message });
+    }
+});
+
+app.delete("/docs/:id", async (req: Request, res: Response) => {
+    const removed = await getDocsIndex().remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: "doc_not_found" });
+    res.json({ success: true, id: req.params.id });
+});
+
 // ─────────────────────────────────────
 // Profiles + Templates
 // ─────────────────────────────────────
@@ -493,6 +772,13 @@ app.listen(PORT, "0.0.0.0", () => {
     console.log(`   Dokploy: ${isDokployConfigured() ? "✓ configured" : "✗ not configured"}`);
     console.log(`   GitHub: ${process.env.GITHUB_TOKEN ? "✓ configured" : "✗ not configured"}`);
     console.log(`   AI Model: ${getCurrentModel()}`);
+
+    const docsDir = process.env.DOCS_IMPORT_DIR;
+    if (docsDir) {
+        getDocsIndex().importDirectory(docsDir)
+            .then(count => console.log(`   Docs: ${count} file(s) imported from ${docsDir}`))
+            .catch(err => console.warn(`   Docs: import from ${docsDir} failed: ${err.message}`));
+    }
 });
 
 export default app;
@@ -0,0 +1,149 @@
+/**
+ * LLM Errors — typed classification of model API failures and the backoff
+ * used to retry the transient ones (rate limits, overload, 5xx, network
+ * resets). Works on Anthropic SDK errors and on the OpenAI-compatible
+ * provider's errors alike: both carry `status` and `headers`.
+ */
+
+// ─── Types ───
+
+export type LlmErrorKind =
+    | "rate_limit"     // 429
+    | "overloaded"     // 529 / 503 / overloaded_error
+    | "server"         // other 5xx
+    | "network"        // connection reset / refused, DNS, socket closed
+    | "timeout"        // request timed out before a response
+    | "auth"           // 401, invalid key
+    | "permission"     // 403
+    | "credit"         // credit balance too low
+    | "invalid_request"
+    | "aborted"        // cancelled through the abort signal
+    | "unknown";
+
+const RETRYABLE: LlmErrorKind[] = ["rate_limit", "overloaded", "server", "network", "timeout"];
+const FATAL: LlmErrorKind[] = ["auth", "permission", "credit"];
+
+export class LlmError extends Error {
+    constructor(
+        public readonly kind: LlmErrorKind,
+        message: string,
+        public readonly status?: number,
+        public readonly retryAfterMs?: number,
+        cause?: unknown,
+    ) {
+        super(message, { cause });
+        this.name = "LlmError";
+    }
+
+    /** Worth another attempt on the same request. */
+    get retryable(): boolean {
+        return RETRYABLE.includes(this.kind);
+    }
+
+    /** Retrying or switching model won't help: the whole pipeline should stop. */
+    get fatal(): boolean {
+        return FATAL.includes(this.kind);
+    }
+
+    /** The provider is saturated: trying a fallback model makes sense. */
+    get capacity(): boolean {
+        return this.kind === "rate_limit" || this.kind === "overloaded";
+    }
+}
+
+export type RetryPolicy = {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+};
+
+// ─── Config ───
+
+export function getRetryPolicy(): RetryPolicy {
+    const int = (raw: string | undefined, fallback: number) => {
+        const n = Number(raw);
+        return raw !== undefined && raw !== "" && Number.isInteger(n) && n >= 0 ? n : fallback;
+    };
+    return {
+        maxRetries: int(process.env.AI_RETRY_MAX, 4),
+        baseDelayMs: Math.max(1, int(process.env.AI_RETRY_BASE_MS, 1000)),
+        maxDelayMs: Math.max(1, int(process.env.AI_RETRY_MAX_MS, 60000)),
+    };
+}
+
+// ─── Classification ───
+
+const NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "ENOTFOUND", "ENETUNREACH", "EHOSTUNREACH", "UND_ERR_SOCKET", "UND_ERR_CONNECT_TIMEOUT"];
+
+function headerValue(headers: unknown, name: string): string | undefined {
+    if (!headers) return undefined;
+    if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name) ?? undefined;
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === "string" ? value : undefined;
+}
+
+/** `retry-after-ms`, or `retry-after` in seconds or as an HTTP date. */
+export function parseRetryAfter(headers: unknown, now = Date.now()): number | undefined {
+    const ms = Number(headerValue(headers, "retry-after-ms"));
+    if (Number.isFinite(ms) && ms >= 0) return ms;
+    const raw = headerValue(headers, "retry-after");
+    if (!raw) return undefined;
+    const seconds = Number(raw);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(raw);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function classifyLlmError(err: unknown): LlmError {
+    if (err instanceof LlmError) return err;
+
+    const e = err as any;
+    const status: number | undefined = typeof e?.status === "number" ? e.status : undefined;
+    const message = String(e?.message ?? err);
+    const bodyType: string | undefined = e?.error?.error?.type ?? e?.error?.type;
+    const code: string | undefined = e?.code ?? e?.cause?.code;
+    const retryAfterMs = parseRetryAfter(e?.headers);
+    const make = (kind: LlmErrorKind) => new LlmError(kind, message, status, retryAfterMs, err);
+    // SDK error classes don't all set `name`, match the class name too
+    const is = (...names: string[]) => names.includes(e?.name) || names.includes(e?.constructor?.name);
+
+    if (is("AbortError", "APIUserAbortError")) return make("aborted");
+    if (/credit balance is too low/i.test(message)) return make("credit");
+    if (status === 401 || bodyType === "authentication_error" || /invalid_api_key|invalid x-api-key/i.test(message)) return make("auth");
+    if (status === 403 || bodyType === "permission_error") return make("permission");
+    if (status === 429 || bodyType === "rate_limit_error") return make("rate_limit");
+    if (status === 529 || status === 503 || bodyType === "overloaded_error" || /overloaded/i.test(message)) return make("overloaded");
+    if (status === 408 || is("APIConnectionTimeoutError") || (status === undefined && /timed? ?out/i.test(message))) return make("timeout");
+    if (status !== undefined && status >= 500) return make("server");
+    if (status !== undefined && status >= 400) return make("invalid_request");
+    if (is("APIConnectionError") || (code && NETWORK_CODES.includes(code)) || /fetch failed|socket hang up|network|terminated/i.test(message)) return make("network");
+    return make("unknown");
+}
+
+// ─── Backoff ───
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential, jittered over
+ * its upper half, capped at maxDelayMs, but never shorter than the server's retry-after.
+ */
+export function backoffDelayMs(attempt: number, policy: RetryPolicy, retryAfterMs?: number, random: () => number = Math.random): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    const jittered = Math.round(ceiling / 2 + random() * ceiling / 2);
+    return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/** Sleep that ends early (rejecting with AbortError) when `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(Object.assign(new Error("Aborted"), { name: "AbortError" }));
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(Object.assign(new Error("Aborted"), { name: "AbortError" }));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
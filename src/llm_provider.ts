@@ -0,0 +1,435 @@
+/**
+ * LLM Provider — the model backend behind runClaudeAgent. Messages and tools
+ * use a provider-neutral shape; each backend translates them:
+ *   anthropic  Anthropic Messages API (default)
+ *   openai     any OpenAI-compatible /chat/completions endpoint (OpenAI, Ollama, vLLM, LM Studio...)
+ *   scripted   replays recorded responses from AI_SCRIPT_PATH, offline and deterministic
+ * AI_RECORD_PATH records every response of the active provider in the scripted format.
+ * A request with `onDelta` is streamed: text and tool-input deltas arrive as they are generated.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { promises as fs, readFileSync } from "node:fs";
+
+import type { TokenUsage } from "./budget.js";
+
+// ─── Types ───
+
+export type LlmToolDefinition = {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;  // JSON Schema of the tool input
+};
+
+export type LlmTextBlock = { type: "text"; text: string };
+export type LlmToolUseBlock = { type: "tool_use"; id: string; name: string; input: Record<string, unknown> };
+export type LlmToolResultBlock = { type: "tool_result"; toolUseId: string; content: string; isError?: boolean };
+export type LlmMediaBlock = { type: "image" | "document"; mediaType: string; data: string };  // base64
+
+export type LlmContentBlock = LlmTextBlock | LlmToolUseBlock | LlmToolResultBlock | LlmMediaBlock;
+
+export type LlmMessage = {
+    role: "user" | "assistant";
+    content: LlmContentBlock[];
+};
+
+export type LlmRequest = {
+    model: string;
+    system: string;
+    messages: LlmMessage[];
+    tools: LlmToolDefinition[];
+    maxTokens: number;
+    signal?: AbortSignal;
+    onDelta?: (delta: LlmStreamDelta) => void;  // set = stream the response, called as output is generated
+};
+
+/** Partial output of a streamed response; `index` is the content block being generated. */
+export type LlmStreamDelta =
+    | { type: "text"; index: number; text: string }
+    | { type: "tool_input"; index: number; toolUseId: string; name: string; partialJson: string };
+
+export type LlmStopReason = "end_turn" | "tool_use" | "max_tokens" | "other";
+
+export type LlmResponse = {
+    content: (LlmTextBlock | LlmToolUseBlock)[];
+    stopReason: LlmStopReason;
+    usage: TokenUsage;
+    model?: string;
+};
+
+export interface LlmProvider {
+    readonly name: string;
+    readonly defaultModel: string;
+    /** Why the provider cannot be used (missing key...), undefined when ready. */
+    configError(): string | undefined;
+    createMessage(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// ─── Anthropic ───
+
+export class AnthropicProvider implements LlmProvider {
+    readonly name = "anthropic";
+    readonly defaultModel = process.env.AI_MODEL || "claude-haiku-4-5-20251001";
+    private client?: Anthropic;
+
+    configError() {
+        return process.env.ANTHROPIC_API_KEY ? undefined : "ANTHROPIC_API_KEY is not set.";
+    }
+
+    async createMessage(request: LlmRequest): Promise<LlmResponse> {
+        // Retries are handled by runClaudeAgent (see llm_errors.ts), so they show up in the pipeline events
+        this.client ??= new Anthropic({ maxRetries: 0 });
+        // Prompt caching: tools and system prompt are identical on every turn of a run,
+        // a breakpoint after each lets the following turns read them from the cache
+        const cache = { cache_control: { type: "ephemeral" as const } };
+        const tools = request.tools.map((t, i): Anthropic.Messages.Tool => ({
+            name: t.name,
+            description: t.description,
+            input_schema: t.inputSchema as Anthropic.Messages.Tool.InputSchema,
+            ...(i === request.tools.length - 1 ? cache : {}),
+        }));
+        const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
+            model: request.model,
+            max_tokens: request.maxTokens,
+            system: [{ type: "text", text: request.system, ...cache }],
+            ...(tools.length > 0 ? { tools } : {}),
+            messages: request.messages.map(m => ({ role: m.role, content: m.content.map(toAnthropicBlock) })),
+        };
+        const options = request.signal ? { signal: request.signal } : undefined;
+
+        let response: Anthropic.Messages.Message;
+        const onDelta = request.onDelta;
+        if (onDelta) {
+            const stream = this.client.messages.stream(params, options);
+            const toolBlocks = new Map<number, { id: string; name: string }>();
+            stream.on("streamEvent", event => {
+                if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+                    toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name });
+                    onDelta({ type: "tool_input", index: event.index, toolUseId: event.content_block.id, name: event.content_block.name, partialJson: "" });
+                } else if (event.type === "content_block_delta") {
+                    const tool = toolBlocks.get(event.index);
+                    if (event.delta.type === "text_delta") onDelta({ type: "text", index: event.index, text: event.delta.text });
+                    else if (event.delta.type === "input_json_delta" && tool) onDelta({ type: "tool_input", index: event.index, toolUseId: tool.id, name: tool.name, partialJson: event.delta.partial_json });
+                }
+            });
+            response = await stream.finalMessage();
+        } else {
+            response = await this.client.messages.create(params, options);
+        }
+
+        return {
+            content: response.content.flatMap((block): LlmResponse["content"] => {
+                if (block.type === "text") return [{ type: "text", text: block.text }];
+                if (block.type === "tool_use") return [{ type: "tool_use", id: block.id, name: block.name, input: block.input as Record<string, unknown> }];
+                return [];
+            }),
+            stopReason: response.stop_reason === "end_turn" || response.stop_reason === "tool_use" || response.stop_reason === "max_tokens"
+                ? response.stop_reason
+                : "other",
+            usage: {
+                // Cached prompt tokens count as input, budget.ts prices them at the cache rates
+                inputTokens: response.usage.input_tokens + (response.usage.cache_creation_input_tokens ?? 0) + (response.usage.cache_read_input_tokens ?? 0),
+                outputTokens: response.usage.output_tokens,
+                cacheReadTokens: response.usage.cache_read_input_tokens ?? undefined,
+                cacheCreationTokens: response.usage.cache_creation_input_tokens ?? undefined,
+            },
+            model: response.model,
+        };
+    }
+}
+
+function toAnthropicBlock(block: LlmContentBlock): Anthropic.Messages.ContentBlockParam {
+    switch (block.type) {
+        case "text":
+            return { type: "text", text: block.text };
+        case "tool_use":
+            return { type: "tool_use", id: block.id, name: block.name, input: block.input };
+        case "tool_result":
+            return { type: "tool_result", tool_use_id: block.toolUseId, content: block.content, ...(block.isError ? { is_error: true } : {}) };
+        case "image":
+            return { type: "image", source: { type: "base64", media_type: block.mediaType as any, data: block.data } };
+        case "document":
+            return { type: "document", source: { type: "base64", media_type: "application/pdf", data: block.data } };
+    }
+}
+
+// ─── OpenAI-compatible ───
+
+export class OpenAICompatibleProvider implements LlmProvider {
+    readonly name = "openai";
+    readonly defaultModel = process.env.AI_MODEL || "gpt-4o-mini";
+    private readonly baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+
+    configError() {
+        // Local endpoints (Ollama, vLLM) usually need no key
+        const isLocal = /\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0|host\.docker\.internal)[:/]/.test(this.baseUrl);
+        return process.env.OPENAI_API_KEY || isLocal ? undefined : "OPENAI_API_KEY is not set.";
+    }
+
+    async createMessage(request: LlmRequest): Promise<LlmResponse> {
+        const messages: Record<string, unknown>[] = [{ role: "system", content: request.system }];
+        for (const m of request.messages) messages.push(...toOpenAIMessages(m));
+
+        const res = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {}),
+            },
+            body: JSON.stringify({
+                model: request.model,
+                max_tokens: request.maxTokens,
+                messages,
+                ...(request.onDelta ? { stream: true, stream_options: { include_usage: true } } : {}),
+                ...(request.tools.length > 0 ? {
+                    tools: request.tools.map(t => ({
+                        type: "function",
+                        function: { name: t.name, description: t.description, parameters: t.inputSchema },
+                    })),
+                } : {}),
+            }),
+            signal: request.signal,
+        });
+
+        if (!res.ok) {
+            const body = await res.text().catch(() => "");
+            // Same wording as the Anthropic errors the runner treats as fatal
+            const kind = res.status === 401 ? "invalid_api_key" : res.status === 403 ? "permission_error" : `HTTP ${res.status}`;
+            const err = new Error(`OpenAI-compatible API error (${kind}): ${body.slice(0, 500)}`);
+            (err as any).status = res.status;    // lets model routing fall back on 429 / 503
+            (err as any).headers = res.headers;  // retry-after
+            throw err;
+        }
+
+        const data = request.onDelta ? await readOpenAIStream(res, request.onDelta) : await res.json() as any;
+        const choice = data.choices?.[0];
+        const content: LlmResponse["content"] = [];
+        if (choice?.message?.content) content.push({ type: "text", text: String(choice.message.content) });
+        for (const call of choice?.message?.tool_calls ?? []) {
+            let input: Record<string, unknown> = {};
+            try { input = JSON.parse(call.function?.arguments || "{}"); } catch { /* keep empty, the tool reports the missing args */ }
+            content.push({ type: "tool_use", id: call.id, name: call.function?.name, input });
+        }
+
+        const finish = choice?.finish_reason;
+        return {
+            content,
+            stopReason: finish === "tool_calls" || content.some(b => b.type === "tool_use") ? "tool_use"
+                : finish === "length" ? "max_tokens"
+                    : finish === "stop" ? "end_turn" : "other",
+            usage: {
+                // prompt_tokens includes the cached ones
+                inputTokens: data.usage?.prompt_tokens ?? 0,
+                outputTokens: data.usage?.completion_tokens ?? 0,
+                cacheReadTokens: data.usage?.prompt_tokens_details?.cached_tokens ?? undefined,
+            },
+            model: data.model,
+        };
+    }
+}
+
+/**
+ * Consume a chat/completions SSE stream, forwarding deltas, and rebuild the
+ * non-streaming response shape ({ choices: [{ message, finish_reason }], usage, model }).
+ */
+async function readOpenAIStream(res: Response, onDelta: (delta: LlmStreamDelta) => void): Promise<any> {
+    const message = { content: "", tool_calls: [] as { id: string; function: { name: string; arguments: string } }[] };
+    let finishReason: string | undefined;
+    let usage: unknown;
+    let model: string | undefined;
+
+    const handle = (line: string) => {
+        if (!line.startsWith("data:")) return;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === "[DONE]") return;
+        let chunk: any;
+        try { chunk = JSON.parse(payload); } catch { return; }
+        model ??= chunk.model;
+        if (chunk.usage) usage = chunk.usage;
+        const choice = chunk.choices?.[0];
+        if (!choice) return;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+        if (choice.delta?.content) {
+            message.content += choice.delta.content;
+            onDelta({ type: "text", index: 0, text: choice.delta.content });
+        }
+        for (const call of choice.delta?.tool_calls ?? []) {
+            // Text is block 0, tool calls follow in their stream order
+            const slot = message.tool_calls[call.index ?? 0] ??= { id: "", function: { name: "", arguments: "" } };
+            if (call.id) slot.id = call.id;
+            if (call.function?.name) slot.function.name += call.function.name;
+            if (call.function?.arguments) slot.function.arguments += call.function.arguments;
+            onDelta({ type: "tool_input", index: (call.index ?? 0) + 1, toolUseId: slot.id, name: slot.function.name, partialJson: call.function?.arguments ?? "" });
+        }
+    };
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach(handle);
+    }
+    handle(buffer);
+
+    return {
+        choices: [{ message: { content: message.content || null, tool_calls: message.tool_calls.filter(Boolean) }, finish_reason: finishReason }],
+        usage,
+        model,
+    };
+}
+
+function toOpenAIMessages(message: LlmMessage): Record<string, unknown>[] {
+    if (message.role === "assistant") {
+        const text = message.content.filter((b): b is LlmTextBlock => b.type === "text").map(b => b.text).join("\n");
+        const calls = message.content.filter((b): b is LlmToolUseBlock => b.type === "tool_use");
+        return [{
+            role: "assistant",
+            content: text || null,
+            ...(calls.length > 0 ? {
+                tool_calls: calls.map(c => ({ id: c.id, type: "function", function: { name: c.name, arguments: JSON.stringify(c.input) } })),
+            } : {}),
+        }];
+    }
+
+    // Tool results become "tool" messages; the rest stays a user message
+    const out: Record<string, unknown>[] = [];
+    const parts: Record<string, unknown>[] = [];
+    for (const block of message.content) {
+        if (block.type === "tool_result") out.push({ role: "tool", tool_call_id: block.toolUseId, content: block.content });
+        else if (block.type === "text") parts.push({ type: "text", text: block.text });
+        else if (block.type === "image") parts.push({ type: "image_url", image_url: { url: `data:${block.mediaType};base64,${block.data}` } });
+        // PDF documents have no portable chat/completions representation and are dropped
+    }
+    if (parts.length > 0) out.push({ role: "user", content: parts.length === 1 && parts[0].type === "text" ? parts[0].text : parts });
+    return out;
+}
+
+// ─── Scripted ───
+
+/**
+ * Replays responses in order, one per model call. Entries are LlmResponse
+ * objects (the AI_RECORD_PATH format); a missing usage counts as zero tokens.
+ * When the script runs out, the provider throws.
+ */
+export class ScriptedProvider implements LlmProvider {
+    readonly name = "scripted";
+    readonly defaultModel = "scripted";
+    readonly requests: LlmRequest[] = [];
+    private cursor = 0;
+
+    constructor(private readonly responses: LlmResponse[]) { }
+
+    /**
+     * A JSON array (or `{ responses }`), or JSON Lines as written by
+     * RecordingProvider (always for `.jsonl`). A recording of a single call
+     * is one line, i.e. a lone response object.
+     */
+    static fromFile(file: string): ScriptedProvider {
+        const text = readFileSync(file, "utf-8");
+        const parseLines = () => text.split("\n").filter(line => line.trim()).map(line => JSON.parse(line));
+        let raw: any;
+        if (file.endsWith(".jsonl")) {
+            raw = parseLines();
+        } else {
+            try {
+                raw = JSON.parse(text);
+            } catch {
+                raw = parseLines();
+            }
+        }
+        const single = raw && typeof raw === "object" && !Array.isArray(raw) && !("responses" in raw) && ("content" in raw || "response" in raw);
+        const entries = Array.isArray(raw) ? raw : single ? [raw] : raw?.responses;
+        if (!Array.isArray(entries)) throw new Error(`Invalid script file ${file}: expected an array of responses`);
+        return new ScriptedProvider(entries.map((r: any) => "response" in r ? r.response : r));
+    }
+
+    configError() {
+        return undefined;
+    }
+
+    get remaining(): number {
+        return this.responses.length - this.cursor;
+    }
+
+    async createMessage(request: LlmRequest): Promise<LlmResponse> {
+        this.requests.push(request);
+        const next = this.responses[this.cursor++];
+        if (!next) throw new Error(`Scripted provider exhausted after ${this.responses.length} response(s)`);
+        // Streaming replays each block as a single delta
+        (next.content ?? []).forEach((block, index) => {
+            if (block.type === "text") request.onDelta?.({ type: "text", index, text: block.text });
+            else request.onDelta?.({ type: "tool_input", index, toolUseId: block.id, name: block.name, partialJson: JSON.stringify(block.input) });
+        });
+        return {
+            content: next.content ?? [],
+            stopReason: next.stopReason ?? (next.content?.some(b => b.type === "tool_use") ? "tool_use" : "end_turn"),
+            usage: next.usage ?? { inputTokens: 0, outputTokens: 0 },
+            model: next.model ?? this.defaultModel,
+        };
+    }
+}
+
+// ─── Recording ───
+
+/** Wraps a provider and appends every response to `file` as one JSON line, replayable by ScriptedProvider. */
+export class RecordingProvider implements LlmProvider {
+    readonly name: string;
+    readonly defaultModel: string;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly inner: LlmProvider, private readonly file: string) {
+        this.name = inner.name;
+        this.defaultModel = inner.defaultModel;
+    }
+
+    configError() {
+        return this.inner.configError();
+    }
+
+    async createMessage(request: LlmRequest): Promise<LlmResponse> {
+        const response = await this.inner.createMessage(request);
+        // Serialized so the lines of concurrent agents keep their response order
+        const line = JSON.stringify(response) + "\n";
+        this.writing = this.writing
+            .then(() => fs.appendFile(this.file, line))
+            .catch(err => console.warn(`[LLM] Recording failed: ${err.message}`));
+        await this.writing;
+        return response;
+    }
+}
+
+// ─── Selection ───
+
+let activeProvider: LlmProvider | undefined;
+
+function createProvider(): LlmProvider {
+    const kind = (process.env.AI_PROVIDER || "anthropic").toLowerCase();
+    let provider: LlmProvider;
+    switch (kind) {
+        case "openai":
+            provider = new OpenAICompatibleProvider();
+            break;
+        case "scripted": {
+            const file = process.env.AI_SCRIPT_PATH;
+            if (!file) throw new Error("AI_PROVIDER=scripted requires AI_SCRIPT_PATH");
+            provider = ScriptedProvider.fromFile(file);
+            break;
+        }
+        default:
+            provider = new AnthropicProvider();
+    }
+    return process.env.AI_RECORD_PATH ? new RecordingProvider(provider, process.env.AI_RECORD_PATH) : provider;
+}
+
+/** Provider selected by AI_PROVIDER (created on first use) unless one was set explicitly. */
+export function getProvider(): LlmProvider {
+    activeProvider ??= createProvider();
+    return activeProvider;
+}
+
+/** Replace the process-wide provider, e.g. with a ScriptedProvider in an offline run. */
+export function setProvider(provider: LlmProvider | undefined) {
+    activeProvider = provider;
+}
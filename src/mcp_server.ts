@@ -3,6 +3,7 @@ import { z } from "zod";
 
 import { fetchTrending, searchSkills } from "./skills.js";
 import { fetchSkillDetail } from "./skills_get.js";
+import { getDocsIndex } from "./docs_index.js";
 
 import { AgentsStore } from "./agents_store.js";
 import { ProjectsStore } from "./projects_store.js";
@@ -58,6 +59,51 @@ export function buildMcpServer() {
         }
     );
 
+    // ------------------------
+    // docs index
+    // ------------------------
+
+    server.registerTool(
+        "docs_search",
+        {
+            description: "Search the local documentation index (imported framework docs, skill contents, fetched pages).",
+            inputSchema: { q: z.string().min(1), tag: z.string().optional(), limit: z.number().int().min(1).max(20).optional() },
+        },
+        async ({ q, tag, limit }) => {
+            const hits = await getDocsIndex().search(q, { tag, limit });
+            return { content: [{ type: "text", text: JSON.stringify({ q, hits }, null, 2) }] };
+        }
+    );
+
+    server.registerTool(
+        "docs_ingest",
+        {
+            description: "Add a page (url), a skills.sh skill (owner/repo/skill) or raw text (title + content) to the documentation index.",
+            inputSchema: {
+                url: z.string().url().optional(),
+                owner: z.string().optional(),
+                repo: z.string().optional(),
+                skill: z.string().optional(),
+                title: z.string().optional(),
+                content: z.string().optional(),
+                tags: z.array(z.string()).optional(),
+            },
+        },
+        async ({ url, owner, repo, skill, title, content, tags }) => {
+            try {
+                const docs = getDocsIndex();
+                const doc = url ? await docs.ingestUrl(url, tags)
+                    : owner && repo && skill ? await docs.ingestSkill(owner, repo, skill, tags)
+                        : title && content ? await docs.ingest({ source: "manual", title, content, tags })
+                            : undefined;
+                if (!doc) return { content: [{ type: "text", text: JSON.stringify({ error: "missing_fields", oneOf: [["url"], ["owner", "repo", "skill"], ["title", "content"]] }, null, 2) }] };
+                return { content: [{ type: "text", text: JSON.stringify({ id: doc.id, title: doc.title, source: doc.source, chars: doc.content.length }, null, 2) }] };
+            } catch (e: any) {
+                return { content: [{ type: "text", text: JSON.stringify({ error: String(e?.message || "error") }, null, 2) }] };
+            }
+        }
+    );
+
     // ------------------------
     // profiles + templates
     // ------------------------
@@ -223,6 +269,194 @@ export function buildMcpServer() {
         }
     );
 
+    // ------------------------
+    // pipelines (orchestrator is loaded lazily so skills/agents tools don't start it)
+    // ------------------------
+
+    server.registerTool(
+        "pipeline_approval_get",
+        {
+            description: "Get the pending approval (PRD or architecture) of a pipeline and the artifact to review.",
+            inputSchema: { pipelineId: z.string().min(1) },
+        },
+        async ({ pipelineId }) => {
+            const { getOrchestrator } = await import("./orchestrator.js");
+            const approval = getOrchestrator().getApproval(pipelineId);
+            if (!approval) return { content: [{ type: "text", text: JSON.stringify({ error: "pipeline_not_found" }, null, 2) }] };
+            return { content: [{ type: "text", text: JSON.stringify({ pipelineId, ...approval }, null, 2) }] };
+        }
+    );
+
+    server.registerTool(
+        "pipeline_approval_decide",
+        {
+            description: "Approve, reject, or edit-and-approve the artifact a pipeline is waiting on.",
+            inputSchema: {
+                pipelineId: z.string().min(1),
+                decision: z.enum(["approve", "reject", "edit-and-approve"]),
+                artifact: z.record(z.any()).optional(),
+                comment: z.string().optional(),
+            },
+        },
+        async ({ pipelineId, decision, artifact, comment }) => {
+            try {
+                const { getOrchestrator } = await import("./orchestrator.js");
+                const pipeline = await getOrchestrator().decideApproval(pipelineId, decision, { artifact, comment });
+                return { content: [{ type: "text", text: JSON.stringify({ pipelineId, phase: pipeline.phase }, null, 2) }] };
+            } catch (e: any) {
+                return { content: [{ type: "text", text: JSON.stringify({ error: String(e?.message || "error"), details: e?.details }, null, 2) }] };
+            }
+        }
+    );
+
+    server.registerTool(
+        "pipeline_features",
+        {
+            description: "List the feature ledger of a pipeline (status, commit SHA, tokens, actions per feature).",
+            inputSchema: { pipelineId: z.string().min(1) },
+        },
+        async ({ pipelineId }) => {
+            const { getOrchestrator } = await import("./orchestrator.js");
+            const features = getOrchestrator().getFeatures(pipelineId);
+            if (!features) return { content: [{ type: "text", text: JSON.stringify({ error: "pipeline_not_found" }, null, 2) }] };
+            return { content: [{ type: "text", text: JSON.stringify({ pipelineId, features }, null, 2) }] };
+        }
+    );
+
+    server.registerTool(
+        "pipeline_actions",
+        {
+            description: "Query the agent action log of a pipeline (tool calls, results, denials), filtered by phase, role or feature index.",
+            inputSchema: {
+                pipelineId: z.string().min(1),
+                phase: z.string().optional(),
+                role: z.string().optional(),
+                featureIndex: z.number().int().min(0).optional(),
+                tool: z.string().optional(),
+                limit: z.number().int().min(1).max(1000).optional(),
+            },
+        },
+        async ({ pipelineId, phase, ...query }) => {
+            const { getOrchestrator } = await import("./orchestrator.js");
+            const result = await getOrchestrator().getActions(pipelineId, { ...query, phase: phase?.toUpperCase() });
+            if (!result) return { content: [{ type: "text", text: JSON.stringify({ error: "pipeline_not_found" }, null, 2) }] };
+            return { content: [{ type: "text", text: JSON.stringify({ pipelineId, ...result }, null, 2) }] };
+        }
+    );
+
+    server.registerTool(
+        "pipeline_transcripts",
+        {
+            description: "Browse the recorded agent conversations of a pipeline: without transcriptId, list them (filtered by phase, role or feature index); with it, get the full transcript (messages, tool inputs/outputs, usage per turn).",
+            inputSchema: {
+                pipelineId: z.string().min(1),
+                transcriptId: z.string().optional(),
+                phase: z.string().optional(),
+                role: z.string().optional(),
+                featureIndex: z.number().int().min(0).optional(),
+            },
+        },
+        async ({ pipelineId, transcriptId, phase, ...query }) => {
+            const { getOrchestrator } = await import("./orchestrator.js");
+            const orchestrator = getOrchestrator();
+            if (!orchestrator.getPipeline(pipelineId)) return { content: [{ type: "text", text: JSON.stringify({ error: "pipeline_not_found" }, null, 2) }] };
+            const result = transcriptId
+                ? await orchestrator.getTranscript(pipelineId, transcriptId) ?? { error: "transcript_not_found" }
+                : { pipelineId, transcripts: await orchestrator.listTranscripts(pipelineId, { ...query, phase: phase?.toUpperCase() }) };
+            return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        }
+    );
+
+    server.registerTool(
+        "pipeline_transcript_replay",
+        {
+            description: "Replay a recorded agent conversation against its recorded model responses. dry: tools return their recorded outputs; execute: tools re-run in a scratch copy of the workspace. Reports divergences from the recording.",
+            inputSchema: { pipelineId: z.string().min(1), transcriptId: z.string().min(1), mode: z.enum(["dry", "execute"]).optional() },
+        },
+        async ({ pipelineId, transcriptId, mode }) => {
+            const { getOrchestrator } = await import("./orchestrator.js");
+            const report = await getOrchestrator().replayTranscript(pipelineId, transcriptId, mode ?? "dry");
+            if (!report) return { content: [{ type: "text", text: JSON.stringify({ error: "transcript_not_found" }, null, 2) }] };
+            const { replay, ...summary } = report;
+            return { content: [{ type: "text", text: JSON.stringify({ ...summary, replayedTurns: replay?.turns.length ?? 0 }, null, 2) }] };
+        }
+    );
+
+    server.registerTool(
+        "pipeline_feature_rerun",
+        {
+            description: "Re-run a single feature of a pipeline (by its index in architecture.features).",
+            inputSchema: { pipelineId: z.string().min(1), index: z.number().int().min(0) },
+        },
+        async ({ pipelineId, index }) => {
+            try {
+                const { getOrchestrator } = await import("./orchestrator.js");
+                const feature = await getOrchestrator().rerunFeature(pipelineId, index);
+                return { content: [{ type: "text", text: JSON.stringify({ pipelineId, feature }, null, 2) }] };
+            } catch (e: any) {
+                return { content: [{ type: "text", text: JSON.stringify({ error: String(e?.message || "error") }, null, 2) }] };
+            }
+        }
+    );
+
+    server.registerTool(
+        "pipeline_artifact_get",
+        {
+            description: "Get a pipeline artifact (analysis = PRD, architecture) with its version history, and optionally the diff between two versions.",
+            inputSchema: {
+                pipelineId: z.string().min(1),
+                name: z.enum(["analysis", "architecture"]),
+                diff: z.boolean().optional(),
+                from: z.number().int().min(1).optional(),
+                to: z.number().int().min(1).optional(),
+            },
+        },
+        async ({ pipelineId, name, diff, from, to }) => {
+            try {
+                const { getOrchestrator } = await import("./orchestrator.js");
+                const orchestrator = getOrchestrator();
+                const artifact = orchestrator.getArtifact(pipelineId, name);
+                if (!artifact) return { content: [{ type: "text", text: JSON.stringify({ error: "pipeline_not_found" }, null, 2) }] };
+                const result = diff ? { ...artifact, diff: orchestrator.diffArtifact(pipelineId, name, from, to) } : artifact;
+                return { content: [{ type: "text", text: JSON.stringify({ pipelineId, name, ...result }, null, 2) }] };
+            } catch (e: any) {
+                return { content: [{ type: "text", text: JSON.stringify({ error: String(e?.message || "error") }, null, 2) }] };
+            }
+        }
+    );
+
+    server.registerTool(
+        "pipeline_artifact_update",
+        {
+            description: "Edit a pipeline artifact with a JSON merge patch (or a full replacement), then optionally re-run the downstream phases.",
+            inputSchema: {
+                pipelineId: z.string().min(1),
+                name: z.enum(["analysis", "architecture"]),
+                patch: z.record(z.any()).optional(),
+                content: z.record(z.any()).optional(),
+                replan: z.boolean().optional(),
+            },
+        },
+        async ({ pipelineId, name, patch, content, replan }) => {
+            try {
+                const { getOrchestrator } = await import("./orchestrator.js");
+                const orchestrator = getOrchestrator();
+                const version = patch || content
+                    ? await orchestrator.updateArtifact(pipelineId, name, { patch, content })
+                    : undefined;
+                const pipeline = replan ? await orchestrator.replanFromArtifact(pipelineId, name) : undefined;
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({ pipelineId, version: version?.version, phase: pipeline?.phase }, null, 2),
+                    }],
+                };
+            } catch (e: any) {
+                return { content: [{ type: "text", text: JSON.stringify({ error: String(e?.message || "error"), details: e?.details }, null, 2) }] };
+            }
+        }
+    );
+
     // ------------------------
     // events
     // ------------------------
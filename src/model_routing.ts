@@ -0,0 +1,78 @@
+/**
+ * Model Routing — picks the model chain for an agent call from its phase,
+ * its role and the pipeline template. The first model is used, the others
+ * are fallbacks tried in order when the provider is overloaded or rate-limited.
+ *
+ *   MODEL_BY_PHASE="ARCHITECTURE=claude-sonnet-4-5|claude-haiku-4-5-20251001,QA=claude-haiku-4-5-20251001"
+ *   MODEL_BY_ROLE="Debugger=claude-sonnet-4-5"
+ *   AI_MODEL_FALLBACKS="claude-haiku-4-5-20251001"
+ *
+ * Precedence: template role > template phase > env role > env phase > default.
+ */
+
+// ─── Types ───
+
+export type ModelRoutes = {
+    phases?: Record<string, string | string[]>;   // PipelinePhase → model or chain
+    roles?: Record<string, string | string[]>;    // agent role ("Architect", "QA"...) → model or chain
+};
+
+export type ModelRouteRequest = {
+    phase?: string;
+    role?: string;
+    template?: ModelRoutes;
+    defaultModel: string;
+};
+
+// ─── Config ───
+
+const toChain = (value: string | string[] | undefined): string[] =>
+    (Array.isArray(value) ? value : (value ?? "").split("|")).map(s => s.trim()).filter(Boolean);
+
+/**
+ * Parse "ARCHITECTURE=model-a|model-b,QA=model-c" into { ARCHITECTURE: [...], QA: [...] }.
+ */
+export function parseModelRoutes(raw: string, normalizeKey: (key: string) => string = k => k): Record<string, string[]> {
+    const routes: Record<string, string[]> = {};
+    for (const part of raw.split(",")) {
+        const [key, value] = part.split("=").map(s => s.trim());
+        const chain = toChain(value);
+        if (key && chain.length > 0) routes[normalizeKey(key)] = chain;
+    }
+    return routes;
+}
+
+export function getEnvModelRoutes(): { phases: Record<string, string[]>; roles: Record<string, string[]>; fallbacks: string[] } {
+    return {
+        phases: parseModelRoutes(process.env.MODEL_BY_PHASE ?? "", k => k.toUpperCase()),
+        roles: parseModelRoutes(process.env.MODEL_BY_ROLE ?? "", k => k.toLowerCase()),
+        fallbacks: toChain(process.env.AI_MODEL_FALLBACKS),
+    };
+}
+
+// ─── Resolution ───
+
+const lookup = (routes: Record<string, string | string[]> | undefined, key: string | undefined, normalize: (k: string) => string) => {
+    if (!routes || !key) return [];
+    const match = Object.keys(routes).find(k => normalize(k) === normalize(key));
+    return match ? toChain(routes[match]) : [];
+};
+
+/**
+ * Ordered, de-duplicated model chain for one agent call. The default model
+ * and AI_MODEL_FALLBACKS always close the chain.
+ */
+export function resolveModelChain(request: ModelRouteRequest): string[] {
+    const env = getEnvModelRoutes();
+    const upper = (k: string) => k.toUpperCase();
+    const lower = (k: string) => k.toLowerCase();
+
+    const candidates = [
+        lookup(request.template?.roles, request.role, lower),
+        lookup(request.template?.phases, request.phase, upper),
+        lookup(env.roles, request.role, lower),
+        lookup(env.phases, request.phase, upper),
+    ];
+    const primary = candidates.find(c => c.length > 0) ?? [];
+    return [...new Set([...primary, request.defaultModel, ...env.fallbacks])];
+}
@@ -9,7 +9,21 @@ import path from "node:path";
 import crypto from "node:crypto";
 import { EventEmitter } from "node:events";
 
-import { runClaudeAgent, gitInit, gitPush, gitClone, agentEvents, type AgentAction } from "./claude_code.js";
+import {
+    runClaudeAgent,
+    getCurrentModel,
+    gitInit,
+    gitPush,
+    gitClone,
+    gitHeadSha,
+    gitExclude,
+    agentEvents,
+    type AgentAction,
+    type AgentDelta,
+    type AgentTranscript,
+    type AgentOptions,
+    type AgentResult,
+} from "./claude_code.js";
 import { findSkillsForContext } from "./skills.js";
 import {
     isDokployConfigured,
@@ -22,6 +36,51 @@ import {
     getApplicationLogs,
     getDokployUrl,
 } from "./dokploy.js";
+import { RunQueue, type AttachedFile, type QueuedRun, type QueuedRunKind } from "./run_queue.js";
+import { ActionLog, type ActionLogEntry, type ActionLogQuery } from "./action_log.js";
+import { TranscriptStore, replayTranscript, type ReplayMode, type ReplayReport, type TranscriptQuery, type TranscriptSummary } from "./transcripts.js";
+import { patchedPaths } from "./patch_tools.js";
+import { getDocsIndex } from "./docs_index.js";
+import { backgroundProcesses } from "./bg_processes.js";
+import { gitCommandEnv } from "./sandbox.js";
+import { getTemplate } from "./templates.js";
+import { scanWorkspace, severityAtLeast, SecurityBlockedError, SEVERITIES, type SecurityReport } from "./security_scan.js";
+import { toolsForProfile } from "./tool_permissions.js";
+import { resolveModelChain } from "./model_routing.js";
+import {
+    addModelUsage,
+    checkBudget,
+    costOf,
+    describeBudgetExceeded,
+    getGlobalBudget,
+    getPipelineBudgetDefaults,
+    SpendTotal,
+    type BudgetExceeded,
+    type BudgetLimits,
+    type BudgetSpend,
+    type ModelUsage,
+} from "./budget.js";
+import { getPreflightMode, preflightService, type PreflightResult } from "./preflight.js";
+import { findRegressions, runServiceTests, type QaReport, type ServiceTestResult } from "./test_runner.js";
+import {
+    applyMergePatch,
+    diffArtifacts,
+    parseArtifactOutput,
+    validateArtifact,
+    type ArtifactDiffEntry,
+    type ArtifactName,
+    type ArtifactVersion,
+} from "./artifacts.js";
+import {
+    BUILTIN_FLOWS,
+    FLOW_FOR_RUN_KIND,
+    checkCondition,
+    nextNodeId,
+    validateFlow,
+    type PhaseFlow,
+    type PhaseHandler,
+    type PhaseNode,
+} from "./phase_graph.js";
 
 // ─── Types ───
 
@@ -30,13 +89,15 @@ export type PipelinePhase =
     | "ANALYSIS"
     | "ARCHITECTURE"
     | "SCAFFOLD"
+    | "SECURITY"
     | "DEPLOYING"
     | "DEVELOPMENT"
     | "DEBUGGING"
     | "QA"
     | "COMPLETED"
     | "FAILED"
-    | "PAUSED";
+    | "PAUSED"
+    | "AWAITING_APPROVAL";
 export type ProjectType = "static" | "spa" | "fullstack" | "api" | "python-worker" | "node-worker" | "postgres" | "redis" | "unknown";
 export type ProjectService = {
     name: string;
@@ -46,6 +107,15 @@ export type ProjectService = {
 
 export type AgentStatus = "waiting" | "active" | "done" | "error";
 
+export type PipelineCheckpoint = {
+    completedPhases: string[];         // phase graph nodes fully done, skipped on resume
+    pendingBuild?: boolean;            // pushed to GitHub, Dokploy build not yet verified
+    builtApps: string[];               // apps whose build of the last push succeeded
+    buildSince?: string;               // last push: older deployments are stale
+    interruptedPhase?: PipelinePhase;  // phase the pipeline was in when the server stopped
+    updatedAt: string;
+};
+
 export type PipelineAgent = {
     role: string;
     emoji: string;
@@ -66,6 +136,46 @@ export type PipelineEvent = {
     type: "info" | "success" | "error" | "warning" | "deploy";
 };
 
+export type ApprovalGate = "analysis" | "architecture";
+export type ApprovalDecision = "approve" | "reject" | "edit-and-approve";
+
+export type ApprovalRecord = {
+    gate: ApprovalGate;
+    decision: ApprovalDecision;
+    comment?: string;
+    decidedAt: string;
+    superseded?: boolean;      // artifact re-planned since, the gate must be reviewed again
+};
+
+export type PipelineOptions = {
+    templateId?: string;
+    approvalGates?: ApprovalGate[];
+    budget?: BudgetLimits;
+};
+
+export type PauseReason = "manual" | "interrupted" | "budget";
+
+export type FeatureStatus = "pending" | "running" | "done" | "failed";
+
+export type FeatureRecord = {
+    index: number;             // position in architecture.features
+    feature: string;
+    status: FeatureStatus;
+    attempts: number;
+    pushed: boolean;
+    commitSha?: string;
+    inputTokens: number;
+    outputTokens: number;
+    actions?: {
+        total: number;
+        tools: Record<string, number>;  // tool name → call count
+        filesWritten: string[];
+    };
+    error?: string;
+    startedAt?: string;
+    completedAt?: string;
+};
+
 export type Pipeline = {
     id: string;
     name: string;
@@ -95,7 +205,33 @@ export type Pipeline = {
         }[];
     };
     artifacts: Record<string, unknown>;
-    tokenUsage: { inputTokens: number; outputTokens: number };
+    tokenUsage: {
+        inputTokens: number;
+        outputTokens: number;
+        byModel?: ModelUsage;
+        cost?: number;         // USD, priced when the tokens were used (see budget.ts)
+    };
+    budget?: BudgetLimits;     // overrides PIPELINE_MAX_TOKENS / PIPELINE_MAX_COST
+    pause?: {                  // why the pipeline is PAUSED
+        reason: PauseReason;
+        message?: string;
+        pausedAt: string;
+    };
+    queuePosition?: number;    // 1-based, set while waiting in the run queue
+    queuedRun?: {              // run waiting in the queue, re-enqueued as-is if the queue file is lost
+        kind: QueuedRunKind;
+        instructions?: string;
+        featureIndex?: number;
+    };
+    checkpoint?: PipelineCheckpoint;
+    templateId?: string;
+    approvalGates?: ApprovalGate[];  // phases that park the pipeline for human review
+    approval?: {                     // pending review, set while AWAITING_APPROVAL
+        gate: ApprovalGate;
+        requestedAt: string;
+    };
+    approvals?: ApprovalRecord[];
+    artifactVersions?: Partial<Record<ArtifactName, ArtifactVersion[]>>;
     createdAt: string;
     updatedAt: string;
     error?: string;
@@ -105,25 +241,50 @@ export type Pipeline = {
 
 const WORKSPACE_ROOT = process.env.WORKSPACE_ROOT || "/workspace";
 const STORE_PATH = process.env.PIPELINES_STORE || "/data/pipelines.json";
+const QUEUE_STORE_PATH = process.env.QUEUE_STORE || "/data/queue.json";
+const SPEND_STORE_PATH = process.env.SPEND_STORE || "/data/spend.json";
+// "auto": interrupted pipelines are re-queued on boot; "manual": they are parked in PAUSED
+const RESUME_ON_BOOT = (process.env.RESUME_ON_BOOT || "manual").toLowerCase();
+// Repair re-prompts allowed when the Analyst / Architect answer fails schema validation
+const ARTIFACT_REPAIR_RETRIES = Math.max(0, Number(process.env.ARTIFACT_REPAIR_RETRIES ?? 2) || 0);
+// Debugger passes allowed when QA tests fail before the run is marked FAILED
+const QA_DEBUG_RETRIES = Math.max(0, Number(process.env.QA_DEBUG_RETRIES ?? 2) || 0);
 
 // Read at call-time (not at module init) so env vars from .env container work
 const getGithubOwner = () => process.env.GITHUB_OWNER || "";
 const getGithubToken = () => process.env.GITHUB_TOKEN || "";
 
+/** Dokploy deployment created at or after `since`; deployments without a date are taken as current. */
+const isDeploymentSince = (deployment: { createdAt?: string }, since?: string) =>
+    !since || !deployment.createdAt || Date.parse(deployment.createdAt) >= Date.parse(since);
+
 const DEFAULT_AGENTS: Omit<PipelineAgent, "status">[] = [
     { role: "Analyst", emoji: "🔍" },
     { role: "Architect", emoji: "📐" },
     { role: "Developer", emoji: "💻" },
     { role: "Debugger", emoji: "🔧" },
     { role: "QA", emoji: "🧪" },
+    { role: "Security", emoji: "🛡️" },
 ];
 
+// Phases during which a pipeline is actively executing (lost on restart)
+const IN_FLIGHT_PHASES: PipelinePhase[] = ["ANALYSIS", "ARCHITECTURE", "SCAFFOLD", "SECURITY", "DEPLOYING", "DEVELOPMENT", "DEBUGGING", "QA"];
+
+// Event messages when a run is cancelled or fails, per kind of run
+const RUN_LABELS: Record<QueuedRunKind, { cancelled: string; error: string }> = {
+    pipeline: { cancelled: "Pipeline annulé.", error: "Erreur" },
+    development: { cancelled: "Pipeline annulé.", error: "Erreur" },
+    modification: { cancelled: "Modification annulée.", error: "Erreur modification" },
+    feature: { cancelled: "Re-run annulé.", error: "Erreur re-run" },
+};
+
 // ─── Phase weights for progress calculation ───
 const PHASE_PROGRESS: Record<PipelinePhase, number> = {
     QUEUED: 0,
     ANALYSIS: 10,
     ARCHITECTURE: 25,
     SCAFFOLD: 35,
+    SECURITY: 0,               // runs at several points of a flow, keeps the current progress
     DEPLOYING: 40,
     DEVELOPMENT: 70,
     DEBUGGING: 75,
@@ -131,6 +292,7 @@ const PHASE_PROGRESS: Record<PipelinePhase, number> = {
     COMPLETED: 100,
     FAILED: 0,
     PAUSED: 0,
+    AWAITING_APPROVAL: 0,
 };
 
 // ─── Orchestrator Class ───
@@ -139,21 +301,40 @@ export class Orchestrator extends EventEmitter {
     private pipelines: Map<string, Pipeline> = new Map();
     private running: Set<string> = new Set();
     private abortControllers: Map<string, AbortController> = new Map();
+    private queue = new RunQueue(QUEUE_STORE_PATH);
+    private globalSpent = new SpendTotal(SPEND_STORE_PATH);
+    private actionLog = new ActionLog();
+    private transcripts = new TranscriptStore();
+    private phaseHandlers: Map<string, PhaseHandler> = new Map();
+    private flows: Map<string, PhaseFlow> = new Map();
 
     constructor() {
         super();
         this.setMaxListeners(50);
-        this.loadState().catch(() => { /* first run, no state file */ });
+        this.registerBuiltinPhases();
+        this.loadState()
+            .then(() => this.globalSpent.load(this.storedPipelinesSpend()))
+            .then(() => this.restoreQueue())
+            .catch(() => { /* first run, no state file */ });
 
         // Forward agent events
         agentEvents.on("action", (action: AgentAction) => {
             this.emit("agent-action", action);
+            const pipelineId = action.context?.pipelineId;
+            if (!pipelineId || !this.pipelines.has(pipelineId)) return;
+            void this.actionLog.append(pipelineId, action);
+            if (action.type === "denied") this.reportDeniedAction(pipelineId, action);
+        });
+        // Live agent output, not persisted: only SSE listeners of the pipeline see it
+        agentEvents.on("delta", (delta: AgentDelta) => {
+            const pipelineId = delta.context?.pipelineId;
+            if (pipelineId && this.pipelines.has(pipelineId)) this.emit("agent-delta", { pipelineId, ...delta });
         });
     }
 
     // ─── Pipeline Management ───
 
-    async launchIdea(description: string, name?: string, files?: { base64: string; type: string }[]): Promise<Pipeline> {
+    async launchIdea(description: string, name?: string, files?: { base64: string; type: string }[], options: PipelineOptions = {}): Promise<Pipeline> {
         const id = crypto.randomUUID().slice(0, 8);
         const projectName = name || this.slugify(description);
         const workspace = path.join(WORKSPACE_ROOT, id);
@@ -180,15 +361,20 @@ export class Orchestrator extends EventEmitter {
             pipeline.artifacts.initialFiles = files;
         }
 
+        // Launch options win over the template defaults
+        const template = options.templateId ? getTemplate(options.templateId) : undefined;
+        if (options.templateId && !template) throw new Error("template_not_found");
+        if (template) pipeline.templateId = template.id;
+        const templateFlow = template?.pipeline?.flow;
+        if (typeof templateFlow === "string" && !this.flows.has(templateFlow)) throw new Error("flow_not_found");
+        const gates = options.approvalGates ?? template?.pipeline?.approvalGates ?? [];
+        if (gates.length > 0) pipeline.approvalGates = [...new Set(gates)];
+        const budget = options.budget ?? template?.pipeline?.budget;
+        if (budget) pipeline.budget = { ...budget };
+
         this.pipelines.set(id, pipeline);
         this.addEvent(id, "Orchestrator", "🚀", `Pipeline créé: "${description}"`, "info");
-        await this.saveState();
-
-        // Start async execution
-        this.executePipeline(id).catch(err => {
-            console.error(`[Orchestrator] Pipeline ${id} failed:`, err);
-            this.setPhase(id, "FAILED", String(err.message || err));
-        });
+        await this.enqueueRun({ pipelineId: id, kind: "pipeline" });
 
         return pipeline;
     }
@@ -201,12 +387,21 @@ export class Orchestrator extends EventEmitter {
         return this.pipelines.get(id);
     }
 
-    async pausePipeline(id: string): Promise<boolean> {
+    async pausePipeline(id: string, reason: PauseReason = "manual", message?: string): Promise<boolean> {
         const p = this.pipelines.get(id);
-        if (!p || p.phase === "COMPLETED" || p.phase === "FAILED") return false;
+        if (!p || p.phase === "COMPLETED" || p.phase === "FAILED" || p.phase === "PAUSED") return false;
+        if (p.phase === "QUEUED") {
+            // Not started yet: drop the queued run, resumePipeline enqueues a new one
+            await this.queue.remove(id);
+            delete p.queuedRun;
+            this.queue.cancelPhaseWait(id);
+            this.updateQueuePositions();
+        }
         p.phase = "PAUSED";
+        p.pause = { reason, ...(message ? { message } : {}), pausedAt: new Date().toISOString() };
         p.updatedAt = new Date().toISOString();
-        this.addEvent(id, "Orchestrator", "⏸️", "Pipeline mis en pause", "warning");
+        if (reason === "budget") this.addEvent(id, "Orchestrator", "💸", `${message} — pipeline mis en pause`, "warning");
+        else this.addEvent(id, "Orchestrator", "⏸️", "Pipeline mis en pause", "warning");
         await this.saveState();
         return true;
     }
@@ -214,24 +409,37 @@ export class Orchestrator extends EventEmitter {
     async resumePipeline(id: string): Promise<boolean> {
         const p = this.pipelines.get(id);
         if (!p || p.phase !== "PAUSED") return false;
+        const exceeded = this.budgetExceeded(id);
+        if (exceeded) {
+            this.addEvent(id, "Orchestrator", "💸", `${describeBudgetExceeded(exceeded)}: augmente le budget avant de reprendre`, "warning");
+            return false;
+        }
+        delete p.pause;
         this.addEvent(id, "Orchestrator", "▶️", "Pipeline repris", "info");
         // If project already has dokploy/github, it was a modification — don't re-run full pipeline
         const pendingMod = p.artifacts.pendingModification as string | undefined;
+        p.phase = "QUEUED";
         if (pendingMod) {
-            this.executeModification(id, pendingMod).catch(console.error);
+            await this.enqueueRun({ pipelineId: id, kind: "modification", instructions: pendingMod });
+        } else if (p.checkpoint) {
+            // Checkpointed pipelines continue from the last completed step
+            await this.enqueueRun({ pipelineId: id, kind: "pipeline" });
         } else if (p.dokploy) {
             // Already deployed — resume from development
-            this.executeFromDevelopment(id).catch(console.error);
+            await this.enqueueRun({ pipelineId: id, kind: "development" });
         } else {
-            this.executePipeline(id).catch(console.error);
+            await this.enqueueRun({ pipelineId: id, kind: "pipeline" });
         }
         return true;
     }
 
     async deletePipeline(id: string): Promise<boolean> {
-        this.killPipeline(id);
+        await this.killPipeline(id);
         this.running.delete(id);
         this.pipelines.delete(id);
+        await this.actionLog.delete(id);
+        await this.transcripts.delete(id);
+        await backgroundProcesses.stopScope(id);
         await this.saveState();
         return true;
     }
@@ -247,7 +455,13 @@ export class Orchestrator extends EventEmitter {
             this.abortControllers.delete(id);
         }
 
+        await this.queue.remove(id);
+        delete p.queuedRun;
+        this.queue.cancelPhaseWait(id);
+        this.queue.releasePhase(id);
         this.running.delete(id);
+        this.updateQueuePositions();
+        await backgroundProcesses.stopScope(id);
 
         if (p.phase !== "COMPLETED" && p.phase !== "FAILED") {
             this.setPhase(id, "FAILED", "Pipeline arrêté manuellement via le Kill Switch.");
@@ -259,7 +473,7 @@ export class Orchestrator extends EventEmitter {
 
     // ─── Modify Existing Pipeline ───
 
-    async modifyPipeline(id: string, instructions: string, files?: { base64: string; type: string }[]): Promise<Pipeline | null> {
+    async modifyPipeline(id: string, instructions: string, files?: AttachedFile[]): Promise<Pipeline | null> {
         const p = this.pipelines.get(id);
         if (!p) return null;
         if (this.running.has(id)) throw new Error("Pipeline is already running");
@@ -268,13 +482,10 @@ export class Orchestrator extends EventEmitter {
         }
 
         // Reset state for modification
-        p.phase = "DEVELOPMENT";
+        p.phase = "QUEUED";
         p.progress = 50;
         p.error = undefined;
         p.artifacts.pendingModification = instructions; // used by resumePipeline
-        if (files && files.length > 0) {
-            (p.artifacts as any).pendingModificationFiles = files;
-        }
 
         p.events.push({
             id: crypto.randomUUID(),
@@ -285,44 +496,24 @@ export class Orchestrator extends EventEmitter {
             action: `Modification demandée: ${instructions.slice(0, 100)}...${(files && files.length > 0) ? ` (avec ${files.length} fichiers)` : ''}`,
             type: "info",
         });
-        await this.saveState();
-
-        // Run modification in background
-        this.executeModification(id, instructions, files).catch(err => {
-            console.error(`[Orchestrator] Modify error for ${id}:`, err);
-        });
+        // Attachments travel with the queued run only, never in pipelines.json
+        await this.enqueueRun({ pipelineId: id, kind: "modification", instructions, ...(files?.length ? { files } : {}) });
 
         return p;
     }
 
-    private async executeModification(id: string, instructions: string, files?: { base64: string; type: string }[]) {
-        if (this.running.has(id)) return;
-        this.running.add(id);
-
-        const abortController = new AbortController();
-        this.abortControllers.set(id, abortController);
-
+    private async runModification(id: string, instructions: string, files?: AttachedFile[]) {
         const p = this.pipelines.get(id)!;
 
-        try {
-            this.setPhase(id, "DEVELOPMENT");
-            this.setAgentStatus(id, "Developer", "active", "Modification en cours...");
+        await this.enterPhase(id, "DEVELOPMENT");
+        this.setAgentStatus(id, "Developer", "active", "Modification en cours...");
 
-            // Clone the repo if workspace doesn't exist (container was rebuilt)
-            if (p.github) {
-                const workspaceExists = await fs.access(p.workspace).then(() => true).catch(() => false);
-                if (!workspaceExists) {
-                    this.addEvent(id, "Developer", "💻", "Re-clonage du workspace...", "info");
-                    await gitClone(
-                        `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`,
-                        p.workspace
-                    );
-                }
-            }
+        // Clone the repo if workspace doesn't exist (container was rebuilt)
+        await this.ensureWorkspace(id);
 
-            // Run developer agent with modification instructions
-            const result = await runClaudeAgent({
-                prompt: `Tu as un projet existant à modifier. Voici les instructions:
+        // Run developer agent with modification instructions
+        const result = await this.runAgent(id, "Developer", {
+            prompt: `Tu as un projet existant à modifier. Voici les instructions:
 
 ${instructions}
 
@@ -338,181 +529,291 @@ RÈGLES ABSOLUES:
 - Si tu détectes des imports cassés (ex: from src.xxx import), réécris le fichier entier avec le code corrigé
 - Vérifie que tous les packages importés sont dans requirements.txt
 - 0 fichier écrit = tâche invalide`,
-                attachedFiles: files,
-                systemPrompt: "Tu es un développeur senior. Tu DOIS écrire des fichiers avec Write. Lire sans écrire = tâche échouée. Si tu vois un bug tu dois le corriger en écrivant le fichier fixé.",
-                cwd: p.workspace,
-                allowedTools: ["Read", "Write", "Edit", "Bash", "ListDir"],
-                maxTurns: 20,
-                timeoutMs: 15 * 60 * 1000,
-                abortSignal: this.abortControllers.get(id)?.signal,
-            });
+            attachedFiles: files,
+            systemPrompt: "Tu es un développeur senior. Tu DOIS écrire des fichiers avec Write. Lire sans écrire = tâche échouée. Si tu vois un bug tu dois le corriger en écrivant le fichier fixé.",
+            cwd: p.workspace,
+            allowedTools: toolsForProfile("developer"),
+            maxTurns: 20,
+            timeoutMs: 15 * 60 * 1000,
+            abortSignal: this.abortControllers.get(id)?.signal,
+        });
 
-            if (!result.success) {
-                this.addEvent(id, "Developer", "💻", `Erreur modification: ${result.error}`, "warning");
-            }
-            this.addTokens(id, result);
+        if (!result.success) {
+            this.addEvent(id, "Developer", "💻", `Erreur modification: ${result.error}`, "warning");
+        }
+        this.addTokens(id, result);
 
-            // Push to GitHub
-            if (p.github) {
-                // Check if there's anything to commit
-                const { execSync } = await import("node:child_process");
-                let hasChanges = false;
-                try {
-                    const status = execSync("git status --porcelain", { cwd: p.workspace }).toString().trim();
-                    hasChanges = status.length > 0;
-                } catch { hasChanges = false; }
+        // Push to GitHub
+        if (p.github) {
+            // Check if there's anything to commit
+            const { execSync } = await import("node:child_process");
+            let hasChanges = false;
+            try {
+                const status = execSync("git status --porcelain", { cwd: p.workspace, env: gitCommandEnv() }).toString().trim();
+                hasChanges = status.length > 0;
+            } catch { hasChanges = false; }
 
-                if (!hasChanges) {
-                    this.addEvent(id, "Developer", "⚠️", "Aucun fichier modifié — l'agent n'a pas écrit de code. Reformule ta demande en étant plus précis sur les fichiers à modifier.", "warning");
+            if (!hasChanges) {
+                this.addEvent(id, "Developer", "⚠️", "Aucun fichier modifié — l'agent n'a pas écrit de code. Reformule ta demande en étant plus précis sur les fichiers à modifier.", "warning");
+            } else {
+                await this.runPreflight(id);
+                const pushed = await this.pushWorkspace(id, `mod: ${instructions.slice(0, 50)}`);
+                if (pushed) {
+                    this.addEvent(id, "Developer", "💻", "Push → modification appliquée", "success");
                 } else {
-                    const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
-                    const pushed = await gitPush(p.workspace, `mod: ${instructions.slice(0, 50)}`, authUrl);
-                    if (pushed) {
-                        this.addEvent(id, "Developer", "💻", "Push → modification appliquée", "success");
-                    } else {
-                        this.addEvent(id, "Developer", "⚠️", "Push échoué — relance la modification", "warning");
-                    }
+                    this.addEvent(id, "Developer", "⚠️", "Push échoué — relance la modification", "warning");
                 }
             }
+        }
 
+        // Wait for Dokploy build
+        if (p.dokploy) {
+            await this.waitForBuild(id);
+        }
+    }
 
-            // Wait for Dokploy build
-            if (p.dokploy) {
-                await this.waitForBuild(id);
-            }
+    private async runModificationQA(id: string, instructions: string) {
+        const p = this.pipelines.get(id)!;
 
-            // Run QA
-            this.setPhase(id, "QA");
-            this.setAgentStatus(id, "QA", "active", "Vérification post-modification...");
+        await this.enterPhase(id, "QA");
+        this.setAgentStatus(id, "QA", "active", "Vérification post-modification...");
 
-            const qaResult = await runClaudeAgent({
-                prompt: `Vérifie que le projet fonctionne correctement après les modifications:
+        const qaResult = await this.runAgent(id, "QA", {
+            prompt: `Vérifie que le projet fonctionne correctement après les modifications:
 "${instructions}"
 
 1. Vérifie que le build fonctionne
 2. Vérifie qu'il n'y a pas d'erreurs dans le code
 3. Vérifie que les modifications sont correctes`,
-                systemPrompt: "Tu es un QA engineer. Vérifie le code de manière rigoureuse.",
-                cwd: p.workspace,
-                allowedTools: ["Read", "Bash", "ListDir"],
-                maxTurns: 10,
-                abortSignal: abortController.signal,
-            });
-            this.addTokens(id, qaResult);
-            this.setAgentStatus(id, "QA", "done");
+            systemPrompt: "Tu es un QA engineer. Vérifie le code de manière rigoureuse.",
+            cwd: p.workspace,
+            allowedTools: toolsForProfile("qa-verify"),
+            maxTurns: 10,
+            abortSignal: this.abortControllers.get(id)?.signal,
+        });
+        this.addTokens(id, qaResult);
 
-            // Auto-fix loop if website is down
-            if (p.dokploy) {
-                await this.verifyAndAutoFix(id);
+        await this.runTests(id);
+        this.setAgentStatus(id, "QA", "done");
+
+        // Auto-fix loop if website is down
+        if (p.dokploy) {
+            await this.verifyAndAutoFix(id);
+        }
+    }
+
+    // ─── Pipeline Execution ───
+
+    /**
+     * Execute a dequeued run: walk the phase graph selected for its kind
+     * (and template), then apply the kind-specific completion.
+     */
+    private async executeRun(run: QueuedRun) {
+        const id = run.pipelineId;
+        if (this.running.has(id)) return;
+        this.running.add(id);
+
+        const abortController = new AbortController();
+        this.abortControllers.set(id, abortController);
+
+        const p = this.pipelines.get(id)!;
+        const labels = RUN_LABELS[run.kind];
+        delete p.queuedRun;
+
+        try {
+            const flow = this.resolveFlow(p, run.kind);
+
+            // Resuming: announce where we pick up and make sure the workspace is there
+            const done = p.checkpoint?.completedPhases ?? [];
+            if (run.kind === "pipeline" && done.length > 0) {
+                this.addEvent(id, "Orchestrator", "♻️", `Reprise depuis le checkpoint (étapes terminées: ${done.join(", ")})`, "info");
+                await this.ensureWorkspace(id);
             }
 
-            // Done
-            delete p.artifacts.pendingModification;
-            this.setPhase(id, "COMPLETED");
-            this.addEvent(id, "Orchestrator", "🎉", "Modification terminée et déployée!", "success");
+            if (await this.runFlow(id, flow, run) !== "completed") return;
+            this.completeRun(id, run);
 
         } catch (err: any) {
             if (err.name === 'AbortError') {
-                this.addEvent(id, "Orchestrator", "🛑", "Modification annulée.", "error");
+                this.addEvent(id, "Orchestrator", "🛑", labels.cancelled, "error");
+            } else if (p.phase === "PAUSED" && p.pause?.reason === "budget") {
+                // The phase gave up because its agents were stopped by the budget: stay resumable
+                console.log(`[Orchestrator] Pipeline ${id} paused on budget: ${err.message}`);
             } else {
                 this.setPhase(id, "FAILED", err.message);
-                this.addEvent(id, "Orchestrator", "❌", `Erreur modification: ${err.message}`, "error");
+                this.addEvent(id, "Orchestrator", "❌", `${labels.error}: ${err.message}`, "error");
             }
         } finally {
+            if (run.kind === "feature") delete p.artifacts.featureRerunFrom;
             this.abortControllers.delete(id);
             this.running.delete(id);
+            this.queue.releasePhase(id);
+            await backgroundProcesses.stopScope(id);
             await this.saveState();
         }
     }
 
-    // ─── Resume from Development (after pause on already-deployed project) ───
+    /**
+     * Walk `flow` from its first node. Checkpointed nodes already done are
+     * skipped, so a resumed run continues where it stopped.
+     */
+    private async runFlow(id: string, flow: PhaseFlow, run: QueuedRun): Promise<"completed" | "stopped" | "parked"> {
+        const p = this.pipelines.get(id)!;
+        let nodeId: string | undefined = flow.nodes[0]?.id;
 
-    private async executeFromDevelopment(id: string) {
-        if (this.running.has(id)) return;
-        this.running.add(id);
-        try {
-            await this.runDevelopment(id);
-            if (!this.shouldStop(id)) await this.runQA(id);
-            this.setPhase(id, "COMPLETED");
-            this.addEvent(id, "Orchestrator", "🎉", "Projet terminé et déployé!", "success");
-        } catch (err: any) {
-            this.setPhase(id, "FAILED", err.message);
-        } finally {
-            this.running.delete(id);
-            await this.saveState();
-        }
-    }
+        while (nodeId) {
+            const node = flow.nodes.find(n => n.id === nodeId);
+            if (!node) throw new Error(`Flow ${flow.id}: node ${nodeId} not found`);
+            const checkpointed = node.checkpoint !== false;
 
-    // ─── Pipeline Execution ───
+            if (node.when && !checkCondition(node.when, p)) {
+                nodeId = nextNodeId(flow, node, p);
+                continue;
+            }
 
-    private async executePipeline(id: string) {
-        if (this.running.has(id)) return;
-        this.running.add(id);
+            if (!checkpointed || !this.isPhaseDone(id, node.id)) {
+                const missing = (node.inputs ?? []).filter(name => p.artifacts[name] === undefined);
+                if (missing.length > 0) throw new Error(`Phase ${node.id}: artefact(s) requis manquant(s): ${missing.join(", ")}`);
 
-        const abortController = new AbortController();
-        this.abortControllers.set(id, abortController);
+                await this.runNode(id, flow, node, run);
+                if (this.shouldStop(id)) return "stopped";
 
-        const p = this.pipelines.get(id)!;
+                const notProduced = (node.outputs ?? []).filter(name => p.artifacts[name] === undefined);
+                if (notProduced.length > 0) throw new Error(`Phase ${node.id}: artefact(s) non produit(s): ${notProduced.join(", ")}`);
 
-        try {
-            // Phase 1: Analysis
-            await this.runAnalysis(id);
-            if (this.shouldStop(id)) return;
+                if (checkpointed) await this.markPhaseDone(id, node.id);
+            }
 
-            // Phase 2: Architecture
-            await this.runArchitecture(id);
-            if (this.shouldStop(id)) return;
+            if (node.gate && await this.parkForApproval(id, node.gate)) return "parked";
+            nodeId = nextNodeId(flow, node, p);
+        }
+        return "completed";
+    }
 
-            // Phase 3: Scaffold + Deploy
-            await this.runScaffold(id);
-            if (this.shouldStop(id)) return;
+    /** Run a node's handler, retrying per its policy. Cancellation is never retried. */
+    private async runNode(id: string, flow: PhaseFlow, node: PhaseNode, run: QueuedRun) {
+        const handler = this.phaseHandlers.get(node.handler);
+        if (!handler) throw new Error(`Flow ${flow.id}: unknown phase handler "${node.handler}"`);
 
-            // Phase 4: Development (iterative)
-            await this.runDevelopment(id);
-            if (this.shouldStop(id)) return;
+        const maxAttempts = node.retry?.maxAttempts ?? 1;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await handler({
+                    pipeline: this.pipelines.get(id)!,
+                    run,
+                    node,
+                    signal: this.abortControllers.get(id)?.signal,
+                });
+                return;
+            } catch (err: any) {
+                if (err.name === 'AbortError' || attempt >= maxAttempts || this.shouldStop(id)) throw err;
+                this.addEvent(id, "Orchestrator", "🔁", `${node.id} échoué (${err.message}) — nouvelle tentative ${attempt + 1}/${maxAttempts}`, "warning");
+                if (node.retry?.backoffMs) await this.sleep(node.retry.backoffMs);
+            }
+        }
+    }
 
-            // Phase 5: QA
-            await this.runQA(id);
+    private completeRun(id: string, run: QueuedRun) {
+        const p = this.pipelines.get(id)!;
+        switch (run.kind) {
+            case "modification":
+                delete p.artifacts.pendingModification;
+                this.setPhase(id, "COMPLETED");
+                this.addEvent(id, "Orchestrator", "🎉", "Modification terminée et déployée!", "success");
+                return;
+            case "feature": {
+                const index = run.featureIndex ?? 0;
+                const record = this.getFeatureLedger(id)[index];
+                const previousPhase = (p.artifacts.featureRerunFrom as PipelinePhase | undefined) ?? "COMPLETED";
+                const failure = record.status === "done" ? undefined : `Re-run feature ${index + 1}: ${record.error ?? record.status}`;
+                this.setAgentStatus(id, "Developer", "done", `Feature ${index + 1} ${record.status === "done" ? "ré-implémentée" : "en échec"}`);
+                // Back to FAILED: the re-run's own failure becomes the reason, otherwise the previous one stays
+                this.setPhase(id, previousPhase, previousPhase === "FAILED" ? failure : undefined);
+                this.addEvent(id, "Developer", record.status === "done" ? "✅" : "⚠️",
+                    failure ?? `Re-run feature ${index + 1}: ${record.status}`, record.status === "done" ? "success" : "warning");
+                return;
+            }
+            default: {
+                this.setPhase(id, "COMPLETED");
+                this.setAgentStatus(id, "QA", "done");
+                const completedMsg = p.dokploy
+                    ? `Projet terminé et déployé! → ${p.dokploy.url || "voir Dokploy"}`
+                    : p.github
+                        ? `Projet terminé! Repo GitHub: ${p.github.url} (Dokploy: vérifie DOKPLOY_URL dans les variables d'env)`
+                        : "Projet terminé! Configure GITHUB_TOKEN et DOKPLOY_URL pour le déploiement.";
+                this.addEvent(id, "Orchestrator", "🎉", completedMsg, "success");
+            }
+        }
+    }
 
+    // ─── Phase Graph ───
+
+    private registerBuiltinPhases() {
+        this.registerPhaseHandler("analysis", ({ pipeline }) => this.runAnalysis(pipeline.id));
+        this.registerPhaseHandler("architecture", ({ pipeline }) => this.runArchitecture(pipeline.id));
+        this.registerPhaseHandler("scaffold", ({ pipeline }) => this.runScaffold(pipeline.id));
+        this.registerPhaseHandler("security", ({ pipeline }) => this.runSecurity(pipeline.id));
+        this.registerPhaseHandler("deploy", ({ pipeline }) => this.runDeploy(pipeline.id));
+        this.registerPhaseHandler("development", ({ pipeline }) => this.runDevelopment(pipeline.id));
+        this.registerPhaseHandler("qa", async ({ pipeline }) => {
+            await this.runQA(pipeline.id);
             // Auto-fix loop if website is down
-            if (p.dokploy) {
-                await this.verifyAndAutoFix(id);
-            }
+            if (pipeline.dokploy) await this.verifyAndAutoFix(pipeline.id);
+        });
+        this.registerPhaseHandler("modification", async ({ pipeline, run }) => {
+            const files = run.files;
+            delete run.files;
+            await this.runModification(pipeline.id, run.instructions || "", files);
+        });
+        this.registerPhaseHandler("modification-qa", ({ pipeline, run }) => this.runModificationQA(pipeline.id, run.instructions || ""));
+        this.registerPhaseHandler("feature", async ({ pipeline, run }) => {
+            await this.ensureWorkspace(pipeline.id);
+            await this.enterPhase(pipeline.id, "DEVELOPMENT");
+            await this.developFeature(pipeline.id, run.featureIndex ?? 0);
+        });
 
-            // Done!
-            this.setPhase(id, "COMPLETED");
-            this.setAgentStatus(id, "QA", "done");
-            const p_done = this.pipelines.get(id);
-            const completedMsg = p_done?.dokploy
-                ? `Projet terminé et déployé! → ${p_done.dokploy.url || "voir Dokploy"}`
-                : p_done?.github
-                    ? `Projet terminé! Repo GitHub: ${p_done.github.url} (Dokploy: vérifie DOKPLOY_URL dans les variables d'env)`
-                    : "Projet terminé! Configure GITHUB_TOKEN et DOKPLOY_URL pour le déploiement.";
-            this.addEvent(id, "Orchestrator", "🎉", completedMsg, "success");
+        for (const flow of BUILTIN_FLOWS) this.registerFlow(flow);
+    }
 
-        } catch (err: any) {
-            if (err.name === 'AbortError') {
-                this.addEvent(id, "Orchestrator", "🛑", "Pipeline annulé.", "error");
-            } else {
-                this.setPhase(id, "FAILED", err.message);
-                this.addEvent(id, "Orchestrator", "❌", `Erreur: ${err.message}`, "error");
-            }
-        } finally {
-            this.abortControllers.delete(id);
-            this.running.delete(id);
-            await this.saveState();
+    /** Register (or replace) the handler a phase node refers to by name. */
+    registerPhaseHandler(name: string, handler: PhaseHandler) {
+        this.phaseHandlers.set(name, handler);
+    }
+
+    /** Register a flow that templates can select by id. Throws if the graph is invalid. */
+    registerFlow(flow: PhaseFlow) {
+        const errors = validateFlow(flow, this.phaseHandlers.keys());
+        if (errors.length > 0) throw new Error(`Invalid flow "${flow.id}": ${errors.join("; ")}`);
+        this.flows.set(flow.id, flow);
+    }
+
+    listFlows(): PhaseFlow[] {
+        return Array.from(this.flows.values());
+    }
+
+    /** Flow for a run: the template's own flow for full pipelines, the built-in one otherwise. */
+    private resolveFlow(p: Pipeline, kind: QueuedRunKind): PhaseFlow {
+        const custom = kind === "pipeline" && p.templateId ? getTemplate(p.templateId)?.pipeline?.flow : undefined;
+        if (custom && typeof custom !== "string") {
+            const errors = validateFlow(custom, this.phaseHandlers.keys());
+            if (errors.length > 0) throw new Error(`Invalid flow "${custom.id}": ${errors.join("; ")}`);
+            return custom;
         }
+        const flowId = custom ?? FLOW_FOR_RUN_KIND[kind];
+        const flow = this.flows.get(flowId);
+        if (!flow) throw new Error(`flow_not_found: ${flowId}`);
+        return flow;
     }
 
     // ─── Phase Runners ───
 
     private async runAnalysis(id: string) {
-        this.setPhase(id, "ANALYSIS");
+        await this.enterPhase(id, "ANALYSIS");
         this.setAgentStatus(id, "Analyst", "active", "Analyse du projet...");
 
         const p = this.pipelines.get(id)!;
 
-        const result = await runClaudeAgent({
+        const { result, value, errors, attempts } = await this.runArtifactAgent(id, "analysis", { role: "Analyst", emoji: "🔍" }, {
             prompt: `Analyse cette idée de projet et crée un document PRD (Product Requirements Document) concis.
 
 Idée: "${p.description}"
@@ -554,33 +855,40 @@ Règles pour le champ "type" de chaque service:
 SI le projet est simple, tu PEUX ne lister qu'un seul service dans le tableau.`,
             systemPrompt: "Tu es un analyste produit senior. Sois concis et pragmatique. IMPORTANT: si le projet est un bot/scraper/daemon Python avec un dashboard web, choisis 'python-worker' (pas 'fullstack') — le dashboard Flask est automatiquement intégré par notre infra.",
             cwd: p.workspace,
+            allowedTools: toolsForProfile("analyst"),
             maxTurns: 3,
             attachedFiles: (p.artifacts.initialFiles as any),
             abortSignal: this.abortControllers.get(id)?.signal,
         });
 
-        if (result.success && result.finalResult) {
-            const analysis = this.tryParseJson(result.finalResult);
-            p.artifacts.analysis = analysis;
-            // Parse services array from JSON
-            p.services = Array.isArray(analysis?.services)
-                ? analysis.services
-                : [{ name: "main", type: this.detectProjectType(analysis) }];
+        if (result.success && errors.length === 0) {
+            this.applyAnalysis(id, value);
+            this.recordArtifactVersion(id, "analysis", "agent", "analyst");
 
             const typesStr = p.services.map(s => s.type).join(', ');
             this.setAgentStatus(id, "Analyst", "done", "PRD créé");
             this.addEvent(id, "Analyst", "🔍", `✓ PRD créé — services: ${typesStr}`, "success");
+        } else if (result.success) {
+            // Keep the invalid draft so it can be fixed by hand (PATCH) and re-planned
+            if (value !== undefined) {
+                p.artifacts.analysis = value;
+                this.recordArtifactVersion(id, "analysis", "agent", "analyst");
+            }
+            const reason = `PRD invalide après ${attempts} tentative(s): ${errors.join("; ")}`;
+            this.setAgentStatus(id, "Analyst", "error", "PRD invalide");
+            this.addEvent(id, "Analyst", "🔍", `✗ ${reason}`, "error");
+            await this.saveState();
+            throw new Error(reason);
         } else {
             this.setAgentStatus(id, "Analyst", "error", result.error || "Échec");
             this.addEvent(id, "Analyst", "🔍", `✗ Analyse échouée: ${result.error}`, "error");
             throw new Error(`Analysis failed: ${result.error}`);
         }
-        this.addTokens(id, result);
         await this.saveState();
     }
 
     private async runArchitecture(id: string) {
-        this.setPhase(id, "ARCHITECTURE");
+        await this.enterPhase(id, "ARCHITECTURE");
         this.setAgentStatus(id, "Architect", "active", "Conception de l'architecture...");
 
         const p = this.pipelines.get(id)!;
@@ -595,8 +903,13 @@ SI le projet est simple, tu PEUX ne lister qu'un seul service dans le tableau.`,
         ].filter(Boolean).map(String);
 
         const skills = await findSkillsForContext(keywords, 5);
+        // Keep the full skill contents searchable by later agents (docs_search)
+        for (const s of skills.filter(s => s.content)) {
+            await getDocsIndex().ingest({ source: "skill", title: s.title, url: s.href, content: s.content!, tags: [s.owner, s.repo] })
+                .catch(err => console.warn(`[Docs] Skill ingest failed for ${s.href}: ${err.message}`));
+        }
         const skillsContext = skills.length > 0
-            ? `\n\nSkills disponibles sur skills.sh:\n${skills.map(s => `- ${s.title}: ${s.content?.substring(0, 200)}...`).join("\n")}`
+            ? `\n\nSkills disponibles sur skills.sh (contenu complet via docs_search):\n${skills.map(s => `- ${s.title}: ${s.content?.substring(0, 200)}...`).join("\n")}`
             : "";
 
         this.addEvent(id, "Architect", "📐", `Skills assignés: ${skills.map(s => s.title).join(", ") || "aucun"}`, "info");
@@ -612,7 +925,7 @@ SI le projet est simple, tu PEUX ne lister qu'un seul service dans le tableau.`,
             ? "\n\nRECOMMANDATION MULTIMODAL/PDF:\n- L'utilisateur a demandé des capacités PDF/Multimodales. Prévois l'intégration d'un SDK d'IA (ex: @anthropic-ai/sdk ou openai) ainsi que des librairies de parsing de base comme pdf-parse pour le backend, ou react-pdf/pdfjs-dist coté frontend."
             : "";
 
-        const result = await runClaudeAgent({
+        const { result, value, errors, attempts } = await this.runArtifactAgent(id, "architecture", { role: "Architect", emoji: "📐" }, {
             prompt: `Conçois l'architecture technique multi-services pour ce projet.
 
 PRD: ${JSON.stringify(analysis, null, 2)}
@@ -641,27 +954,39 @@ Réponds en JSON:
 }`,
             systemPrompt: "Tu es un architecte logiciel senior. Conçois des architectures micro-services intelligentes (frontend, api, workers) basées sur la demande.",
             cwd: p.workspace,
+            allowedTools: toolsForProfile("architect"),
             maxTurns: 3,
             appendPrompt: skillsContext,
             abortSignal: this.abortControllers.get(id)?.signal,
         });
 
-        if (result.success && result.finalResult) {
-            p.artifacts.architecture = this.tryParseJson(result.finalResult);
+        if (result.success && errors.length === 0) {
+            p.artifacts.architecture = value;
+            this.recordArtifactVersion(id, "architecture", "agent", "architect");
             p.artifacts.skills = skills.map(s => ({ title: s.title, href: s.href }));
             this.setAgentStatus(id, "Architect", "done", "Architecture définie");
             this.addEvent(id, "Architect", "📐", "✓ Architecture technique définie", "success");
+        } else if (result.success) {
+            // Keep the invalid draft so it can be fixed by hand (PATCH) and re-planned
+            if (value !== undefined) {
+                p.artifacts.architecture = value;
+                this.recordArtifactVersion(id, "architecture", "agent", "architect");
+            }
+            const reason = `Architecture invalide après ${attempts} tentative(s): ${errors.join("; ")}`;
+            this.setAgentStatus(id, "Architect", "error", "Architecture invalide");
+            this.addEvent(id, "Architect", "📐", `✗ ${reason}`, "error");
+            await this.saveState();
+            throw new Error(reason);
         } else {
             this.setAgentStatus(id, "Architect", "error", result.error || "Échec");
             this.addEvent(id, "Architect", "📐", `✗ Architecture échouée: ${result.error} `, "error");
             throw new Error(`Architecture failed: ${result.error} `);
         }
-        this.addTokens(id, result);
         await this.saveState();
     }
 
     private async runScaffold(id: string) {
-        this.setPhase(id, "SCAFFOLD");
+        await this.enterPhase(id, "SCAFFOLD");
         this.setAgentStatus(id, "Developer", "active", "Création du scaffold...");
 
         const p = this.pipelines.get(id)!;
@@ -718,11 +1043,11 @@ Réponds en JSON:
                     // Configure git
                     const { spawn } = await import("node:child_process");
                     await new Promise<void>((resolve) => {
-                        const proc = spawn("git", ["config", "user.email", "vibecraft@ai.dev"], { cwd: p.workspace });
+                        const proc = spawn("git", ["config", "user.email", "vibecraft@ai.dev"], { cwd: p.workspace, env: gitCommandEnv() });
                         proc.on("close", () => resolve());
                     });
                     await new Promise<void>((resolve) => {
-                        const proc = spawn("git", ["config", "user.name", "VibeCraft AI"], { cwd: p.workspace });
+                        const proc = spawn("git", ["config", "user.name", "VibeCraft AI"], { cwd: p.workspace, env: gitCommandEnv() });
                         proc.on("close", () => resolve());
                     });
                 }
@@ -732,13 +1057,14 @@ Réponds en JSON:
         }
 
         // Use Claude Code to scaffold the project
-        const architecture = p.artifacts.architecture as any;
+        // Flows without an Architect (e.g. static-site) scaffold straight from the PRD
+        const architecture = (p.artifacts.architecture ?? p.artifacts.analysis) as any;
 
         const servicesGuidance = p.services.map(s => {
             return `Service: ${s.name} (Type: ${s.type})\n${this.getScaffoldGuidance(s.type)}\n\n[Dockerfile Recommandé]\n\`\`\`dockerfile\n${this.getDockerfileTemplate(s.type, architecture?.servicesStack?.[s.name]?.stack || architecture?.stack)}\n\`\`\``;
         }).join("\n\n---\n\n");
 
-        const result = await runClaudeAgent({
+        const result = await this.runAgent(id, "Developer", {
             prompt: `Crée le scaffold initial de ce projet multi-services dans le répertoire courant.
 
 Types de services à créer: ${p.services.map(s => s.type).join(', ')}
@@ -755,7 +1081,7 @@ RÈGLES CRITIQUES POUR LES DOCKERFILE:
 - Pour les api/worker/fullstack: expose le port 3000 ou 8080 en fonction du code`,
             systemPrompt: "Tu es un développeur senior. Crée un scaffold propre avec une arborescence claire (un dossier par service).",
             cwd: p.workspace,
-            allowedTools: ["Write", "Edit", "Bash", "ListDir"],
+            allowedTools: toolsForProfile("scaffold"),
             maxTurns: 15,
             abortSignal: this.abortControllers.get(id)?.signal,
         });
@@ -765,10 +1091,11 @@ RÈGLES CRITIQUES POUR LES DOCKERFILE:
         }
         this.addTokens(id, result);
 
+        await this.runPreflight(id);
+
         // Push to GitHub
         if (p.github) {
-            const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
-            const pushed = await gitPush(p.workspace, "feat: initial scaffold by VibeCraft AI", authUrl);
+            const pushed = await this.pushWorkspace(id, "feat: initial scaffold by VibeCraft AI");
             if (pushed) {
                 this.addEvent(id, "Developer", "💻", "Push GitHub → scaffold initial", "success");
             } else {
@@ -776,108 +1103,196 @@ RÈGLES CRITIQUES POUR LES DOCKERFILE:
             }
         }
 
-        // Deploy to Dokploy — only if not already deployed
-        if (isDokployConfigured() && p.github && !p.dokploy) {
-            this.setPhase(id, "DEPLOYING");
-            try {
-                const dokProject = await createDokployProject(repoName, p.description);
+        const scaffoldMsg = p.github
+            ? "✓ Scaffold créé et pushé sur GitHub"
+            : "✓ Scaffold créé (GitHub non configuré)";
+        this.addEvent(id, "Developer", "💻", scaffoldMsg, p.github ? "success" : "warning");
+        await this.saveState();
+    }
 
-                p.dokploy = {
-                    projectId: dokProject.projectId,
-                    apps: []
-                };
+    /**
+     * Scan the workspace for secrets and vulnerable dependencies. The report is
+     * stored in artifacts.security; findings at or above SECURITY_BLOCK_SEVERITY
+     * fail the run so the following deploy never happens.
+     */
+    private async runSecurity(id: string) {
+        await this.enterPhase(id, "SECURITY");
+        this.setAgentStatus(id, "Security", "active", "Scan des secrets et des dépendances...");
 
-                for (const service of p.services) {
-                    if (service.type === "postgres" || service.type === "redis") {
-                        this.addEvent(id, "Dokploy", "⚠️", `Création de BDD ${service.type} automatique non supportée actuellement (à faire manuellement)`, "warning");
-                        continue;
-                    }
+        const report = await this.checkSecurity(id, "Déploiement");
 
-                    const appName = `${repoName}-${service.name}`.substring(0, 30);
-                    const app = await createDokployApplication({
-                        name: appName,
-                        projectId: dokProject.projectId,
-                        environmentId: dokProject.environmentId || "",
-                        owner: p.github.owner,
-                        repo: p.github.repo,
-                        branch: "main",
-                        buildType: "dockerfile",
-                        buildPath: `/${service.name}/Dockerfile`,
-                        env: `DOKPLOY_SUB_PATH=/${service.name}`
-                    });
+        if (!report.advisoryDb.loaded) {
+            this.addEvent(id, "Security", "🛡️", `Base d'advisories introuvable (${report.advisoryDb.path}) — dépendances non vérifiées`, "warning");
+        }
 
-                    // Port logic
-                    const containerPort = (service.type === "static" || service.type === "spa") ? 80
-                        : service.type === "python-worker" ? 8080
-                            : 3000;
-
-                    let domainUrl;
-                    let domainId;
-
-                    // only web apps get a domain
-                    if (service.type !== "python-worker" && service.type !== "node-worker") {
-                        const domain = await createDomain(app.applicationId, appName, containerPort);
-                        if (domain) {
-                            domainUrl = `https://${domain.host}`;
-                            domainId = domain.domainId;
-                            this.addEvent(id, "Dokploy", "🌐", `${service.name}: Domain créé → ${domainUrl}`, "success");
-                        }
-                    } else {
-                        // Workers get internal domain or just internal mapping, no public domain created by default, or maybe an internal domain.
-                        this.addEvent(id, "Dokploy", "⚙️", `${service.name} (worker): Pas de domaine public configuré`, "info");
-                    }
+        const summary = [...SEVERITIES].reverse()
+            .filter(s => report.counts[s] > 0)
+            .map(s => `${report.counts[s]} ${s}`)
+            .join(", ") || "aucun problème";
 
-                    p.dokploy.apps!.push({
-                        name: service.name,
-                        type: service.type,
-                        applicationId: app.applicationId,
-                        domainId: domainId,
-                        url: domainUrl
-                    });
+        this.setAgentStatus(id, "Security", "done", summary);
+        this.addEvent(id, "Security", "🛡️", `✓ Revue de sécurité: ${summary} (${report.filesScanned} fichiers)`, report.findings.length > 0 ? "warning" : "success");
+        await this.saveState();
+    }
+
+    /**
+     * Scan what the next push would publish and store the report in
+     * artifacts.security. Throws when a finding reaches the threshold, so
+     * callers never publish a blocked workspace.
+     */
+    private async checkSecurity(id: string, action: string): Promise<SecurityReport> {
+        const p = this.pipelines.get(id)!;
+        const report = await scanWorkspace(p.workspace, {
+            dokployUrl: getDokployUrl() || undefined,
+            knownSecrets: [getGithubToken(), process.env.DOKPLOY_TOKEN || "", process.env.ANTHROPIC_API_KEY || ""],
+        });
+        p.artifacts.security = report;
+
+        if (report.blocked) {
+            const blocking = report.findings.filter(f => severityAtLeast(f.severity, report.threshold));
+            const listed = blocking.slice(0, 5).map(f => `${f.rule} (${f.file}${f.line ? `:${f.line}` : ""})`).join("; ");
+            const reason = `${action} bloqué par la revue de sécurité (seuil ${report.threshold}): ${listed}${blocking.length > 5 ? ` +${blocking.length - 5}` : ""}`;
+            this.setAgentStatus(id, "Security", "error", `${blocking.length} problème(s) bloquant(s)`);
+            this.addEvent(id, "Security", "🛡️", `✗ ${reason}`, "error");
+            await this.saveState();
+            throw new SecurityBlockedError(reason, report);
+        }
+        return report;
+    }
+
+    /** Create the Dokploy project and one application per service (skipped if already deployed). */
+    private async runDeploy(id: string) {
+        const p = this.pipelines.get(id)!;
+        if (!isDokployConfigured() || !p.github || p.dokploy) {
+            this.addEvent(id, "Dokploy", "🚀", "Déploiement ignoré (Dokploy non configuré ou déjà déployé)", "info");
+            return;
+        }
+        const repoName = `vibecraft-${this.slugify(p.name)}`;
+
+        await this.enterPhase(id, "DEPLOYING");
+        try {
+            const dokProject = await createDokployProject(repoName, p.description);
+
+            p.dokploy = {
+                projectId: dokProject.projectId,
+                apps: []
+            };
+
+            for (const service of p.services) {
+                if (service.type === "postgres" || service.type === "redis") {
+                    this.addEvent(id, "Dokploy", "⚠️", `Création de BDD ${service.type} automatique non supportée actuellement (à faire manuellement)`, "warning");
+                    continue;
                 }
 
-                // Set the main URL to the first app that has one
-                const mainApp = p.dokploy.apps!.find(a => a.url);
-                if (mainApp) p.dokploy.url = mainApp.url;
+                const appName = `${repoName}-${service.name}`.substring(0, 30);
+                const app = await createDokployApplication({
+                    name: appName,
+                    projectId: dokProject.projectId,
+                    environmentId: dokProject.environmentId || "",
+                    owner: p.github.owner,
+                    repo: p.github.repo,
+                    branch: "main",
+                    buildType: "dockerfile",
+                    buildPath: `/${service.name}/Dockerfile`,
+                    env: `DOKPLOY_SUB_PATH=/${service.name}`
+                });
 
-                this.addEvent(id, "Dokploy", "🚀", `Déployé dans Dokploy → ${p.dokploy.apps!.length} service(s)`, "deploy");
-            } catch (err: any) {
-                this.addEvent(id, "Dokploy", "🚀", `Erreur Dokploy: ${err.message}`, "error");
+                // Port logic
+                const containerPort = (service.type === "static" || service.type === "spa") ? 80
+                    : service.type === "python-worker" ? 8080
+                        : 3000;
+
+                let domainUrl;
+                let domainId;
+
+                // only web apps get a domain
+                if (service.type !== "python-worker" && service.type !== "node-worker") {
+                    const domain = await createDomain(app.applicationId, appName, containerPort);
+                    if (domain) {
+                        domainUrl = `https://${domain.host}`;
+                        domainId = domain.domainId;
+                        this.addEvent(id, "Dokploy", "🌐", `${service.name}: Domain créé → ${domainUrl}`, "success");
+                    }
+                } else {
+                    // Workers get internal domain or just internal mapping, no public domain created by default, or maybe an internal domain.
+                    this.addEvent(id, "Dokploy", "⚙️", `${service.name} (worker): Pas de domaine public configuré`, "info");
+                }
+
+                p.dokploy.apps!.push({
+                    name: service.name,
+                    type: service.type,
+                    applicationId: app.applicationId,
+                    domainId: domainId,
+                    url: domainUrl
+                });
             }
+
+            // Set the main URL to the first app that has one
+            const mainApp = p.dokploy.apps!.find(a => a.url);
+            if (mainApp) p.dokploy.url = mainApp.url;
+
+            this.addEvent(id, "Dokploy", "🚀", `Déployé dans Dokploy → ${p.dokploy.apps!.length} service(s)`, "deploy");
+        } catch (err: any) {
+            this.addEvent(id, "Dokploy", "🚀", `Erreur Dokploy: ${err.message}`, "error");
         }
 
-        const scaffoldMsg = p.dokploy
-            ? "✓ Scaffold créé et déployé sur Dokploy"
-            : p.github
-                ? "✓ Scaffold créé et pushé sur GitHub (Dokploy non configuré)"
-                : "✓ Scaffold créé (GitHub/Dokploy non configurés)";
-        this.addEvent(id, "Developer", "💻", scaffoldMsg, p.dokploy ? "success" : "warning");
         await this.saveState();
     }
 
     private async runDevelopment(id: string) {
-        this.setPhase(id, "DEVELOPMENT");
+        await this.enterPhase(id, "DEVELOPMENT");
         this.setAgentStatus(id, "Developer", "active", "Développement des features...");
 
         const p = this.pipelines.get(id)!;
-        const architecture = p.artifacts.architecture as any;
-        const features = architecture?.features || [];
-        const projectTypes = p.services.map(s => s.type).join(', ');
+        const ledger = this.getFeatureLedger(id);
+        const checkpoint = this.getCheckpoint(id);
 
-        for (let i = 0; i < features.length; i++) {
+        // A feature was pushed before the restart but its build was never checked
+        if (checkpoint.pendingBuild && p.dokploy?.apps?.length) {
+            this.addEvent(id, "Dokploy", "🚀", "Vérification du build interrompu...", "info");
+            await this.waitForBuild(id);
+        }
+
+        for (const record of ledger) {
             if (this.shouldStop(id)) return;
+            // Features already attempted are skipped on resume; use rerunFeature to redo one
+            if (record.status === "done" || record.status === "failed") continue;
+
+            p.progress = 40 + Math.round((record.index / ledger.length) * 30);
+            await this.developFeature(id, record.index);
+        }
 
-            const feature = features[i];
-            this.setAgentStatus(id, "Developer", "active", `Feature ${i + 1}/${features.length}: ${feature}`);
-            this.addEvent(id, "Developer", "💻", `Feature ${i + 1}/${features.length}: ${feature}`, "info");
+        const doneCount = ledger.filter(f => f.status === "done").length;
+        this.setAgentStatus(id, "Developer", "done", `${doneCount}/${ledger.length} features implémentées`);
+        await this.saveState();
+    }
 
-            const devProgress = 40 + Math.round((i / features.length) * 30);
-            p.progress = devProgress;
+    /**
+     * Implement one feature from architecture.features, push it and wait for
+     * the build. The outcome is recorded in the feature ledger.
+     */
+    private async developFeature(id: string, index: number) {
+        const p = this.pipelines.get(id)!;
+        const architecture = (p.artifacts.architecture ?? p.artifacts.analysis) as any;
+        const ledger = this.getFeatureLedger(id);
+        const record = ledger[index];
+        const feature = record.feature;
+        const projectTypes = p.services.map(s => s.type).join(', ');
+        const checkpoint = this.getCheckpoint(id);
 
-            const devSystemPrompt = "Tu es un développeur senior fullstack. Écris du code propre et fonctionnel pour implémenter la feature demandée. Gère proprement le code pour les différents services.";
+        record.status = "running";
+        record.attempts += 1;
+        record.startedAt = new Date().toISOString();
+        record.completedAt = undefined;
+        record.error = undefined;
 
-            const result = await runClaudeAgent({
-                prompt: `Implémente cette feature dans le projet existant (services: ${projectTypes}):
+        this.setAgentStatus(id, "Developer", "active", `Feature ${index + 1}/${ledger.length}: ${feature}`);
+        this.addEvent(id, "Developer", "💻", `Feature ${index + 1}/${ledger.length}: ${feature}`, "info");
+
+        const devSystemPrompt = "Tu es un développeur senior fullstack. Écris du code propre et fonctionnel pour implémenter la feature demandée. Gère proprement le code pour les différents services.";
+
+        const result = await this.runAgent(id, "Developer", {
+            prompt: `Implémente cette feature dans le projet existant (services: ${projectTypes}):
 
 Feature: "${feature}"
 
@@ -889,39 +1304,98 @@ Instructions:
 3. Assure-toi que le code compile/fonctionne sans erreur
 4. Ne casse pas les features existantes
 5. NE modifie pas le Dockerfile sauf si absolument nécessaire`,
-                systemPrompt: devSystemPrompt,
-                cwd: p.workspace,
-                allowedTools: ["Read", "Write", "Edit", "Bash", "ListDir"],
-                maxTurns: 12,
-                abortSignal: this.abortControllers.get(id)?.signal,
-            });
+            systemPrompt: devSystemPrompt,
+            cwd: p.workspace,
+            allowedTools: toolsForProfile("developer"),
+            maxTurns: 12,
+            abortSignal: this.abortControllers.get(id)?.signal,
+            runContext: { featureIndex: index },
+        });
 
-            if (!result.success) {
-                this.addEvent(id, "Developer", "💻", `Erreur feature "${feature}": ${result.error}`, "warning");
-            }
-            this.addTokens(id, result);
+        if (!result.success && !result.budgetExhausted) {
+            this.addEvent(id, "Developer", "💻", `Erreur feature "${feature}": ${result.error}`, "warning");
+        }
+        this.addTokens(id, result);
 
-            // Push after each feature
-            if (p.github) {
-                const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
-                // Uses dynamically imported gitPush if needed, but it's available via previous imports
-                const { gitPush } = await import("./claude_code.js");
-                const pushed = await gitPush(p.workspace, `feat: ${feature}`, authUrl);
-                if (pushed) {
-                    this.addEvent(id, "Developer", "💻", `Push → feat: ${feature}`, "success");
-                } else {
-                    this.addEvent(id, "Developer", "💻", `❌ Push échoué: feat: ${feature}`, "error");
-                }
-            }
+        record.inputTokens += result.inputTokens;
+        record.outputTokens += result.outputTokens;
+        // Appended: the actions of earlier attempts stay in the ledger
+        record.actions = this.summarizeActions(result.actions, record.actions);
 
-            // Wait for deploy and check build for all apps
-            if (p.dokploy && p.dokploy.apps && p.dokploy.apps.length > 0) {
-                await this.waitForBuild(id);
+        // Stopped by the budget (the pipeline is now PAUSED): nothing to push,
+        // the feature stays pending and is picked up again on resume
+        if (result.budgetExhausted) {
+            record.status = "pending";
+            checkpoint.updatedAt = new Date().toISOString();
+            await this.saveState();
+            return;
+        }
+
+        await this.runPreflight(id);
+
+        // Push after each feature
+        let pushFailed = false;
+        if (p.github) {
+            const pushed = await this.pushWorkspace(id, `feat: ${feature}`);
+            if (pushed) {
+                this.addEvent(id, "Developer", "💻", `Push → feat: ${feature}`, "success");
+                record.pushed = true;
+                record.commitSha = await gitHeadSha(p.workspace);
+            } else {
+                pushFailed = true;
+                this.addEvent(id, "Developer", "💻", `❌ Push échoué: feat: ${feature}`, "error");
             }
         }
 
-        this.setAgentStatus(id, "Developer", "done", `${features.length} features implémentées`);
+        record.status = result.success && !pushFailed ? "done" : "failed";
+        record.error = !result.success ? result.error : pushFailed ? "push_failed" : undefined;
+        record.completedAt = new Date().toISOString();
+        checkpoint.updatedAt = record.completedAt;
         await this.saveState();
+
+        // Wait for deploy and check build for all apps
+        if (p.dokploy && p.dokploy.apps && p.dokploy.apps.length > 0) {
+            await this.waitForBuild(id);
+        }
+    }
+
+    /**
+     * Queue a single feature for re-implementation on a pipeline that is not running.
+     */
+    async rerunFeature(id: string, index: number): Promise<FeatureRecord> {
+        const p = this.pipelines.get(id);
+        if (!p) throw new Error("pipeline_not_found");
+        if (this.running.has(id) || this.queue.has(id)) throw new Error("pipeline_busy");
+        if (!["COMPLETED", "FAILED", "PAUSED"].includes(p.phase)) {
+            throw new Error("Pipeline must be COMPLETED, FAILED or PAUSED to rerun a feature");
+        }
+
+        const ledger = this.getFeatureLedger(id);
+        const record = ledger[index];
+        if (!record) throw new Error("feature_not_found");
+
+        record.status = "pending";
+        p.artifacts.featureRerunFrom = p.phase;
+        p.phase = "QUEUED";
+        this.addEvent(id, "Orchestrator", "🔁", `Re-run de la feature ${index + 1}: ${record.feature}`, "info");
+        await this.enqueueRun({ pipelineId: id, kind: "feature", featureIndex: index });
+        return record;
+    }
+
+    /**
+     * Commit and push the workspace to GitHub, once the security scan passes
+     * (throws otherwise). A successful push makes the builds pending.
+     */
+    private async pushWorkspace(id: string, message: string): Promise<boolean> {
+        const p = this.pipelines.get(id)!;
+        if (!p.github) return false;
+        await this.checkSecurity(id, "Push");
+        const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
+        // Taken before pushing: Dokploy may create the deployment before gitPush returns
+        const since = new Date().toISOString();
+        const pushed = await gitPush(p.workspace, message, authUrl);
+        if (pushed) this.markBuildPending(id, since);
+        return pushed;
     }
 
     private async waitForBuild(id: string, maxRetries = 3) {
@@ -931,14 +1405,18 @@ Instructions:
         // Wait a bit for Dokploy to start building
         await this.sleep(10000);
 
+        const checkpoint = this.getCheckpoint(id);
+
         for (let attempt = 0; attempt < maxRetries; attempt++) {
             if (this.shouldStop(id)) return;
 
             let allDone = true;
             for (const app of p.dokploy.apps) {
+                if (checkpoint.builtApps.includes(app.name)) continue;
                 try {
                     const deployment = await getLatestDeployment(app.applicationId);
-                    if (!deployment) {
+                    // Until the push's deployment shows up, the latest one is the previous build
+                    if (!deployment || !isDeploymentSince(deployment, checkpoint.buildSince)) {
                         allDone = false;
                         continue;
                     }
@@ -952,12 +1430,13 @@ Instructions:
 
                         // Re-push and retry
                         if (p.github) {
-                            const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
-                            const { gitPush } = await import("./claude_code.js");
-                            await gitPush(p.workspace, `fix: build error correction for ${app.name}`, authUrl);
+                            const since = new Date().toISOString();
+                            await this.pushWorkspace(id, `fix: build error correction for ${app.name}`);
 
                             // Re-trigger deploy for all apps to be safe, or just this one
                             await triggerDeploy(app.applicationId);
+                            // Even without new commits the re-triggered deployment is the one to check
+                            this.markBuildPending(id, since);
                             await this.sleep(15000);
                         }
 
@@ -966,15 +1445,22 @@ Instructions:
                         break;
                     } else if (deployment.status !== "done") {
                         allDone = false; // still deploying
+                    } else {
+                        checkpoint.builtApps.push(app.name);
+                        await this.saveState();
                     }
                 } catch (err) {
+                    if (err instanceof SecurityBlockedError) throw err;
                     console.warn(`[Orchestrator] Build check error for ${app.name}:`, err);
                     allDone = false;
                 }
             }
 
             if (allDone) {
+                checkpoint.pendingBuild = false;
+                checkpoint.updatedAt = new Date().toISOString();
                 this.addEvent(id, "Dokploy", "🚀", `✓ Tous les builds réussis`, "deploy");
+                await this.saveState();
                 return;
             }
 
@@ -982,13 +1468,55 @@ Instructions:
         }
     }
 
+    /**
+     * Local pre-flight (PREFLIGHT) before a push: services whose Dockerfile or
+     * build fails locally go straight to the Debugger, then are checked again.
+     * Never blocks the push, Dokploy's build stays the final check.
+     */
+    private async runPreflight(id: string, maxFixRetries = 2) {
+        const mode = getPreflightMode();
+        if (mode === "off") return;
+
+        const p = this.pipelines.get(id)!;
+        const services = p.services.filter(s => s.type !== "postgres" && s.type !== "redis");
+        const signal = this.abortControllers.get(id)?.signal;
+        let results: PreflightResult[] = [];
+
+        for (let attempt = 0; attempt <= maxFixRetries; attempt++) {
+            if (this.shouldStop(id)) return;
+            results = [];
+            for (const service of services) {
+                results.push(await preflightService(service.name, path.join(p.workspace, service.name), mode, signal));
+            }
+            p.artifacts.preflight = { mode, checkedAt: new Date().toISOString(), results };
+
+            const failing = results.filter(r => !r.ok);
+            if (failing.length === 0) {
+                this.addEvent(id, "Debugger", "🔧", `✓ Pre-flight ${mode} local OK (${results.length} service(s))`, "success");
+                await this.saveState();
+                return;
+            }
+            if (attempt === maxFixRetries) break;
+
+            for (const r of failing) {
+                this.addEvent(id, "Debugger", "🔧", `✗ Pre-flight ${r.service}: échec ${r.failedStep}`, "warning");
+                const output = r.output && r.output.length > 5000 ? "... " + r.output.slice(-5000) : r.output || "";
+                await this.runDebugger(id, `[pre-flight local: ${r.failedStep}]\n${output}`, r.service);
+            }
+        }
+
+        const stillFailing = results.filter(r => !r.ok).map(r => `${r.service} (${r.failedStep})`).join(", ");
+        this.addEvent(id, "Debugger", "🔧", `Pre-flight toujours en échec: ${stillFailing} — push quand même`, "warning");
+        await this.saveState();
+    }
+
     private async runDebugger(id: string, errorLogs: string, appName: string = "") {
         this.setAgentStatus(id, "Debugger", "active", "Correction des erreurs...");
         this.addEvent(id, "Debugger", "🔧", `Analyse des logs de build(${appName})...`, "info");
 
         const p = this.pipelines.get(id)!;
 
-        const debugResult = await runClaudeAgent({
+        const debugResult = await this.runAgent(id, "Debugger", {
             prompt: `Le build Docker a échoué pour le service ${appName}.Voici les logs d'erreur:
 
 ${errorLogs}
@@ -1000,7 +1528,7 @@ ${errorLogs}
                             4. Le build doit passer après ta correction`,
             systemPrompt: "Tu es un debugger expert. Analyse les erreurs de build et corrige-les de manière ciblée.",
             cwd: p.workspace,
-            allowedTools: ["Read", "Write", "Edit", "Bash", "ListDir"],
+            allowedTools: toolsForProfile("debugger"),
             maxTurns: 5,
             abortSignal: this.abortControllers.get(id)?.signal,
         });
@@ -1015,41 +1543,576 @@ ${errorLogs}
     }
 
     private async runQA(id: string) {
-        this.setPhase(id, "QA");
+        await this.enterPhase(id, "QA");
         this.setAgentStatus(id, "QA", "active", "Review du code...");
 
         const p = this.pipelines.get(id)!;
 
-        const result = await runClaudeAgent({
+        const result = await this.runAgent(id, "QA", {
             prompt: `Fais un review complet du projet:
 
                             1. Vérifie que le code compile sans erreur
                             2. Vérifie la structure du projet
                             3. Vérifie les bonnes pratiques de sécurité
-                            4. Corrige les problèmes trouvés
-                            5. Assure - toi que le Dockerfile est correct
+                            4. Vérifie que le Dockerfile est correct
+                            5. Tu es en lecture seule: ne modifie aucun fichier
 
-                            Résumé: donne une note / 10 et liste les problèmes trouvés.`,
+                            Résumé: liste les problèmes trouvés (les tests sont exécutés séparément).`,
             systemPrompt: "Tu es un Architecte Logiciel Senior. Structure le code logiquement et proprement.",
             cwd: p.workspace,
-            allowedTools: ["Read", "ListDir"],
+            allowedTools: toolsForProfile("qa-review"),
             maxTurns: 5,
             abortSignal: this.abortControllers.get(id)?.signal,
         });
+        this.addTokens(id, result);
+
+        await this.runTests(id);
 
         if (result.success) {
             if (p.github) {
-                const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
-                await gitPush(p.workspace, "chore: QA fixes", authUrl);
+                await this.pushWorkspace(id, "chore: QA fixes");
             }
             this.addEvent(id, "QA", "🧪", "✓ Review complet", "success");
         }
-        this.addTokens(id, result);
 
         this.setAgentStatus(id, "QA", "done", "Review terminé");
         await this.saveState();
     }
 
+    /**
+     * Run each service's test suite and store the results in artifacts.qaReport.
+     * Failing suites go back to the Debugger (QA_DEBUG_RETRIES passes); tests
+     * still failing afterwards fail the run.
+     */
+    private async runTests(id: string) {
+        const p = this.pipelines.get(id)!;
+        const services = p.services.filter(s => s.type !== "postgres" && s.type !== "redis");
+        if (services.length === 0) return;
+        const previous = p.artifacts.qaReport as QaReport | undefined;
+
+        for (let attempt = 1; ; attempt++) {
+            this.setAgentStatus(id, "QA", "active", attempt === 1 ? "Exécution des tests..." : `Exécution des tests (passe ${attempt})...`);
+            const results: ServiceTestResult[] = [];
+            for (const service of services) {
+                if (this.shouldStop(id)) return;
+                results.push(await runServiceTests(service.name, path.join(p.workspace, service.name), this.abortControllers.get(id)?.signal));
+            }
+
+            const report: QaReport = {
+                runAt: new Date().toISOString(),
+                attempt,
+                services: results,
+                passed: results.every(r => r.status !== "failed"),
+                regressions: findRegressions(previous, results),
+            };
+            p.artifacts.qaReport = report;
+
+            for (const r of results) {
+                if (r.runner === "none") continue;
+                const counts = `${r.passed}/${r.total} passés${r.skipped ? `, ${r.skipped} ignorés` : ""}`;
+                if (r.status === "failed") {
+                    this.addEvent(id, "QA", "🧪", `✗ ${r.service}: tests en échec (${r.timedOut ? "timeout" : counts})`, "error");
+                } else {
+                    this.addEvent(id, "QA", "🧪", `✓ ${r.service}: ${r.status === "skipped" ? "aucun test collecté" : counts}`, "success");
+                }
+            }
+            if (results.every(r => r.runner === "none")) {
+                this.addEvent(id, "QA", "🧪", "Aucune suite de tests détectée (npm test, pytest)", "warning");
+            }
+            await this.saveState();
+
+            if (report.passed) return;
+
+            const failing = results.filter(r => r.status === "failed");
+            if (attempt > QA_DEBUG_RETRIES) {
+                const detail = failing.map(r => `${r.service} (${r.failed}/${r.total})`).join(", ");
+                const reason = report.regressions.length > 0
+                    ? `Régression des tests: ${report.regressions.join(", ")} — ${detail}`
+                    : `Tests en échec après ${QA_DEBUG_RETRIES} correction(s): ${detail}`;
+                this.setAgentStatus(id, "QA", "error", reason);
+                throw new Error(reason);
+            }
+
+            if (report.regressions.length > 0) {
+                this.addEvent(id, "QA", "⚠️", `Régression détectée: ${report.regressions.join(", ")}`, "warning");
+            }
+            for (const r of failing) await this.runTestDebugger(id, r);
+        }
+    }
+
+    private async runTestDebugger(id: string, result: ServiceTestResult) {
+        this.setAgentStatus(id, "Debugger", "active", `Correction des tests ${result.service}...`);
+        this.addEvent(id, "Debugger", "🔧", `Analyse des tests en échec (${result.service})...`, "info");
+
+        const p = this.pipelines.get(id)!;
+
+        const debugResult = await this.runAgent(id, "Debugger", {
+            prompt: `Les tests du service ${result.service} échouent (\`${result.runner === "npm" ? "npm test" : "pytest"}\` dans ${result.service}/, code de sortie ${result.exitCode}${result.timedOut ? ", timeout" : ""}).
+
+Sortie des tests:
+${result.output || "(vide)"}
+
+Instructions:
+1. Identifie la cause de chaque échec
+2. Corrige le code applicatif (ne supprime pas et n'affaiblis pas les tests, sauf s'ils sont manifestement faux)
+3. Relance les tests pour vérifier`,
+            systemPrompt: "Tu es un debugger expert. Corrige les tests en échec de manière ciblée.",
+            cwd: p.workspace,
+            allowedTools: toolsForProfile("debugger"),
+            maxTurns: 10,
+            abortSignal: this.abortControllers.get(id)?.signal,
+        });
+
+        if (debugResult.success) {
+            this.setAgentStatus(id, "Debugger", "done", "Corrections appliquées");
+            this.addEvent(id, "Debugger", "🔧", `✓ Corrections appliquées (${result.service})`, "success");
+        } else {
+            this.addEvent(id, "Debugger", "🔧", `Erreur debugger: ${debugResult.error}`, "error");
+        }
+        this.addTokens(id, debugResult);
+    }
+
+    // ─── Run Queue ───
+
+    private async enqueueRun(run: Omit<QueuedRun, "enqueuedAt">) {
+        const p = this.pipelines.get(run.pipelineId);
+        if (p) {
+            p.queuedRun = {
+                kind: run.kind,
+                ...(run.instructions !== undefined ? { instructions: run.instructions } : {}),
+                ...(run.featureIndex !== undefined ? { featureIndex: run.featureIndex } : {}),
+            };
+        }
+        const position = await this.queue.enqueue(run);
+        this.addEvent(run.pipelineId, "Orchestrator", "⏳", `En file d'attente (position ${position})`, "info");
+        this.updateQueuePositions();
+        await this.saveState();
+        this.pumpQueue();
+    }
+
+    /**
+     * Start queued runs while there are free execution slots.
+     */
+    private pumpQueue() {
+        while (this.running.size < this.queue.options.concurrency) {
+            // Skip runs whose pipeline is still winding down (e.g. paused then resumed) or paused
+            const run = this.queue.take(r => !this.running.has(r.pipelineId) && this.pipelines.get(r.pipelineId)?.phase !== "PAUSED");
+            if (!run) break;
+            if (!this.pipelines.has(run.pipelineId)) continue;
+
+            this.executeRun(run)
+                .catch(err => {
+                    console.error(`[Orchestrator] Pipeline ${run.pipelineId} failed:`, err);
+                    this.setPhase(run.pipelineId, "FAILED", String(err.message || err));
+                })
+                .finally(() => this.pumpQueue());
+        }
+        this.updateQueuePositions();
+    }
+
+    private updateQueuePositions() {
+        for (const p of this.pipelines.values()) {
+            const position = this.queue.position(p.id);
+            if (position === undefined) delete p.queuePosition;
+            else p.queuePosition = position;
+        }
+    }
+
+    /**
+     * Re-attach queued runs after a restart. Pipelines left in QUEUED without
+     * a matching queue entry (e.g. queue file lost) are re-enqueued with the
+     * kind they were queued with; attachments of a modification are lost.
+     */
+    private async restoreQueue() {
+        const runs = await this.queue.load();
+        for (const run of runs) {
+            if (!this.pipelines.has(run.pipelineId)) await this.queue.remove(run.pipelineId);
+        }
+        for (const p of this.pipelines.values()) {
+            if (p.phase === "QUEUED" && !this.queue.has(p.id)) {
+                await this.queue.enqueue({ pipelineId: p.id, ...(p.queuedRun ?? { kind: "pipeline" }) });
+            }
+        }
+        await this.recoverInterrupted();
+        this.updateQueuePositions();
+        if (this.queue.list().length > 0) {
+            console.log(`[Orchestrator] Restored ${this.queue.list().length} queued runs`);
+        }
+        this.pumpQueue();
+    }
+
+    /**
+     * Pipelines that were mid-phase when the server stopped have no executor
+     * anymore. Park them in PAUSED, and re-queue them when RESUME_ON_BOOT=auto;
+     * the run then continues from the last checkpoint.
+     */
+    private async recoverInterrupted() {
+        for (const p of this.pipelines.values()) {
+            if (!IN_FLIGHT_PHASES.includes(p.phase) || this.queue.has(p.id)) continue;
+
+            const checkpoint = this.getCheckpoint(p.id);
+            checkpoint.interruptedPhase = p.phase;
+            checkpoint.updatedAt = new Date().toISOString();
+            this.addEvent(p.id, "Orchestrator", "⚠️", `Pipeline interrompu par un redémarrage pendant ${p.phase}`, "warning");
+            p.phase = "PAUSED";
+            p.pause = { reason: "interrupted", pausedAt: new Date().toISOString() };
+            p.updatedAt = new Date().toISOString();
+
+            if (RESUME_ON_BOOT === "auto") {
+                await this.resumePipeline(p.id);
+            }
+        }
+        await this.saveState();
+    }
+
+    /**
+     * Move a pipeline into a phase, waiting for a slot when the phase has a
+     * concurrency limit (PHASE_CONCURRENCY).
+     */
+    private async enterPhase(id: string, phase: PipelinePhase) {
+        if (this.queue.isPhaseFull(phase, id)) {
+            this.addEvent(id, "Orchestrator", "⏳", `En attente d'un slot ${phase}...`, "info");
+        }
+        await this.queue.acquirePhase(phase, id, this.abortControllers.get(id)?.signal);
+        this.setPhase(id, phase);
+    }
+
+    // ─── Approval Gates ───
+
+    /**
+     * Park the pipeline in AWAITING_APPROVAL if `gate` is enabled and has not
+     * been approved yet. Returns true when the run must stop here.
+     */
+    private async parkForApproval(id: string, gate: ApprovalGate): Promise<boolean> {
+        const p = this.pipelines.get(id)!;
+        if (!p.approvalGates?.includes(gate)) return false;
+
+        const last = [...(p.approvals ?? [])].reverse().find(a => a.gate === gate && !a.superseded);
+        if (last && last.decision !== "reject") return false;
+
+        p.approval = { gate, requestedAt: new Date().toISOString() };
+        this.setPhase(id, "AWAITING_APPROVAL");
+        this.addEvent(id, "Orchestrator", "✋", `Validation requise: ${gate === "analysis" ? "PRD" : "architecture"}`, "warning");
+        await this.saveState();
+        return true;
+    }
+
+    getApproval(id: string): { approval?: Pipeline["approval"]; artifact?: unknown; approvals: ApprovalRecord[] } | undefined {
+        const p = this.pipelines.get(id);
+        if (!p) return undefined;
+        return {
+            approval: p.approval,
+            artifact: p.approval ? p.artifacts[p.approval.gate] : undefined,
+            approvals: p.approvals ?? [],
+        };
+    }
+
+    async decideApproval(id: string, decision: ApprovalDecision, opts: { artifact?: unknown; comment?: string } = {}): Promise<Pipeline> {
+        const p = this.pipelines.get(id);
+        if (!p) throw new Error("pipeline_not_found");
+        if (p.phase !== "AWAITING_APPROVAL" || !p.approval) throw new Error("no_pending_approval");
+
+        const gate = p.approval.gate;
+        if (decision === "edit-and-approve") {
+            const previous = p.artifacts[gate];
+            if (!opts.artifact || typeof opts.artifact !== "object" || Array.isArray(opts.artifact)) {
+                throw new Error("artifact_required");
+            }
+            const errors = validateArtifact(gate, opts.artifact);
+            if (errors.length > 0) {
+                const err = new Error("invalid_artifact");
+                (err as any).details = errors;
+                throw err;
+            }
+            if (gate === "analysis") {
+                this.applyAnalysis(id, opts.artifact);
+            } else {
+                p.artifacts.architecture = opts.artifact;
+                delete p.artifacts.features; // ledger is rebuilt from the edited feature list
+            }
+            this.recordArtifactVersion(id, gate, "human", "approval", previous);
+        }
+
+        p.approvals = [...(p.approvals ?? []), { gate, decision, comment: opts.comment, decidedAt: new Date().toISOString() }];
+        p.approval = undefined;
+
+        if (decision === "reject") {
+            const reason = `Rejeté à la validation (${gate})${opts.comment ? `: ${opts.comment}` : ""}`;
+            this.setPhase(id, "FAILED", reason);
+            this.addEvent(id, "Orchestrator", "❌", reason, "error");
+            await this.saveState();
+            return p;
+        }
+
+        const label = decision === "edit-and-approve" ? "modifié et approuvé" : "approuvé";
+        this.addEvent(id, "Orchestrator", "✅", `${gate === "analysis" ? "PRD" : "Architecture"} ${label}`, "success");
+        p.phase = "QUEUED";
+        await this.enqueueRun({ pipelineId: id, kind: "pipeline" });
+        return p;
+    }
+
+    // ─── Editable Artifacts ───
+
+    /**
+     * Append the current content of `name` to its version history. Pipelines
+     * created before versioning get their existing content seeded as v1.
+     */
+    private recordArtifactVersion(id: string, name: ArtifactName, author: ArtifactVersion["author"], source: string, previous?: unknown): ArtifactVersion {
+        const p = this.pipelines.get(id)!;
+        const versions = p.artifactVersions?.[name] ?? [];
+        if (versions.length === 0 && previous !== undefined) {
+            versions.push({ version: 1, author: "agent", source: "legacy", createdAt: p.createdAt, content: previous });
+        }
+        const entry: ArtifactVersion = {
+            version: versions.length + 1,
+            author,
+            source,
+            createdAt: new Date().toISOString(),
+            content: structuredClone(p.artifacts[name]),
+        };
+        versions.push(entry);
+        p.artifactVersions = { ...p.artifactVersions, [name]: versions };
+        return entry;
+    }
+
+    getArtifact(id: string, name: ArtifactName): { content: unknown; versions: Omit<ArtifactVersion, "content">[] } | undefined {
+        const p = this.pipelines.get(id);
+        if (!p) return undefined;
+        return {
+            content: p.artifacts[name],
+            versions: (p.artifactVersions?.[name] ?? []).map(({ content: _content, ...meta }) => meta),
+        };
+    }
+
+    getArtifactVersion(id: string, name: ArtifactName, version: number): ArtifactVersion | undefined {
+        return this.pipelines.get(id)?.artifactVersions?.[name]?.find(v => v.version === version);
+    }
+
+    /**
+     * Diff two versions. Defaults to the latest agent output against the
+     * current content, i.e. "what did humans change since the agent wrote it".
+     */
+    diffArtifact(id: string, name: ArtifactName, from?: number, to?: number): { from: number; to: number; changes: ArtifactDiffEntry[] } {
+        const p = this.pipelines.get(id);
+        if (!p) throw new Error("pipeline_not_found");
+        const versions = p.artifactVersions?.[name] ?? [];
+        if (versions.length === 0) throw new Error("artifact_not_found");
+
+        const lastAgent = [...versions].reverse().find(v => v.author === "agent") ?? versions[0];
+        const before = versions.find(v => v.version === (from ?? lastAgent.version));
+        const after = versions.find(v => v.version === (to ?? versions[versions.length - 1].version));
+        if (!before || !after) throw new Error("version_not_found");
+
+        return { from: before.version, to: after.version, changes: diffArtifacts(before.content, after.content) };
+    }
+
+    /**
+     * Apply a JSON merge patch (or a full replacement) to an artifact.
+     * Rejected with `invalid_artifact` (+ `details`) if the result does not validate.
+     */
+    async updateArtifact(id: string, name: ArtifactName, change: { patch?: unknown; content?: unknown }): Promise<ArtifactVersion> {
+        const p = this.pipelines.get(id);
+        if (!p) throw new Error("pipeline_not_found");
+        if (this.running.has(id) || this.queue.has(id)) throw new Error("pipeline_busy");
+
+        const current = p.artifacts[name];
+        if (current === undefined) throw new Error("artifact_not_found");
+
+        const next = change.content !== undefined ? change.content : applyMergePatch(current, change.patch);
+        const errors = validateArtifact(name, next);
+        if (errors.length > 0) {
+            const err = new Error("invalid_artifact");
+            (err as any).details = errors;
+            throw err;
+        }
+
+        if (name === "analysis") this.applyAnalysis(id, next);
+        else p.artifacts.architecture = next;
+
+        const version = this.recordArtifactVersion(id, name, "human", "patch", current);
+        this.addEvent(id, "Orchestrator", "✏️", `${name === "analysis" ? "PRD" : "Architecture"} modifié(e) (v${version.version})`, "info");
+        await this.saveState();
+        return version;
+    }
+
+    /**
+     * Re-run every phase downstream of `name` from its current (edited)
+     * content. Infrastructure that already exists (repo, Dokploy apps) is
+     * kept; features whose text is unchanged and already done are not rebuilt.
+     */
+    async replanFromArtifact(id: string, name: ArtifactName): Promise<Pipeline> {
+        const p = this.pipelines.get(id);
+        if (!p) throw new Error("pipeline_not_found");
+        if (this.running.has(id) || this.queue.has(id)) throw new Error("pipeline_busy");
+        if (p.artifacts[name] === undefined) throw new Error("artifact_not_found");
+
+        // The edited artifact stands in for its phase's output, even if that phase failed
+        const checkpoint = this.getCheckpoint(id);
+        const completed = name === "analysis" ? ["ANALYSIS"] : ["ANALYSIS", "ARCHITECTURE"];
+        if (p.dokploy && checkpoint.completedPhases.includes("SCAFFOLD")) completed.push("SCAFFOLD", "DEPLOYING");
+        checkpoint.completedPhases = completed;
+        checkpoint.updatedAt = new Date().toISOString();
+
+        if (name === "analysis") delete p.artifacts.features;
+        else this.reconcileFeatureLedger(id);
+
+        // Downstream reviews no longer apply; the edited artifact itself counts as reviewed
+        const now = new Date().toISOString();
+        p.approvals = (p.approvals ?? []).map(a => name === "analysis" && a.gate === "architecture" ? { ...a, superseded: true } : a);
+        if (p.approvalGates?.includes(name)) {
+            p.approvals.push({ gate: name, decision: "edit-and-approve", comment: "replan", decidedAt: now });
+        }
+        p.approval = undefined;
+        p.error = undefined;
+
+        const label = name === "analysis" ? "PRD" : "architecture";
+        this.addEvent(id, "Orchestrator", "🔁", `Re-planification depuis le ${label} modifié`, "info");
+        if (p.dokploy && name === "analysis") {
+            this.addEvent(id, "Orchestrator", "⚠️", "Infrastructure existante conservée: les changements de services ne sont pas re-provisionnés", "warning");
+        }
+        p.phase = "QUEUED";
+        await this.enqueueRun({ pipelineId: id, kind: "pipeline" });
+        return p;
+    }
+
+    // ─── Checkpoints ───
+
+    private getCheckpoint(id: string): PipelineCheckpoint {
+        const p = this.pipelines.get(id)!;
+        if (!p.checkpoint) {
+            p.checkpoint = { completedPhases: [], builtApps: [], updatedAt: new Date().toISOString() };
+        }
+        return p.checkpoint;
+    }
+
+    /**
+     * Every app's build is unverified again: `waitForBuild` only accepts
+     * deployments created from `since` on.
+     */
+    private markBuildPending(id: string, since = new Date().toISOString()) {
+        const checkpoint = this.getCheckpoint(id);
+        checkpoint.pendingBuild = true;
+        checkpoint.builtApps = [];
+        checkpoint.buildSince = since;
+        checkpoint.updatedAt = new Date().toISOString();
+    }
+
+    private isPhaseDone(id: string, phase: string): boolean {
+        return this.pipelines.get(id)?.checkpoint?.completedPhases.includes(phase) ?? false;
+    }
+
+    private async markPhaseDone(id: string, phase: string) {
+        const checkpoint = this.getCheckpoint(id);
+        if (!checkpoint.completedPhases.includes(phase)) checkpoint.completedPhases.push(phase);
+        checkpoint.updatedAt = new Date().toISOString();
+        await this.saveState();
+    }
+
+    // ─── Feature Ledger ───
+
+    /**
+     * Per-feature records stored in artifacts.features, kept in sync with
+     * architecture.features (new entries are appended as pending). Flows
+     * without an Architect fall back to the PRD's feature list.
+     */
+    private getFeatureLedger(id: string): FeatureRecord[] {
+        const p = this.pipelines.get(id)!;
+        const source = (p.artifacts.architecture ?? p.artifacts.analysis) as any;
+        const features: unknown[] = source?.features || [];
+        const ledger = (p.artifacts.features as FeatureRecord[] | undefined) ?? [];
+
+        for (let i = ledger.length; i < features.length; i++) {
+            ledger.push({
+                index: i,
+                feature: String(features[i]),
+                status: "pending",
+                attempts: 0,
+                pushed: false,
+                inputTokens: 0,
+                outputTokens: 0,
+            });
+        }
+        p.artifacts.features = ledger;
+        return ledger;
+    }
+
+    /** Rebuild the ledger from an edited feature list, keeping done features whose text is unchanged. */
+    private reconcileFeatureLedger(id: string) {
+        const p = this.pipelines.get(id)!;
+        const previous = (p.artifacts.features as FeatureRecord[] | undefined) ?? [];
+        delete p.artifacts.features;
+        for (const record of this.getFeatureLedger(id)) {
+            const match = previous.find(r => r.feature === record.feature && r.status === "done");
+            if (match) Object.assign(record, { ...match, index: record.index });
+        }
+    }
+
+    getFeatures(id: string): FeatureRecord[] | undefined {
+        if (!this.pipelines.has(id)) return undefined;
+        return this.getFeatureLedger(id);
+    }
+
+    /** Persisted agent actions of a pipeline, filtered by phase / role / feature / tool. */
+    async getActions(id: string, query: ActionLogQuery = {}): Promise<{ actions: ActionLogEntry[]; total: number } | undefined> {
+        if (!this.pipelines.has(id)) return undefined;
+        return this.actionLog.query(id, query);
+    }
+
+    /** Agent conversations of a pipeline (summaries), filtered by phase / role / feature. */
+    async listTranscripts(id: string, query: TranscriptQuery = {}): Promise<TranscriptSummary[] | undefined> {
+        if (!this.pipelines.has(id)) return undefined;
+        return this.transcripts.list(id, query);
+    }
+
+    async getTranscript(id: string, transcriptId: string): Promise<AgentTranscript | undefined> {
+        if (!this.pipelines.has(id)) return undefined;
+        return this.transcripts.get(id, transcriptId);
+    }
+
+    /** Re-run a recorded conversation against its recorded responses (see transcripts.ts). */
+    async replayTranscript(id: string, transcriptId: string, mode: ReplayMode = "dry"): Promise<ReplayReport | undefined> {
+        const p = this.pipelines.get(id);
+        const transcript = p && await this.transcripts.get(id, transcriptId);
+        if (!p || !transcript) return undefined;
+        return replayTranscript(transcript, { mode, workspace: p.workspace });
+    }
+
+    /** Surface a file tool call blocked by the path guard in the pipeline's event stream. */
+    private reportDeniedAction(id: string, action: AgentAction) {
+        this.addEvent(id, "Security", "🚫", `${action.tool}: ${action.content ?? "accès refusé"}`, "warning");
+    }
+
+    private summarizeActions(actions: AgentAction[], previous?: FeatureRecord["actions"]): NonNullable<FeatureRecord["actions"]> {
+        const tools: Record<string, number> = { ...previous?.tools };
+        const filesWritten = new Set<string>(previous?.filesWritten);
+        for (const a of actions) {
+            if (a.type !== "tool_use" || !a.tool) continue;
+            tools[a.tool] = (tools[a.tool] || 0) + 1;
+            const filePath = a.input?.path;
+            if ((a.tool === "write_file" || a.tool === "replace_in_file" || a.tool === "multi_edit") && typeof filePath === "string") {
+                filesWritten.add(filePath);
+            }
+            if (a.tool === "apply_patch" && typeof a.input?.patch === "string") {
+                patchedPaths(a.input.patch).forEach(f => filesWritten.add(f));
+            }
+        }
+        return { total: (previous?.total ?? 0) + actions.length, tools, filesWritten: [...filesWritten] };
+    }
+
+    /** Re-clone the repo if the workspace is gone (container rebuilt without the volume). */
+    private async ensureWorkspace(id: string) {
+        const p = this.pipelines.get(id)!;
+        if (!p.github) return;
+        const workspaceExists = await fs.access(p.workspace).then(() => true).catch(() => false);
+        if (!workspaceExists) {
+            this.addEvent(id, "Developer", "💻", "Re-clonage du workspace...", "info");
+            await gitClone(
+                `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`,
+                p.workspace
+            );
+        }
+    }
+
     // ─── Helpers ───
 
     private setPhase(id: string, phase: PipelinePhase, error?: string) {
@@ -1100,16 +2163,130 @@ ${errorLogs}
         return !p || p.phase === "PAUSED" || p.phase === "FAILED";
     }
 
-    private addTokens(id: string, result: { inputTokens: number; outputTokens: number }) {
+    private addTokens(id: string, result: Pick<AgentResult, "inputTokens" | "outputTokens" | "modelUsage">) {
         const p = this.pipelines.get(id);
         if (!p) return;
         if (!p.tokenUsage) p.tokenUsage = { inputTokens: 0, outputTokens: 0 };
         p.tokenUsage.inputTokens += result.inputTokens;
         p.tokenUsage.outputTokens += result.outputTokens;
+        for (const [model, usage] of Object.entries(result.modelUsage ?? {})) {
+            addModelUsage(p.tokenUsage.byModel ??= {}, model, usage);
+        }
+        const cost = costOf(result.modelUsage ?? {});
+        p.tokenUsage.cost = (p.tokenUsage.cost ?? 0) + cost;
+        void this.globalSpent.add({ tokens: result.inputTokens + result.outputTokens, cost });
+    }
+
+    // ─── Budget ───
+
+    private pipelineSpend(p: Pipeline): BudgetSpend {
+        return {
+            tokens: (p.tokenUsage?.inputTokens ?? 0) + (p.tokenUsage?.outputTokens ?? 0),
+            cost: p.tokenUsage?.cost ?? 0,
+        };
+    }
+
+    /** Sum over the stored pipelines: seeds the global total when spend.json doesn't exist yet. */
+    private storedPipelinesSpend(): BudgetSpend {
+        const spend = { tokens: 0, cost: 0 };
+        for (const p of this.pipelines.values()) {
+            const s = this.pipelineSpend(p);
+            spend.tokens += s.tokens;
+            spend.cost += s.cost;
+        }
+        return spend;
+    }
+
+    /**
+     * First budget (pipeline, then global) reached by what is already
+     * accounted plus `running`, the usage of an agent run not yet added.
+     */
+    private budgetExceeded(id: string, running?: Pick<AgentResult, "inputTokens" | "outputTokens" | "modelUsage">): BudgetExceeded | undefined {
+        const p = this.pipelines.get(id);
+        if (!p) return undefined;
+        const extra = running ? { tokens: running.inputTokens + running.outputTokens, cost: costOf(running.modelUsage ?? {}) } : { tokens: 0, cost: 0 };
+        const add = (s: BudgetSpend) => ({ tokens: s.tokens + extra.tokens, cost: s.cost + extra.cost });
+        return checkBudget(add(this.pipelineSpend(p)), this.getBudgetLimits(p), "pipeline")
+            ?? checkBudget(add(this.globalSpent.get()), getGlobalBudget(), "global");
+    }
+
+    private getBudgetLimits(p: Pipeline): BudgetLimits {
+        return { ...getPipelineBudgetDefaults(), ...p.budget };
+    }
+
+    getBudget(id: string) {
+        const p = this.pipelines.get(id);
+        if (!p) return undefined;
+        const exceeded = this.budgetExceeded(id);
+        return {
+            limits: this.getBudgetLimits(p),
+            spent: this.pipelineSpend(p),
+            global: { limits: getGlobalBudget(), spent: this.globalSpent.get() },
+            exceeded: exceeded ? { ...exceeded, message: describeBudgetExceeded(exceeded) } : undefined,
+        };
+    }
+
+    /** Set the pipeline's own limits; `null` drops an override back to the env default. */
+    async setBudget(id: string, limits: { maxTokens?: number | null; maxCost?: number | null }) {
+        const p = this.pipelines.get(id);
+        if (!p) return undefined;
+        const budget: BudgetLimits = { ...p.budget };
+        for (const key of ["maxTokens", "maxCost"] as const) {
+            if (limits[key] === null) delete budget[key];
+            else if (limits[key] !== undefined) budget[key] = limits[key];
+        }
+        p.budget = budget;
+        this.addEvent(id, "Orchestrator", "💸", `Budget mis à jour: ${budget.maxTokens ?? "∞"} tokens, $${budget.maxCost ?? "∞"}`, "info");
+        await this.saveState();
+        return this.getBudget(id);
+    }
+
+    /**
+     * Run an agent with the model chain routed for the pipeline's current
+     * phase, the agent role and the template (see model_routing.ts).
+     */
+    private async runAgent(id: string, role: string, options: AgentOptions): Promise<AgentResult> {
+        const p = this.pipelines.get(id)!;
+        const [model, ...fallbackModels] = resolveModelChain({
+            phase: p.phase,
+            role,
+            template: p.templateId ? getTemplate(p.templateId)?.pipeline?.models : undefined,
+            defaultModel: getCurrentModel(),
+        });
+        const result = await runClaudeAgent({
+            model,
+            fallbackModels,
+            ...options,
+            runContext: { pipelineId: id, phase: p.phase, role, ...options.runContext },
+            checkBudget: usage => {
+                const exceeded = this.budgetExceeded(id, usage);
+                return exceeded ? describeBudgetExceeded(exceeded) : undefined;
+            },
+            onTranscript: transcript => void this.transcripts.save(id, transcript),
+            onRetry: retry => {
+                const reason = retry.status ? `${retry.kind} ${retry.status}` : retry.kind;
+                this.addEvent(id, role, "🔁", `API indisponible (${reason}, ${retry.model}) — nouvel essai ${retry.attempt}/${retry.maxRetries} dans ${Math.ceil(retry.delayMs / 1000)}s`, "warning");
+            },
+        });
+        if (result.model && result.model !== model) {
+            this.addEvent(id, role, "⚠️", `Modèle ${model} indisponible → ${result.model}`, "warning");
+        }
+        if (result.budgetExhausted) await this.pausePipeline(id, "budget", result.budgetExhausted);
+        return result;
     }
 
     // ─── Project Type Helpers ───
 
+    /** Store the PRD and derive the services list from it. */
+    private applyAnalysis(id: string, analysis: any) {
+        const p = this.pipelines.get(id)!;
+        p.artifacts.analysis = analysis;
+        // Parse services array from JSON
+        p.services = Array.isArray(analysis?.services)
+            ? analysis.services
+            : [{ name: "main", type: this.detectProjectType(analysis) }];
+    }
+
     private detectProjectType(analysis: any): ProjectType {
         // Trust the model's own detection first
         const declared = (analysis?.type || "").toLowerCase();
@@ -1355,13 +2532,41 @@ REGLE ABSOLUE: Aucun import depuis un module local (pas de from src.xxx import,
             .slice(0, 30);
     }
 
-    private tryParseJson(text: string): any {
-        try {
-            // Try to find JSON in the text
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) return JSON.parse(jsonMatch[0]);
-        } catch { /* ignore */ }
-        return { raw: text };
+    /**
+     * Run an agent whose answer must be a valid `name` artifact. Invalid
+     * answers are sent back with their validation errors, at most
+     * ARTIFACT_REPAIR_RETRIES times; `errors` is non-empty if it never converged.
+     */
+    private async runArtifactAgent(
+        id: string,
+        name: ArtifactName,
+        agent: { role: string; emoji: string },
+        options: AgentOptions,
+    ): Promise<{ result: AgentResult; value?: unknown; errors: string[]; attempts: number }> {
+        let prompt = options.prompt;
+        for (let attempt = 1; ; attempt++) {
+            const result = await this.runAgent(id, agent.role, { ...options, prompt });
+            this.addTokens(id, result);
+            if (!result.success) return { result, errors: [], attempts: attempt };
+
+            const { value, errors } = parseArtifactOutput(name, result.finalResult || "");
+            if (errors.length === 0 || attempt > ARTIFACT_REPAIR_RETRIES || this.shouldStop(id)) {
+                return { result, value, errors, attempts: attempt };
+            }
+
+            this.addEvent(id, agent.role, agent.emoji, `Réponse invalide (${errors.length} erreur(s)), correction demandée (${attempt}/${ARTIFACT_REPAIR_RETRIES})`, "warning");
+            prompt = `Ta réponse précédente ne respecte pas le schéma JSON attendu.
+
+Erreurs de validation:
+${errors.map(e => `- ${e}`).join("\n")}
+
+Réponse précédente:
+${(result.finalResult || "").slice(0, 8000)}
+
+Renvoie UNIQUEMENT le document JSON corrigé et complet, pour la demande initiale ci-dessous.
+
+${options.prompt}`;
+        }
     }
 
     private sleep(ms: number): Promise<void> {
@@ -1443,6 +2648,8 @@ REGLE ABSOLUE: Aucun import depuis un module local (pas de from src.xxx import,
                 const errorType = !health.ok ? `HTTP ${health.status || health.error}` : "Crash silencieux (Logs d'erreur détectés)";
                 this.addEvent(id, "QA", "⚠️", `${app.name}: Problème: ${errorType}. Auto-Correction (Essai ${attempt}/${maxFixRetries})...`, "warning");
 
+                const fixStartedAt = new Date().toISOString();
+
                 // Injection du script pour changer le port sur Dokploy si besoin
                 let dokployScriptInfo = "";
                 if (app.domainId) {
@@ -1458,6 +2665,8 @@ curl -X POST "${getDokployUrl()}/api/trpc/application.deploy" \\
 echo "Dokploy port updated to $1 and deployment triggered for ${app.name}."
 `;
                     await fs.writeFile(apiScriptPath, apiScriptContent, { mode: 0o755 });
+                    // Carries the Dokploy URL and ids: usable by the agent, never committed
+                    await gitExclude(p.workspace, `/update_dokploy_port_${app.name}.sh`);
                     dokployScriptInfo = `ATTENTION: Par défaut, le service Dokploy a été configuré pour pointer sur un port spécifique. Si tu découvres que ton code écoute sur un port différent (ex: app.run(port=5000) mais Dokploy pointe vers autre chose), tu peux SOIT corriger le code pour correspondre à Dokploy, SOIT modifier le port de Dokploy lui-même en exécutant:
 ./update_dokploy_port_${app.name}.sh <NOUVEAU_PORT> (ex: ./update_dokploy_port_${app.name}.sh 5000)
 (Ne commite surtout pas ce fichier script update_dokploy_port_${app.name}.sh dans git!)`;
@@ -1488,7 +2697,7 @@ Corrige le problème pour que le serveur (et le bot) démarre(nt) correctement s
 
                 this.setAgentStatus(id, "Developer", "active", "Auto-Correction en cours...");
 
-                const result = await runClaudeAgent({
+                const result = await this.runAgent(id, "Developer", {
                     prompt: `Tu as un projet existant à modifier pour corriger un crash en prod. (Tentative ${attempt} / ${maxFixRetries})
 Voici le problème:
                         ${instructions}
@@ -1505,7 +2714,7 @@ RÈGLES ABSOLUES:
                     - IMPORTANT: Si 0 fichier est écrit ET aucune commande de port n'est exécutée, la tâche échoue.`,
                     systemPrompt: "Tu es un développeur de crise. Tu DOIS utiliser l'outil Write pour sauvegarder tes correctifs et fixer le bug.",
                     cwd: p.workspace,
-                    allowedTools: ["Read", "Write", "Bash", "ListDir"],
+                    allowedTools: toolsForProfile("debugger"),
                     maxTurns: 15,
                     timeoutMs: 10 * 60 * 1000,
                     abortSignal: this.abortControllers.get(id)?.signal,
@@ -1516,14 +2725,13 @@ RÈGLES ABSOLUES:
                 const { execSync } = await import("node:child_process");
                 let hasChanges = false;
                 try {
-                    const status = execSync("git status --porcelain", { cwd: p.workspace }).toString().trim();
+                    const status = execSync("git status --porcelain", { cwd: p.workspace, env: gitCommandEnv() }).toString().trim();
                     hasChanges = status.length > 0;
                 } catch { hasChanges = false; }
 
+                let pushed = false;
                 if (hasChanges && p.github) {
-                    const authUrl = `https://${getGithubToken()}@github.com/${p.github.owner}/${p.github.repo}.git`;
-                    const { gitPush } = await import("./claude_code.js");
-                    const pushed = await gitPush(p.workspace, `fix: auto-correction ${app.name} HTTP ${health.status || health.error}`, authUrl);
+                    pushed = await this.pushWorkspace(id, `fix: auto-correction ${app.name} HTTP ${health.status || health.error}`);
                     if (pushed) {
                         this.addEvent(id, "Developer", "💻", `${app.name}: Push auto-correction appliqué`, "success");
                     } else {
@@ -1534,6 +2742,7 @@ RÈGLES ABSOLUES:
                 }
 
                 // On attend toujours car le script bash a pu déclencher un déploiement Dokploy.
+                if (!pushed) this.markBuildPending(id, fixStartedAt);
                 await this.waitForBuild(id);
             } // end retry loop
 
@@ -0,0 +1,379 @@
+/**
+ * Patch Tools — the agent's precise editing tools:
+ *   apply_patch  unified diff, hunks located with fuzzy matching
+ *                (line offset, whitespace drift, up to 2 context lines dropped)
+ *   multi_edit   several replacements in one file
+ * Both are atomic: when any hunk / edit fails nothing is written, and the
+ * report says exactly which ones failed and why.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { resolveWorkspacePath } from "./path_guard.js";
+
+// ─── Types ───
+
+export type HunkLine = { op: " " | "-" | "+"; text: string };
+
+export type Hunk = {
+    header: string;            // "@@ -12,6 +12,7 @@"
+    oldStart: number;
+    newStart: number;
+    lines: HunkLine[];
+};
+
+export type FilePatch = {
+    oldPath?: string;          // undefined = /dev/null (file created)
+    newPath?: string;          // undefined = /dev/null (file deleted)
+    hunks: Hunk[];
+};
+
+export type MatchStatus = "applied" | "offset" | "fuzzy" | "failed";
+
+export type HunkResult = {
+    index: number;             // 1-based within its file
+    header: string;
+    status: MatchStatus;
+    line?: number;             // 1-based line where the hunk was applied
+    reason?: string;
+};
+
+export type TextEdit = {
+    targetStr: string;
+    replacementStr: string;
+    replaceAll?: boolean;
+};
+
+export type EditResult = {
+    index: number;             // 1-based
+    status: Exclude<MatchStatus, "offset">;
+    count?: number;            // replacements made
+    reason?: string;
+};
+
+// Context lines GNU patch-style fuzz may ignore at each end of a hunk
+const MAX_FUZZ = 2;
+
+// ─── Diff Parsing ───
+
+const stripPrefix = (raw: string): string | undefined => {
+    const file = raw.split("\t")[0].trim();
+    if (file === "/dev/null") return undefined;
+    return file.replace(/^[ab]\//, "");
+};
+
+/**
+ * Parse a unified diff (git or plain). Hunk line counts are not trusted —
+ * models often get them wrong — a hunk runs until the next header.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+    const lines = diff.replace(/\r\n/g, "\n").split("\n");
+    const files: FilePatch[] = [];
+    let file: FilePatch | undefined;
+    let hunk: Hunk | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+            file = { oldPath: stripPrefix(line.slice(4)), newPath: stripPrefix(lines[i + 1].slice(4)), hunks: [] };
+            files.push(file);
+            hunk = undefined;
+            i++;
+            continue;
+        }
+        const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        if (header) {
+            if (!file) throw new Error("hunk before any file header (--- a/path, +++ b/path)");
+            hunk = { header: header[0], oldStart: Number(header[1]), newStart: Number(header[2]), lines: [] };
+            file.hunks.push(hunk);
+            continue;
+        }
+        if (!hunk) continue;  // "diff --git", "index ...", mode lines
+        if (line.startsWith("\\")) continue;  // "\ No newline at end of file"
+        if (line.startsWith("diff ")) { hunk = undefined; continue; }
+        const op = line[0];
+        if (op === " " || op === "-" || op === "+") hunk.lines.push({ op, text: line.slice(1) });
+        else if (line === "") hunk.lines.push({ op: " ", text: "" });  // editors strip the space of empty context lines
+        else hunk = undefined;
+    }
+
+    // A trailing newline of the patch is not an empty context line
+    for (const f of files) {
+        for (const h of f.hunks) {
+            while (h.lines.length > 0 && h.lines[h.lines.length - 1].op === " " && h.lines[h.lines.length - 1].text === "") h.lines.pop();
+        }
+    }
+    return files;
+}
+
+// ─── Hunk Matching ───
+
+const normalize = (line: string) => line.trim().replace(/\s+/g, " ");
+
+function matchesAt(fileLines: string[], at: number, expected: string[], loose: boolean): boolean {
+    if (at < 0 || at + expected.length > fileLines.length) return false;
+    for (let k = 0; k < expected.length; k++) {
+        const a = fileLines[at + k];
+        const b = expected[k];
+        if (loose ? normalize(a) !== normalize(b) : a !== b) return false;
+    }
+    return true;
+}
+
+const indentOf = (line: string) => line.match(/^[ \t]*/)![0];
+
+/**
+ * Shift `lines` written against indentation `from` to indentation `to`, so
+ * text placed by a whitespace-insensitive match keeps the file's indentation.
+ */
+function reindent(lines: string[], from: string, to: string): string[] {
+    if (from === to) return lines;
+    return lines.map(line => {
+        if (line.trim() === "") return line;
+        if (line.startsWith(from)) return to + line.slice(from.length);
+        // Less indented than the anchor line: keep the same distance below `to`
+        const own = indentOf(line);
+        return to.slice(0, Math.max(0, to.length - (from.length - own.length))) + line.slice(own.length);
+    });
+}
+
+/** Match position closest to `near`, searching from `from` on. */
+function findBlock(fileLines: string[], expected: string[], near: number, from: number, loose: boolean): number | undefined {
+    let best: number | undefined;
+    for (let at = from; at + expected.length <= fileLines.length; at++) {
+        if (matchesAt(fileLines, at, expected, loose) && (best === undefined || Math.abs(at - near) < Math.abs(best - near))) best = at;
+    }
+    return best;
+}
+
+/**
+ * Apply hunks to the lines of one file, in order. Returns the new lines
+ * and one result per hunk; `ok` is false when any hunk failed.
+ */
+export function applyHunks(fileLines: string[], hunks: Hunk[]): { lines: string[]; results: HunkResult[]; ok: boolean } {
+    const lines = [...fileLines];
+    const results: HunkResult[] = [];
+    let delta = 0;   // shift between the diff's line numbers and the current lines
+    let cursor = 0;  // hunks apply in order and never overlap
+
+    hunks.forEach((hunk, i) => {
+        const result: HunkResult = { index: i + 1, header: hunk.header, status: "failed" };
+        results.push(result);
+
+        // Try the full hunk, then with up to MAX_FUZZ context lines dropped at each end
+        for (let fuzz = 0; fuzz <= MAX_FUZZ && result.status === "failed"; fuzz++) {
+            const lead = Math.min(fuzz, leadingContext(hunk.lines));
+            const trail = Math.min(fuzz, trailingContext(hunk.lines.slice(lead)));
+            if (fuzz > 0 && lead + trail === 0) break;
+            const body = hunk.lines.slice(lead, hunk.lines.length - trail);
+            const expected = body.filter(l => l.op !== "+").map(l => l.text);
+            // Pure insertions ("@@ -5,0 +6,2 @@") go after their old line, the rest start at it
+            const expectedAt = expected.length === 0 ? hunk.oldStart : hunk.oldStart - 1 + lead;
+            const near = Math.max(cursor, expectedAt + delta);
+
+            let at: number | undefined;
+            let status: MatchStatus = "applied";
+            if (expected.length === 0) {
+                at = Math.min(near, lines.length);
+            } else if (matchesAt(lines, near, expected, false)) {
+                at = near;
+            } else if ((at = findBlock(lines, expected, near, cursor, false)) !== undefined) {
+                status = "offset";
+            } else if ((at = findBlock(lines, expected, near, cursor, true)) !== undefined) {
+                status = "fuzzy";
+            }
+            if (at === undefined) continue;
+
+            // Walk the hunk: context keeps the file's own text, "-" drops, "+" inserts
+            // (re-indented like the file when the match ignored whitespace)
+            const shift = status === "fuzzy" && expected.length > 0
+                ? (text: string) => reindent([text], indentOf(expected[0]), indentOf(lines[at!]))[0]
+                : (text: string) => text;
+            const replacement: string[] = [];
+            let k = at;
+            for (const l of body) {
+                if (l.op === " ") replacement.push(lines[k++]);
+                else if (l.op === "-") k++;
+                else replacement.push(shift(l.text));
+            }
+            lines.splice(at, expected.length, ...replacement);
+
+            result.status = fuzz > 0 ? "fuzzy" : status;
+            result.line = at + 1;
+            delta = at - expectedAt + (replacement.length - expected.length);
+            cursor = at + replacement.length;
+        }
+
+        if (result.status === "failed") {
+            const first = hunk.lines.find(l => l.op !== "+");
+            result.reason = `context not found near line ${hunk.oldStart + delta}${first ? ` (expected: "${first.text.trim().slice(0, 80)}")` : ""}`;
+        }
+    });
+
+    return { lines, results, ok: results.every(r => r.status !== "failed") };
+}
+
+function leadingContext(lines: HunkLine[]): number {
+    let n = 0;
+    while (n < lines.length && lines[n].op === " ") n++;
+    return n;
+}
+
+function trailingContext(lines: HunkLine[]): number {
+    let n = 0;
+    while (n < lines.length && lines[lines.length - 1 - n].op === " ") n++;
+    return n;
+}
+
+// ─── Multi Edit ───
+
+/**
+ * Apply edits in order to `content`. An edit whose target isn't found
+ * exactly falls back to a whitespace-insensitive match over whole lines;
+ * a target matching several places needs `replaceAll`.
+ */
+export function applyEdits(content: string, edits: TextEdit[]): { content: string; results: EditResult[]; ok: boolean } {
+    let current = content;
+    const results: EditResult[] = edits.map((edit, i): EditResult => {
+        const index = i + 1;
+        if (!edit.targetStr) return { index, status: "failed", reason: "empty targetStr" };
+        if (edit.targetStr === edit.replacementStr) return { index, status: "failed", reason: "targetStr and replacementStr are identical" };
+
+        const count = current.split(edit.targetStr).length - 1;
+        if (count > 1 && !edit.replaceAll) {
+            return { index, status: "failed", reason: `targetStr matches ${count} times, add surrounding lines to make it unique or set replaceAll` };
+        }
+        if (count > 0) {
+            current = edit.replaceAll ? current.split(edit.targetStr).join(edit.replacementStr) : current.replace(edit.targetStr, () => edit.replacementStr);
+            return { index, status: "applied", count: edit.replaceAll ? count : 1 };
+        }
+
+        // Whitespace drift: compare whole lines, indentation and spacing ignored
+        const eol = current.includes("\r\n") ? "\r\n" : "\n";
+        const fileLines = current.split(/\r?\n/);
+        const expected = edit.targetStr.replace(/\r\n/g, "\n").replace(/^\n+|\n+$/g, "").split("\n");
+        const matches: number[] = [];
+        for (let at = 0; at + expected.length <= fileLines.length; at++) {
+            if (matchesAt(fileLines, at, expected, true)) matches.push(at);
+        }
+        if (matches.length === 0) {
+            return { index, status: "failed", reason: `targetStr not found (first line: "${expected[0].trim().slice(0, 80)}")` };
+        }
+        if (matches.length > 1 && !edit.replaceAll) {
+            return { index, status: "failed", reason: `targetStr matches ${matches.length} places ignoring whitespace, add surrounding lines or set replaceAll` };
+        }
+        const replacement = edit.replacementStr.replace(/\r\n/g, "\n").replace(/^\n+|\n+$/g, "").split("\n");
+        for (const at of [...matches].reverse()) {
+            fileLines.splice(at, expected.length, ...reindent(replacement, indentOf(expected[0]), indentOf(fileLines[at])));
+        }
+        current = fileLines.join(eol);
+        return { index, status: "fuzzy", count: matches.length };
+    });
+    return { content: current, results, ok: results.every(r => r.status !== "failed") };
+}
+
+// ─── Workspace Tools ───
+
+const splitLines = (content: string) => {
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const trailingNewline = content.endsWith("\n");
+    const lines = content.length === 0 ? [] : content.replace(/\r?\n$/, "").split(/\r?\n/);
+    return { lines, eol, trailingNewline };
+};
+
+const describeHunk = (file: string, r: HunkResult) =>
+    `  ${r.status === "failed" ? "✗" : "✓"} ${file} hunk ${r.index} ${r.header}: ${r.status}${r.line ? ` at line ${r.line}` : ""}${r.reason ? ` — ${r.reason}` : ""}`;
+
+/** Files a patch touches, workspace-relative (used to track the agent's working set). */
+export function patchedPaths(patch: string): string[] {
+    try {
+        return [...new Set(parseUnifiedDiff(patch).flatMap(f => [f.newPath ?? f.oldPath].filter((p): p is string => !!p)))];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * `apply_patch` tool: apply a unified diff inside the workspace. Nothing
+ * is written unless every hunk of every file applies.
+ */
+export async function applyPatchToWorkspace(cwd: string, patch: string): Promise<string> {
+    let files: FilePatch[];
+    try {
+        files = parseUnifiedDiff(patch);
+    } catch (err: any) {
+        return `Error: invalid patch: ${err.message}`;
+    }
+    if (files.length === 0) return "Error: invalid patch: no file header (--- a/path, +++ b/path) found";
+
+    const writes: { target: string; content?: string }[] = [];  // content undefined = delete
+    const report: string[] = [];
+    let failed = 0;
+
+    for (const file of files) {
+        const name = file.newPath ?? file.oldPath;
+        if (!name) { failed++; report.push("  ✗ /dev/null → /dev/null: nothing to apply"); continue; }
+        const target = await resolveWorkspacePath(cwd, name, "write");
+        const source = file.oldPath && file.oldPath !== name ? await resolveWorkspacePath(cwd, file.oldPath, "write") : target;
+        const existing = await fs.readFile(source, "utf-8").catch(() => undefined);
+
+        if (!file.newPath) {
+            if (existing === undefined) { failed++; report.push(`  ✗ ${name}: cannot delete, file not found`); continue; }
+            writes.push({ target });
+            report.push(`  ✓ ${name}: deleted`);
+            continue;
+        }
+        if (!file.oldPath) {
+            if (existing !== undefined && existing.trim() !== "") { failed++; report.push(`  ✗ ${name}: cannot create, file already exists`); continue; }
+            const added = file.hunks.flatMap(h => h.lines.filter(l => l.op !== "-").map(l => l.text));
+            writes.push({ target, content: added.join("\n") + "\n" });
+            report.push(`  ✓ ${name}: created (${added.length} lines)`);
+            continue;
+        }
+        if (existing === undefined) { failed++; report.push(`  ✗ ${name}: file not found`); continue; }
+
+        const { lines, eol, trailingNewline } = splitLines(existing);
+        const applied = applyHunks(lines, file.hunks);
+        report.push(...applied.results.map(r => describeHunk(name, r)));
+        if (!applied.ok) { failed += applied.results.filter(r => r.status === "failed").length; continue; }
+
+        writes.push({ target, content: applied.lines.join(eol) + (trailingNewline ? eol : "") });
+        if (source !== target) {
+            writes.push({ target: source });
+            report.push(`  ✓ ${file.oldPath} → ${file.newPath}: renamed`);
+        }
+    }
+
+    if (failed > 0) {
+        return `Error: patch not applied, ${failed} failure(s); no file was changed. Re-read the file and send a corrected patch.\n${report.join("\n")}`;
+    }
+    for (const w of writes) {
+        if (w.content === undefined) {
+            await fs.rm(w.target, { force: true });
+        } else {
+            await fs.mkdir(path.dirname(w.target), { recursive: true });
+            await fs.writeFile(w.target, w.content, "utf-8");
+        }
+    }
+    return `Patch applied to ${files.length} file(s):\n${report.join("\n")}`;
+}
+
+/**
+ * `multi_edit` tool: apply several replacements to one file, all or nothing.
+ */
+export async function multiEditFile(cwd: string, filePath: string, edits: TextEdit[]): Promise<string> {
+    if (!Array.isArray(edits) || edits.length === 0) return "Error: edits must be a non-empty array";
+    const target = await resolveWorkspacePath(cwd, filePath, "write");
+    const content = await fs.readFile(target, "utf-8");
+    const applied = applyEdits(content, edits);
+    const report = applied.results.map(r =>
+        `  ${r.status === "failed" ? "✗" : "✓"} edit ${r.index}: ${r.status}${r.count ? ` (${r.count} replacement${r.count > 1 ? "s" : ""})` : ""}${r.reason ? ` — ${r.reason}` : ""}`);
+
+    if (!applied.ok) {
+        const failed = applied.results.filter(r => r.status === "failed").length;
+        return `Error: ${failed} of ${edits.length} edit(s) failed; ${filePath} was not changed.\n${report.join("\n")}`;
+    }
+    await fs.writeFile(target, applied.content, "utf-8");
+    return `Applied ${edits.length} edit(s) to ${filePath}:\n${report.join("\n")}`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Path Guard — confines the agent file tools to the pipeline workspace.
+ * Paths are resolved through symlinks (a link pointing outside is an escape)
+ * and some zones are read-only (AGENT_READ_ONLY_PATHS, default `.git`).
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+// ─── Types ───
+
+export type PathAccess = "read" | "write";
+
+export type PathDenialReason = "outside_workspace" | "symlink_escape" | "read_only";
+
+export class PathDeniedError extends Error {
+    constructor(
+        public readonly reason: PathDenialReason,
+        public readonly requestedPath: string,
+        public readonly access: PathAccess,
+    ) {
+        super(`Access denied (${reason}): ${requestedPath}`);
+        this.name = "PathDeniedError";
+    }
+}
+
+// ─── Config ───
+
+/** Workspace-relative prefixes the agent may read but not write. */
+export function getReadOnlyPaths(): string[] {
+    const raw = process.env.AGENT_READ_ONLY_PATHS ?? ".git";
+    return raw.split(",").map(s => s.trim().replace(/^\.\/+|\/+$/g, "")).filter(Boolean);
+}
+
+// ─── Resolution ───
+
+const isInside = (root: string, target: string) => {
+    const rel = path.relative(root, target);
+    return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+};
+
+/**
+ * Real path of `target`: the deepest existing ancestor is resolved through
+ * symlinks and the missing tail appended, so files about to be created are
+ * checked against where they would really land.
+ */
+async function realTarget(target: string): Promise<string> {
+    let existing = target;
+    const tail: string[] = [];
+    for (; ;) {
+        try {
+            return path.join(await fs.realpath(existing), ...tail.reverse());
+        } catch {
+            const parent = path.dirname(existing);
+            if (parent === existing) return target;
+            tail.push(path.basename(existing));
+            existing = parent;
+        }
+    }
+}
+
+/**
+ * Resolve a tool path relative to the workspace, or throw PathDeniedError
+ * when it leaves the workspace (lexically or through a symlink) or writes
+ * into a read-only zone.
+ */
+export async function resolveWorkspacePath(workspace: string, requested: string, access: PathAccess): Promise<string> {
+    const root = path.resolve(workspace);
+    const lexical = path.resolve(root, requested);
+    if (!isInside(root, lexical)) throw new PathDeniedError("outside_workspace", requested, access);
+
+    const realRoot = await fs.realpath(root).catch(() => root);
+    const real = await realTarget(lexical);
+    if (!isInside(realRoot, real)) throw new PathDeniedError("symlink_escape", requested, access);
+
+    if (access === "write") {
+        const rels = [path.relative(root, lexical), path.relative(realRoot, real)].map(r => r.split(path.sep).join("/"));
+        const readOnly = getReadOnlyPaths().some(zone => rels.some(rel => rel === zone || rel.startsWith(zone + "/")));
+        if (readOnly) throw new PathDeniedError("read_only", requested, access);
+    }
+
+    return lexical;
+}
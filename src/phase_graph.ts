@@ -0,0 +1,185 @@
+/**
+ * Phase Graph — declarative description of the steps a pipeline run goes
+ * through. Each node points to a registered handler and declares the
+ * artifacts it needs and produces, its retry policy and where to go next.
+ * Templates pick (or define) a flow, so custom pipelines don't need to fork
+ * the orchestrator.
+ */
+
+import { isDokployConfigured } from "./dokploy.js";
+import type { ApprovalGate, Pipeline } from "./orchestrator.js";
+import type { QueuedRun, QueuedRunKind } from "./run_queue.js";
+
+// ─── Types ───
+
+export type RetryPolicy = {
+    maxAttempts: number;       // 1 = no retry
+    backoffMs?: number;        // delay before each new attempt
+};
+
+export type NextRule = {
+    to: string;                // node id, or END
+    when?: string;             // condition name (see PHASE_CONDITIONS), "!" negates
+};
+
+export type PhaseNode = {
+    id: string;                // checkpoint key; built-in nodes reuse the PipelinePhase names
+    handler: string;           // name of a registered PhaseHandler
+    inputs?: string[];         // artifacts that must exist before the node runs
+    outputs?: string[];        // artifacts the node must have produced
+    retry?: RetryPolicy;
+    when?: string;             // skip the node unless this condition holds
+    gate?: ApprovalGate;       // park for human approval after the node
+    checkpoint?: boolean;      // default true: mark done, skip on resume
+    next?: string | NextRule[]; // default: the following node in the list
+};
+
+export type PhaseFlow = {
+    id: string;
+    description?: string;
+    nodes: PhaseNode[];        // the first node is the entry point
+};
+
+export type PhaseContext = {
+    pipeline: Pipeline;
+    run: QueuedRun;
+    node: PhaseNode;
+    signal?: AbortSignal;
+};
+
+export type PhaseHandler = (ctx: PhaseContext) => Promise<void>;
+
+export const END = "END";
+
+// ─── Conditions ───
+
+export const PHASE_CONDITIONS: Record<string, (p: Pipeline) => boolean> = {
+    github: p => !!p.github,
+    deployed: p => !!p.dokploy,
+    // Dokploy is configured and the project has a repo but no apps yet
+    deployable: p => isDokployConfigured() && !!p.github && !p.dokploy,
+    staticSite: p => p.services.length > 0 && p.services.every(s => s.type === "static"),
+};
+
+export function checkCondition(name: string, pipeline: Pipeline): boolean {
+    const negate = name.startsWith("!");
+    const predicate = PHASE_CONDITIONS[negate ? name.slice(1) : name];
+    if (!predicate) throw new Error(`Unknown phase condition: ${name}`);
+    return negate ? !predicate(pipeline) : predicate(pipeline);
+}
+
+// ─── Built-in Flows ───
+
+export const DEFAULT_FLOW: PhaseFlow = {
+    id: "default",
+    description: "Analysis → Architecture → Scaffold → Security → Deploy → Development → Security → QA",
+    nodes: [
+        { id: "ANALYSIS", handler: "analysis", outputs: ["analysis"], gate: "analysis" },
+        { id: "ARCHITECTURE", handler: "architecture", inputs: ["analysis"], outputs: ["architecture"], gate: "architecture" },
+        { id: "SCAFFOLD", handler: "scaffold", inputs: ["architecture"] },
+        { id: "SECURITY", handler: "security", outputs: ["security"] },
+        { id: "DEPLOYING", handler: "deploy", when: "deployable" },
+        { id: "DEVELOPMENT", handler: "development", inputs: ["architecture"], outputs: ["features"] },
+        { id: "SECURITY_FINAL", handler: "security", outputs: ["security"] },
+        { id: "QA", handler: "qa" },
+    ],
+};
+
+export const STATIC_SITE_FLOW: PhaseFlow = {
+    id: "static-site",
+    description: "Static sites skip the Architect: features come straight from the PRD",
+    nodes: [
+        { id: "ANALYSIS", handler: "analysis", outputs: ["analysis"], gate: "analysis" },
+        { id: "SCAFFOLD", handler: "scaffold", inputs: ["analysis"] },
+        { id: "SECURITY", handler: "security", outputs: ["security"] },
+        { id: "DEPLOYING", handler: "deploy", when: "deployable" },
+        { id: "DEVELOPMENT", handler: "development", inputs: ["analysis"], outputs: ["features"] },
+        { id: "SECURITY_FINAL", handler: "security", outputs: ["security"] },
+        { id: "QA", handler: "qa" },
+    ],
+};
+
+// Resume an already deployed project from its feature ledger
+export const DEVELOPMENT_FLOW: PhaseFlow = {
+    id: "development",
+    nodes: [
+        { id: "DEVELOPMENT", handler: "development", outputs: ["features"] },
+        { id: "SECURITY_FINAL", handler: "security", outputs: ["security"] },
+        { id: "QA", handler: "qa" },
+    ],
+};
+
+// Modifications and feature re-runs are one-off: they never touch the checkpoint
+export const MODIFICATION_FLOW: PhaseFlow = {
+    id: "modification",
+    nodes: [
+        { id: "MODIFICATION", handler: "modification", checkpoint: false },
+        { id: "MODIFICATION_QA", handler: "modification-qa", checkpoint: false },
+    ],
+};
+
+export const FEATURE_FLOW: PhaseFlow = {
+    id: "feature",
+    nodes: [
+        { id: "FEATURE", handler: "feature", inputs: ["features"], checkpoint: false },
+    ],
+};
+
+export const BUILTIN_FLOWS: PhaseFlow[] = [DEFAULT_FLOW, STATIC_SITE_FLOW, DEVELOPMENT_FLOW, MODIFICATION_FLOW, FEATURE_FLOW];
+
+// Flow used for each kind of queued run unless the template overrides it ("pipeline" only)
+export const FLOW_FOR_RUN_KIND: Record<QueuedRunKind, string> = {
+    pipeline: DEFAULT_FLOW.id,
+    development: DEVELOPMENT_FLOW.id,
+    modification: MODIFICATION_FLOW.id,
+    feature: FEATURE_FLOW.id,
+};
+
+// ─── Graph Helpers ───
+
+/**
+ * Structural checks: unique node ids, known handlers/conditions, next
+ * targets that exist. Returns a list of errors, empty when the flow is valid.
+ */
+export function validateFlow(flow: PhaseFlow, handlers: Iterable<string>): string[] {
+    const errors: string[] = [];
+    const known = new Set(handlers);
+    const ids = new Set<string>();
+
+    if (flow.nodes.length === 0) errors.push(`${flow.id}: flow has no nodes`);
+
+    const checkConditionName = (node: PhaseNode, name: string) => {
+        if (!PHASE_CONDITIONS[name.replace(/^!/, "")]) errors.push(`${flow.id}.${node.id}: unknown condition "${name}"`);
+    };
+
+    for (const node of flow.nodes) {
+        if (ids.has(node.id)) errors.push(`${flow.id}: duplicate node id "${node.id}"`);
+        ids.add(node.id);
+        if (!known.has(node.handler)) errors.push(`${flow.id}.${node.id}: unknown handler "${node.handler}"`);
+        if (node.when) checkConditionName(node, node.when);
+        if (node.retry && (!Number.isInteger(node.retry.maxAttempts) || node.retry.maxAttempts < 1)) {
+            errors.push(`${flow.id}.${node.id}: retry.maxAttempts must be an integer >= 1`);
+        }
+    }
+
+    for (const node of flow.nodes) {
+        const rules = typeof node.next === "string" ? [{ to: node.next }] : node.next ?? [];
+        for (const rule of rules) {
+            if (rule.to !== END && !ids.has(rule.to)) errors.push(`${flow.id}.${node.id}: next node "${rule.to}" does not exist`);
+            if (rule.when) checkConditionName(node, rule.when);
+        }
+    }
+
+    return errors;
+}
+
+/** Id of the node to run after `node`, or undefined when the flow is over. */
+export function nextNodeId(flow: PhaseFlow, node: PhaseNode, pipeline: Pipeline): string | undefined {
+    if (node.next === undefined) {
+        const idx = flow.nodes.findIndex(n => n.id === node.id);
+        return flow.nodes[idx + 1]?.id;
+    }
+    const rules = typeof node.next === "string" ? [{ to: node.next }] : node.next;
+    const rule = rules.find(r => !r.when || checkCondition(r.when, pipeline));
+    return !rule || rule.to === END ? undefined : rule.to;
+}
@@ -0,0 +1,168 @@
+/**
+ * Preflight — local build verification run before pushing to GitHub, so a
+ * broken Dockerfile or build is fixed by the Debugger without a Dokploy
+ * round-trip. PREFLIGHT selects how far it goes:
+ *   off     no local check (default)
+ *   lint    static Dockerfile checks (plus hadolint when installed)
+ *   build   lint + `npm run build` / `pip install --dry-run`
+ *   docker  lint + `docker build` of each service
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { runCommand } from "./test_runner.js";
+
+// ─── Types ───
+
+export type PreflightMode = "off" | "lint" | "build" | "docker";
+
+export const PREFLIGHT_MODES: PreflightMode[] = ["off", "lint", "build", "docker"];
+
+export type PreflightStep = "dockerfile" | "hadolint" | "npm-build" | "pip" | "docker-build";
+
+export type PreflightResult = {
+    service: string;
+    ok: boolean;
+    failedStep?: PreflightStep;
+    steps: PreflightStep[];    // steps that ran, in order
+    output?: string;           // problems or the failing command's output
+    durationMs: number;
+};
+
+// ─── Config ───
+
+export function getPreflightMode(): PreflightMode {
+    const raw = (process.env.PREFLIGHT || "off").toLowerCase();
+    return PREFLIGHT_MODES.includes(raw as PreflightMode) ? raw as PreflightMode : "off";
+}
+
+export const getPreflightTimeoutMs = () => Math.max(10_000, Number(process.env.PREFLIGHT_TIMEOUT_MS) || 600_000);
+
+// ─── Dockerfile Lint ───
+
+/**
+ * Cheap static checks on a Dockerfile: it exists, starts from an image and
+ * only COPYs files that exist in the build context (the service directory).
+ */
+export async function lintDockerfile(serviceDir: string): Promise<string[]> {
+    const content = await fs.readFile(path.join(serviceDir, "Dockerfile"), "utf-8").catch(() => undefined);
+    if (content === undefined) return ["Dockerfile: fichier manquant"];
+
+    const problems: string[] = [];
+    // Join backslash continuations, keeping the line number of the first physical line
+    const lines: { line: string; i: number }[] = [];
+    let pending: { line: string; i: number } | undefined;
+    for (const [i, raw] of content.split(/\r?\n/).entries()) {
+        const current = pending ? { line: `${pending.line} ${raw}`, i: pending.i } : { line: raw, i };
+        if (raw.endsWith("\\")) {
+            pending = { line: current.line.slice(0, -1), i: current.i };
+        } else {
+            lines.push(current);
+            pending = undefined;
+        }
+    }
+    if (pending) lines.push(pending);
+
+    let sawFrom = false;
+
+    for (const { line: raw, i } of lines) {
+        const line = raw.trim();
+        if (!line || line.startsWith("#")) continue;
+        const [instruction, ...rest] = line.split(/\s+/);
+        const upper = instruction.toUpperCase();
+
+        if (!sawFrom && upper !== "FROM" && upper !== "ARG") {
+            problems.push(`Dockerfile:${i + 1}: ${upper} avant FROM`);
+        }
+        if (upper === "FROM") {
+            sawFrom = true;
+            continue;
+        }
+        if (upper !== "COPY" && upper !== "ADD") continue;
+
+        // Multi-stage copies and JSON-form arguments are not checked
+        if (rest.some(r => r.startsWith("--from="))) continue;
+        const args = rest.filter(r => !r.startsWith("--"));
+        if (args.length < 2 || args[0].startsWith("[")) continue;
+        for (const source of args.slice(0, -1)) {
+            if (/^https?:\/\//.test(source) || source.includes("$")) continue;
+            if (/[*?]/.test(source)) {
+                // `COPY package*.json ./` only needs one match
+                const dir = path.join(serviceDir, path.dirname(source));
+                const pattern = new RegExp("^" + path.basename(source).replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".") + "$");
+                const entries = await fs.readdir(dir).catch(() => [] as string[]);
+                if (!entries.some(e => pattern.test(e))) problems.push(`Dockerfile:${i + 1}: ${upper} ${source} — aucun fichier correspondant`);
+            } else if (source !== "." && !await fs.access(path.join(serviceDir, source)).then(() => true, () => false)) {
+                problems.push(`Dockerfile:${i + 1}: ${upper} ${source} — fichier introuvable`);
+            }
+        }
+    }
+
+    if (!sawFrom) problems.push("Dockerfile: instruction FROM manquante");
+    return problems;
+}
+
+// ─── Service Preflight ───
+
+async function readJson(file: string): Promise<any | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(file, "utf-8"));
+    } catch {
+        return undefined;
+    }
+}
+
+/** Run the checks of `mode` for one service directory, stopping at the first failure. */
+export async function preflightService(service: string, serviceDir: string, mode: PreflightMode, signal?: AbortSignal): Promise<PreflightResult> {
+    const startedAt = Date.now();
+    const steps: PreflightStep[] = [];
+    const done = (failedStep?: PreflightStep, output?: string): PreflightResult => ({
+        service,
+        ok: !failedStep,
+        failedStep,
+        steps,
+        output,
+        durationMs: Date.now() - startedAt,
+    });
+    const timeoutMs = getPreflightTimeoutMs();
+
+    const run = async (step: PreflightStep, command: string, sandboxed = true) => {
+        steps.push(step);
+        const result = await runCommand(command, serviceDir, { timeoutMs, signal, sandboxed });
+        if (result.exitCode === 0 && !result.timedOut) return undefined;
+        return result.timedOut ? `${result.output}\n(timeout après ${Math.round(timeoutMs / 1000)}s)` : result.output;
+    };
+
+    steps.push("dockerfile");
+    const problems = await lintDockerfile(serviceDir);
+    if (problems.length > 0) return done("dockerfile", problems.join("\n"));
+
+    const hadolint = await runCommand("command -v hadolint", serviceDir, { timeoutMs: 5000 });
+    if (hadolint.exitCode === 0) {
+        const output = await run("hadolint", "hadolint --failure-threshold error Dockerfile");
+        if (output !== undefined) return done("hadolint", output);
+    }
+
+    if (mode === "build") {
+        const pkg = await readJson(path.join(serviceDir, "package.json"));
+        if (pkg?.scripts?.build) {
+            const output = await run("npm-build", "([ -d node_modules ] || npm install --no-audit --no-fund --loglevel=error) && npm run build");
+            if (output !== undefined) return done("npm-build", output);
+        }
+        const hasRequirements = await fs.access(path.join(serviceDir, "requirements.txt")).then(() => true, () => false);
+        if (hasRequirements) {
+            const output = await run("pip", "pip install --dry-run -q -r requirements.txt");
+            if (output !== undefined) return done("pip", output);
+        }
+    }
+
+    if (mode === "docker") {
+        const tag = `preflight-${service.toLowerCase().replace(/[^a-z0-9_.-]/g, "-")}:latest`;
+        // Needs the Docker daemon: runs outside the sandbox, the build itself is isolated by Docker
+        const output = await run("docker-build", `docker build -q -t ${tag} . && docker image rm ${tag} >/dev/null`, false);
+        if (output !== undefined) return done("docker-build", output);
+    }
+
+    return done();
+}
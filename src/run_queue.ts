@@ -0,0 +1,216 @@
+/**
+ * Run Queue — durable FIFO of pipeline runs waiting for an execution slot.
+ * Persisted as JSON so queued work survives a container restart, and
+ * enforces a global concurrency cap plus optional per-phase limits
+ * (e.g. only one pipeline DEPLOYING at a time).
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+// ─── Types ───
+
+export type QueuedRunKind = "pipeline" | "modification" | "development" | "feature";
+
+export type QueuedRun = {
+    pipelineId: string;
+    kind: QueuedRunKind;
+    enqueuedAt: string;
+    instructions?: string;     // only for "modification"
+    files?: AttachedFile[];    // only for "modification": dropped from the queue file once dequeued
+    featureIndex?: number;     // only for "feature"
+};
+
+export type AttachedFile = { base64: string; type: string };
+
+export type RunQueueOptions = {
+    concurrency: number;
+    phaseLimits: Record<string, number>;
+};
+
+type PhaseWaiter = {
+    pipelineId: string;
+    resolve: () => void;
+    reject: (err: Error) => void;
+};
+
+// ─── Config ───
+
+/**
+ * Parse "DEPLOYING=1,DEVELOPMENT=3" into { DEPLOYING: 1, DEVELOPMENT: 3 }.
+ */
+export function parsePhaseLimits(raw: string): Record<string, number> {
+    const limits: Record<string, number> = {};
+    for (const part of raw.split(",")) {
+        const [phase, value] = part.split("=").map(s => s.trim());
+        const n = Number(value);
+        if (phase && Number.isInteger(n) && n > 0) limits[phase.toUpperCase()] = n;
+    }
+    return limits;
+}
+
+export function getRunQueueOptions(): RunQueueOptions {
+    const concurrency = Number(process.env.MAX_CONCURRENT_PIPELINES || 2);
+    return {
+        concurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 2,
+        phaseLimits: parsePhaseLimits(process.env.PHASE_CONCURRENCY ?? "DEPLOYING=1"),
+    };
+}
+
+function abortError(phase: string): Error {
+    const err = new Error(`Phase slot wait cancelled (${phase})`);
+    err.name = "AbortError";
+    return err;
+}
+
+// ─── Queue ───
+
+export class RunQueue {
+    private filePath: string;
+    private items: QueuedRun[] = [];
+    private phaseHolders: Map<string, Set<string>> = new Map();
+    private phaseWaiters: Map<string, PhaseWaiter[]> = new Map();
+    private saving: Promise<void> = Promise.resolve();
+    readonly options: RunQueueOptions;
+
+    constructor(filePath: string, options: RunQueueOptions = getRunQueueOptions()) {
+        this.filePath = filePath;
+        this.options = options;
+    }
+
+    async load(): Promise<QueuedRun[]> {
+        try {
+            const raw = await fs.readFile(this.filePath, "utf-8");
+            const parsed = JSON.parse(raw);
+            this.items = Array.isArray(parsed) ? parsed : [];
+        } catch {
+            this.items = [];
+        }
+        return this.list();
+    }
+
+    /** Serialize writes so concurrent mutations never race on the tmp file. */
+    private persist(): Promise<void> {
+        this.saving = this.saving.then(() => this.save());
+        return this.saving;
+    }
+
+    private async save() {
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmp = `${this.filePath}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(this.items, null, 2), "utf-8");
+            await fs.rename(tmp, this.filePath);
+        } catch (err) {
+            console.warn("[RunQueue] Failed to save queue:", err);
+        }
+    }
+
+    list(): QueuedRun[] {
+        return [...this.items];
+    }
+
+    has(pipelineId: string): boolean {
+        return this.items.some(r => r.pipelineId === pipelineId);
+    }
+
+    /** 1-based position, or undefined if the pipeline is not queued. */
+    position(pipelineId: string): number | undefined {
+        const idx = this.items.findIndex(r => r.pipelineId === pipelineId);
+        return idx === -1 ? undefined : idx + 1;
+    }
+
+    async enqueue(run: Omit<QueuedRun, "enqueuedAt">): Promise<number> {
+        // One pending run per pipeline: a newer request replaces the older one in place
+        const existing = this.items.findIndex(r => r.pipelineId === run.pipelineId);
+        const item: QueuedRun = { ...run, enqueuedAt: new Date().toISOString() };
+        if (existing === -1) this.items.push(item);
+        else this.items[existing] = item;
+        await this.persist();
+        return this.position(run.pipelineId)!;
+    }
+
+    /**
+     * Remove and return the first queued run matching `predicate`.
+     * Synchronous so callers can check slots and dequeue atomically.
+     */
+    take(predicate: (run: QueuedRun) => boolean = () => true): QueuedRun | undefined {
+        const idx = this.items.findIndex(predicate);
+        if (idx === -1) return undefined;
+        const [next] = this.items.splice(idx, 1);
+        void this.persist();
+        return next;
+    }
+
+    async remove(pipelineId: string): Promise<boolean> {
+        const before = this.items.length;
+        this.items = this.items.filter(r => r.pipelineId !== pipelineId);
+        if (this.items.length === before) return false;
+        await this.persist();
+        return true;
+    }
+
+    // ─── Per-phase slots ───
+
+    /** True when entering `phase` would make this pipeline wait for a slot. */
+    isPhaseFull(phase: string, pipelineId: string): boolean {
+        const limit = this.options.phaseLimits[phase];
+        if (limit === undefined) return false;
+        const holders = this.phaseHolders.get(phase);
+        if (!holders) return false;
+        const others = holders.size - (holders.has(pipelineId) ? 1 : 0);
+        return others >= limit;
+    }
+
+    /**
+     * Wait until the pipeline may enter `phase`. A pipeline holds at most one
+     * phase slot: acquiring a new one releases the previous one first.
+     */
+    acquirePhase(phase: string, pipelineId: string, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) return Promise.reject(abortError(phase));
+        this.releasePhase(pipelineId);
+
+        const limit = this.options.phaseLimits[phase];
+        if (limit === undefined) return Promise.resolve();
+
+        const holders = this.phaseHolders.get(phase) ?? new Set<string>();
+        this.phaseHolders.set(phase, holders);
+        if (holders.size < limit) {
+            holders.add(pipelineId);
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const waiters = this.phaseWaiters.get(phase) ?? [];
+            const waiter: PhaseWaiter = { pipelineId, resolve, reject };
+            waiters.push(waiter);
+            this.phaseWaiters.set(phase, waiters);
+
+            signal?.addEventListener("abort", () => {
+                this.cancelPhaseWait(pipelineId);
+            }, { once: true });
+        });
+    }
+
+    releasePhase(pipelineId: string) {
+        for (const [phase, holders] of this.phaseHolders) {
+            if (!holders.delete(pipelineId)) continue;
+
+            const waiters = this.phaseWaiters.get(phase) ?? [];
+            const next = waiters.shift();
+            if (next) {
+                holders.add(next.pipelineId);
+                next.resolve();
+            }
+        }
+    }
+
+    cancelPhaseWait(pipelineId: string) {
+        for (const [phase, waiters] of this.phaseWaiters) {
+            const idx = waiters.findIndex(w => w.pipelineId === pipelineId);
+            if (idx === -1) continue;
+            const [waiter] = waiters.splice(idx, 1);
+            waiter.reject(abortError(phase));
+        }
+    }
+}
@@ -0,0 +1,293 @@
+/**
+ * Sandbox — isolation for commands run on behalf of a generated project (the
+ * agent `bash` tool, QA tests, pre-flight builds). SANDBOX selects the level:
+ *   off    full orchestrator environment (legacy behaviour)
+ *   env    env allowlist + resource limits (default when not root). Commands
+ *          keep the orchestrator's uid: they can still read its environment
+ *          through /proc, its .env and /data, so this is no secret isolation
+ *   user   env + per-pipeline unprivileged uid, workspace chmod 700 (needs root;
+ *          default as root without bubblewrap)
+ *   bwrap  user + bubblewrap namespaces: only the pipeline workspace is
+ *          visible read-write, secrets directories are masked, optional no-network
+ *          (default as root when bwrap is installed)
+ */
+
+import { accessSync, constants as fsConstants, promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import crypto from "node:crypto";
+import { spawn, type SpawnOptions } from "node:child_process";
+
+// ─── Types ───
+
+export type SandboxMode = "off" | "env" | "user" | "bwrap";
+
+export const SANDBOX_MODES: SandboxMode[] = ["off", "env", "user", "bwrap"];
+
+export type SandboxConfig = {
+    mode: SandboxMode;
+    envAllow: string[];
+    network: "allow" | "deny";
+    cpuSeconds: number;        // per-process CPU time (ulimit -t), 0 = unlimited
+    memoryMb: number;          // per-process virtual memory (ulimit -v), 0 = unlimited
+    maxProcesses: number;      // ulimit -u, 0 = unlimited; not enforced for root
+    uidBase: number;           // first uid used for per-pipeline users
+};
+
+export type SandboxRunOptions = {
+    timeoutMs: number;
+    signal?: AbortSignal;
+    env?: Record<string, string>;   // extra variables, always passed through
+};
+
+export type SandboxResult = {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+    timedOut: boolean;
+};
+
+// ─── Config ───
+
+// Variables a build or test run legitimately needs; everything else (API keys, tokens) is dropped
+const DEFAULT_ENV_ALLOW = [
+    "PATH", "LANG", "LC_ALL", "LC_CTYPE", "TERM", "TZ",
+    "HTTP_PROXY", "HTTPS_PROXY", "NO_PROXY", "http_proxy", "https_proxy", "no_proxy",
+    "NPM_CONFIG_REGISTRY", "PIP_INDEX_URL", "PIP_EXTRA_INDEX_URL",
+];
+
+// Directories masked in bwrap mode: orchestrator state, credentials, mounted secrets
+const MASKED_DIRS = ["/data", "/root", "/run/secrets"];
+
+const MAX_OUTPUT = 200_000;
+
+const getWorkspaceRoot = () => process.env.WORKSPACE_ROOT || "/workspace";
+
+const toInt = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+};
+
+const isRoot = () => typeof process.getuid === "function" && process.getuid() === 0;
+
+let bwrapInstalled: boolean | undefined;
+function hasBwrap(): boolean {
+    bwrapInstalled ??= (process.env.PATH || "").split(path.delimiter).filter(Boolean).some(dir => {
+        try {
+            accessSync(path.join(dir, "bwrap"), fsConstants.X_OK);
+            return true;
+        } catch {
+            return false;
+        }
+    });
+    return bwrapInstalled;
+}
+
+/** Strongest level available: a separate uid needs root, namespaces need bwrap. */
+function defaultMode(): SandboxMode {
+    if (!isRoot()) return "env";
+    return hasBwrap() ? "bwrap" : "user";
+}
+
+export function getSandboxConfig(): SandboxConfig {
+    const raw = (process.env.SANDBOX || "").toLowerCase();
+    const extra = (process.env.SANDBOX_ENV_ALLOW || "").split(",").map(s => s.trim()).filter(Boolean);
+    return {
+        mode: SANDBOX_MODES.includes(raw as SandboxMode) ? raw as SandboxMode : defaultMode(),
+        envAllow: [...DEFAULT_ENV_ALLOW, ...extra],
+        network: (process.env.SANDBOX_NETWORK || "allow").toLowerCase() === "deny" ? "deny" : "allow",
+        cpuSeconds: toInt(process.env.SANDBOX_CPU_SECONDS, 600),
+        memoryMb: toInt(process.env.SANDBOX_MEMORY_MB, 0),
+        maxProcesses: toInt(process.env.SANDBOX_MAX_PROCESSES, 512),
+        uidBase: toInt(process.env.SANDBOX_UID_BASE, 20000),
+    };
+}
+
+// ─── Helpers ───
+
+/**
+ * Pipeline workspace containing `cwd` (/workspace/<id>), or `cwd` itself
+ * when it lives outside WORKSPACE_ROOT.
+ */
+export function resolveWorkspace(cwd: string): string {
+    const root = path.resolve(getWorkspaceRoot());
+    const rel = path.relative(root, path.resolve(cwd));
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return path.resolve(cwd);
+    return path.join(root, rel.split(path.sep)[0]);
+}
+
+/** Stable unprivileged uid for a workspace, so pipelines cannot read each other's files. */
+export function sandboxUid(workspace: string, config: SandboxConfig = getSandboxConfig()): number {
+    const hash = crypto.createHash("sha256").update(path.resolve(workspace)).digest().readUInt32BE(0);
+    return config.uidBase + (hash % 40000);
+}
+
+function buildEnv(config: SandboxConfig, home: string, extra?: Record<string, string>): NodeJS.ProcessEnv {
+    if (config.mode === "off") return { ...process.env, HOME: "/root", ...extra };
+    const env: NodeJS.ProcessEnv = {};
+    for (const name of config.envAllow) {
+        if (process.env[name] !== undefined) env[name] = process.env[name];
+    }
+    if (!env.PATH) env.PATH = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+    return { ...env, HOME: home, CI: "true", ...extra };
+}
+
+function limitsPrefix(config: SandboxConfig): string {
+    if (config.mode === "off") return "";
+    const limits: string[] = [];
+    if (config.cpuSeconds > 0) limits.push(`ulimit -t ${config.cpuSeconds}`);
+    // -v, not -d: the data segment limit does not cover mmap'd memory
+    if (config.memoryMb > 0) limits.push(`ulimit -v ${config.memoryMb * 1024}`);
+    // The kernel ignores RLIMIT_NPROC for root
+    const asRoot = config.mode === "env" && isRoot();
+    if (config.maxProcesses > 0 && !asRoot) limits.push(`ulimit -u ${config.maxProcesses}`);
+    return limits.length > 0 ? `${limits.join(" && ")} 2>/dev/null; ` : "";
+}
+
+const warned = new Set<string>();
+function warnOnce(message: string) {
+    if (warned.has(message)) return;
+    warned.add(message);
+    console.warn(`[Sandbox] ${message}`);
+}
+
+/**
+ * Environment for the orchestrator's own git commands (push, status, ls-files).
+ * Workspaces handed to a sandbox uid are no longer owned by the orchestrator,
+ * so git's safe.directory check is lifted for these children only.
+ */
+export function gitCommandEnv(): NodeJS.ProcessEnv {
+    const index = toInt(process.env.GIT_CONFIG_COUNT, 0);
+    return {
+        ...process.env,
+        GIT_CONFIG_COUNT: String(index + 1),
+        [`GIT_CONFIG_KEY_${index}`]: "safe.directory",
+        [`GIT_CONFIG_VALUE_${index}`]: "*",
+    };
+}
+
+/**
+ * Give the workspace to its sandbox uid and close it to everyone else. Files
+ * written since by the orchestrator itself (root) are re-owned on each run.
+ */
+async function prepareWorkspaceOwner(workspace: string, uid: number) {
+    await new Promise<void>((resolve) => {
+        const proc = spawn("find", [workspace, "!", "-user", String(uid), "-exec", "chown", "-h", `${uid}:${uid}`, "{}", "+"], { stdio: "ignore" });
+        proc.on("close", () => resolve());
+        proc.on("error", () => resolve());
+    });
+    await fs.chmod(workspace, 0o700).catch(() => { });
+}
+
+// ─── Command Preparation ───
+
+/**
+ * Translate a shell command into the spawn call for the configured sandbox
+ * level. Exported for callers that stream output themselves.
+ */
+export async function prepareSandboxedCommand(
+    command: string,
+    cwd: string,
+    extraEnv?: Record<string, string>,
+): Promise<{ file: string; args: string[]; options: SpawnOptions }> {
+    const config = getSandboxConfig();
+    let mode = config.mode;
+    const workspace = resolveWorkspace(cwd);
+
+    if ((mode === "user" || mode === "bwrap") && !isRoot()) {
+        warnOnce(`SANDBOX=${mode} needs the orchestrator to run as root, falling back to "env"`);
+        mode = "env";
+    }
+    if (mode === "env") {
+        warnOnce(`SANDBOX=env keeps the orchestrator's uid: commands can read its environment (/proc), .env and /data. SANDBOX=user or bwrap (orchestrator running as root) isolates them`);
+    }
+    if (config.network === "deny" && mode !== "bwrap") {
+        warnOnce(`SANDBOX_NETWORK=deny is only enforced with SANDBOX=bwrap (current: ${mode})`);
+    }
+
+    const home = mode === "off" ? "/root" : path.join(os.tmpdir(), "vibe-sandbox", path.basename(workspace));
+    if (mode !== "off") await fs.mkdir(home, { recursive: true }).catch(() => { });
+
+    const env = buildEnv({ ...config, mode }, home, extraEnv);
+    const script = limitsPrefix({ ...config, mode }) + command;
+    const options: SpawnOptions = { cwd, env, detached: true, stdio: ["ignore", "pipe", "pipe"] };
+
+    if (mode === "off" || mode === "env") {
+        return { file: "bash", args: ["-c", script], options };
+    }
+
+    const uid = sandboxUid(workspace, config);
+    await prepareWorkspaceOwner(workspace, uid);
+    await fs.chown(home, uid, uid).catch(() => { });
+    await fs.chmod(home, 0o700).catch(() => { });
+
+    if (mode === "user") {
+        return { file: "bash", args: ["-c", script], options: { ...options, uid, gid: uid } };
+    }
+
+    // bwrap (started as root): read-only system, masked secrets and other workspaces,
+    // private /tmp and pid namespace; privileges are dropped inside with setpriv
+    const args = [
+        "--ro-bind", "/", "/",
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+        "--tmpfs", path.resolve(getWorkspaceRoot()),
+    ];
+    const masked = [...MASKED_DIRS, process.cwd()]
+        .filter(dir => dir !== "/" && !workspace.startsWith(path.resolve(dir) + path.sep));
+    for (const dir of masked) args.push("--tmpfs", dir);
+    args.push(
+        "--bind", workspace, workspace,
+        "--bind", home, home,
+        "--unshare-all",
+        ...(config.network === "allow" ? ["--share-net"] : []),
+        "--die-with-parent",
+        "--new-session",
+        "--chdir", cwd,
+        "setpriv", "--reuid", String(uid), "--regid", String(uid), "--clear-groups", "--inh-caps=-all",
+        "bash", "-c", script,
+    );
+    return { file: "bwrap", args, options };
+}
+
+// ─── Execution ───
+
+/**
+ * Run a shell command in the sandbox. The whole process tree is killed on
+ * timeout or abort; stdout and stderr are capped.
+ */
+export async function runSandboxed(command: string, cwd: string, options: SandboxRunOptions): Promise<SandboxResult> {
+    let prepared: Awaited<ReturnType<typeof prepareSandboxedCommand>>;
+    try {
+        prepared = await prepareSandboxedCommand(command, cwd, options.env);
+    } catch (err: any) {
+        return { exitCode: 1, stdout: "", stderr: `Sandbox error: ${err.message}`, timedOut: false };
+    }
+
+    return new Promise((resolve) => {
+        const proc = spawn(prepared.file, prepared.args, prepared.options);
+        let stdout = "";
+        let stderr = "";
+        let timedOut = false;
+        const cap = (s: string) => s.length > MAX_OUTPUT ? s.slice(-MAX_OUTPUT) : s;
+        const kill = () => {
+            try { process.kill(-proc.pid!, "SIGKILL"); } catch { /* already exited */ }
+        };
+        const timer = setTimeout(() => { timedOut = true; kill(); }, options.timeoutMs);
+        options.signal?.addEventListener("abort", kill, { once: true });
+
+        proc.stdout?.on("data", (d: Buffer) => { stdout = cap(stdout + d.toString()); });
+        proc.stderr?.on("data", (d: Buffer) => { stderr = cap(stderr + d.toString()); });
+        proc.on("close", (code) => {
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", kill);
+            resolve({ exitCode: code ?? 1, stdout, stderr, timedOut });
+        });
+        proc.on("error", (err) => {
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", kill);
+            resolve({ exitCode: 1, stdout, stderr: `${stderr}Spawn error: ${err.message}`, timedOut: false });
+        });
+    });
+}
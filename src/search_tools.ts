@@ -0,0 +1,310 @@
+/**
+ * Search Tools — let an agent locate code in one turn instead of walking
+ * the tree with list_dir:
+ *   glob_files   recursive glob ("src/**\/*.{ts,tsx}")
+ *   search_code  grep-style content search (regex or literal)
+ * Both skip node_modules / .git and whatever the workspace's .gitignore
+ * files exclude, never follow symlinks, and cap their output. The regex
+ * scan of search_code runs in a worker thread (this module) that is killed
+ * past SEARCH_TIMEOUT_MS, so a catastrophically backtracking pattern can't
+ * block the server.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { Worker, isMainThread, parentPort, workerData } from "node:worker_threads";
+
+import { resolveWorkspacePath } from "./path_guard.js";
+
+// ─── Types ───
+
+export type GlobOptions = {
+    pattern: string;
+    path?: string;             // directory to search, workspace-relative (default ".")
+    limit?: number;
+};
+
+export type SearchOptions = {
+    pattern: string;
+    path?: string;
+    glob?: string;             // only files matching this glob (basename when it has no "/")
+    ignoreCase?: boolean;
+    literal?: boolean;         // pattern is plain text, not a regex
+    contextLines?: number;     // lines shown around each match (0-3)
+    limit?: number;
+};
+
+type IgnoreRule = { regex: RegExp; negate: boolean; dirOnly: boolean; base: string };
+
+type ScanJob = {
+    root: string;
+    files: string[];           // workspace-relative, already filtered by glob
+    source: string;            // regex source
+    flags: string;
+    limit: number;
+    context: number;
+};
+
+type ScanResult = { out: string[]; matches: number; filesWithMatches: number };
+
+// ─── Limits ───
+
+// Skipped even without a .gitignore; build output is left to the .gitignore
+const ALWAYS_IGNORED = new Set(["node_modules", ".git", ".hg", ".svn", "__pycache__", ".venv"]);
+const MAX_FILES_SCANNED = 5000;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_CHARS = 200;
+// Longer lines (minified bundles...) are only matched on their beginning
+const MAX_MATCH_LINE_CHARS = 4000;
+const DEFAULT_GLOB_LIMIT = 200;
+const DEFAULT_SEARCH_LIMIT = 100;
+const SCAN_TASK = "search_code_scan";
+
+export const getSearchTimeoutMs = () => Math.max(100, Number(process.env.SEARCH_TIMEOUT_MS) || 10000);
+
+// ─── Glob Patterns ───
+
+/** Expand "{a,b}" alternatives (one level of nesting is enough for file globs). */
+function expandBraces(pattern: string): string[] {
+    const match = pattern.match(/\{([^{}]*)\}/);
+    if (!match) return [pattern];
+    return match[1].split(",").flatMap(alt => expandBraces(pattern.replace(match[0], alt)));
+}
+
+/** Glob → regex over "/"-separated relative paths: `**` crosses directories, `*` and `?` don't. */
+export function globToRegExp(glob: string): RegExp {
+    const sources = expandBraces(glob).map(g => {
+        let re = "";
+        for (let i = 0; i < g.length; i++) {
+            const c = g[i];
+            if (c === "*" && g[i + 1] === "*") {
+                const slash = g[i + 2] === "/";
+                re += slash ? "(?:.*/)?" : ".*";
+                i += slash ? 2 : 1;
+            } else if (c === "*") re += "[^/]*";
+            else if (c === "?") re += "[^/]";
+            else if (c === "[") {
+                const end = g.indexOf("]", i);
+                if (end === -1) { re += "\\["; continue; }
+                re += "[" + g.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\") + "]";
+                i = end;
+            } else re += c.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+        return re;
+    });
+    return new RegExp(`^(?:${sources.join("|")})$`);
+}
+
+// ─── .gitignore ───
+
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of content.split(/\r?\n/)) {
+        let line = raw.replace(/\s+$/, "");
+        if (!line || line.startsWith("#")) continue;
+        const negate = line.startsWith("!");
+        if (negate) line = line.slice(1);
+        const dirOnly = line.endsWith("/");
+        if (dirOnly) line = line.slice(0, -1);
+        // A pattern with an inner slash is anchored to its .gitignore, otherwise it matches at any depth
+        const anchored = line.includes("/");
+        line = line.replace(/^\//, "");
+        rules.push({ regex: globToRegExp(anchored ? line : `**/${line}`), negate, dirOnly, base });
+    }
+    return rules;
+}
+
+function isIgnored(rules: IgnoreRule[], rel: string, isDir: boolean): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.base && !rel.startsWith(rule.base + "/")) continue;
+        const local = rule.base ? rel.slice(rule.base.length + 1) : rel;
+        if (rule.regex.test(local)) ignored = !rule.negate;
+    }
+    return ignored;
+}
+
+// ─── Walk ───
+
+/**
+ * Files under `dir` (workspace-relative "/" paths), depth-first in name
+ * order, honoring nested .gitignore files. `truncated` when the scan cap hit.
+ */
+async function walkFiles(root: string, dir: string): Promise<{ files: string[]; truncated: boolean }> {
+    const files: string[] = [];
+    let truncated = false;
+
+    const rootRules = await fs.readFile(path.join(root, ".gitignore"), "utf-8").then(c => parseGitignore(c, "")).catch(() => []);
+
+    const visit = async (relDir: string, rules: IgnoreRule[]) => {
+        if (truncated) return;
+        const abs = path.join(root, relDir);
+        if (relDir) {
+            const nested = await fs.readFile(path.join(abs, ".gitignore"), "utf-8").catch(() => undefined);
+            if (nested !== undefined) rules = [...rules, ...parseGitignore(nested, relDir)];
+        }
+        const entries = await fs.readdir(abs, { withFileTypes: true }).catch(() => []);
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            if (entry.isSymbolicLink()) continue;
+            const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (ALWAYS_IGNORED.has(entry.name) || isIgnored(rules, rel, true)) continue;
+                await visit(rel, rules);
+            } else if (entry.isFile() && !isIgnored(rules, rel, false)) {
+                if (files.length >= MAX_FILES_SCANNED) { truncated = true; return; }
+                files.push(rel);
+            }
+            if (truncated) return;
+        }
+    };
+
+    const start = path.relative(root, dir).split(path.sep).join("/");
+    // Rules of the .gitignore files between the root and the start directory
+    let rules = rootRules;
+    const parts = start ? start.split("/") : [];
+    for (let i = 1; i < parts.length; i++) {
+        const rel = parts.slice(0, i).join("/");
+        const nested = await fs.readFile(path.join(root, rel, ".gitignore"), "utf-8").catch(() => undefined);
+        if (nested !== undefined) rules = [...rules, ...parseGitignore(nested, rel)];
+    }
+    await visit(start, rules);
+    return { files, truncated };
+}
+
+const capLimit = (limit: number | undefined, fallback: number) =>
+    Math.min(Math.max(1, Number.isInteger(limit) ? limit! : fallback), fallback * 5);
+
+// ─── Tools ───
+
+/** `glob_files` tool. */
+export async function globFiles(cwd: string, options: GlobOptions): Promise<string> {
+    if (!options.pattern) return "Error: pattern is required";
+    const root = path.resolve(cwd);
+    const dir = await resolveWorkspacePath(cwd, options.path || ".", "read");
+    const limit = capLimit(options.limit, DEFAULT_GLOB_LIMIT);
+
+    const prefix = path.relative(root, dir).split(path.sep).join("/");
+    const regex = globToRegExp(options.pattern.replace(/^\.\//, ""));
+    const { files, truncated } = await walkFiles(root, dir);
+    // Patterns are relative to the searched directory
+    const matches = files.filter(f => regex.test(prefix ? f.slice(prefix.length + 1) : f));
+
+    if (matches.length === 0) return `No files match "${options.pattern}"${truncated ? ` (scan stopped after ${MAX_FILES_SCANNED} files)` : ""}.`;
+    const shown = matches.slice(0, limit);
+    const notes = [
+        matches.length > limit ? `${matches.length - limit} more not shown, narrow the pattern` : "",
+        truncated ? `scan stopped after ${MAX_FILES_SCANNED} files` : "",
+    ].filter(Boolean);
+    return `${matches.length} file(s) match "${options.pattern}":\n${shown.join("\n")}${notes.length ? `\n(${notes.join("; ")})` : ""}`;
+}
+
+/** `search_code` tool: "path:line: text" per match, grouped context lines prefixed with "-". */
+export async function searchCode(cwd: string, options: SearchOptions): Promise<string> {
+    if (!options.pattern) return "Error: pattern is required";
+    let regex: RegExp;
+    try {
+        const source = options.literal ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : options.pattern;
+        regex = new RegExp(source, options.ignoreCase ? "i" : "");
+    } catch (err: any) {
+        return `Error: invalid regex: ${err.message}. Set literal: true to search plain text.`;
+    }
+
+    const root = path.resolve(cwd);
+    const dir = await resolveWorkspacePath(cwd, options.path || ".", "read");
+    const limit = capLimit(options.limit, DEFAULT_SEARCH_LIMIT);
+    const context = Math.min(Math.max(0, options.contextLines ?? 0), 3);
+    const prefix = path.relative(root, dir).split(path.sep).join("/");
+    const glob = options.glob?.replace(/^\.\//, "");
+    const fileFilter = glob ? globToRegExp(glob) : undefined;
+
+    // A single file can be searched directly
+    const stat = await fs.stat(dir).catch(() => undefined);
+    if (!stat) return `Error: path not found: ${options.path}`;
+    const { files, truncated } = stat.isFile() ? { files: [prefix], truncated: false } : await walkFiles(root, dir);
+
+    const selected = !fileFilter ? files : files.filter(file => {
+        const local = stat.isFile() || !prefix ? file : file.slice(prefix.length + 1);
+        return fileFilter.test(glob!.includes("/") ? local : path.posix.basename(file));
+    });
+
+    const result = await scanInWorker({ root, files: selected, source: regex.source, flags: regex.flags, limit, context });
+    if (result === "timeout") {
+        return `Error: search stopped after ${getSearchTimeoutMs() / 1000}s, the regex is too slow on these files (nested quantifiers?). Simplify it, narrow the path, or set literal: true.`;
+    }
+    const { out, matches, filesWithMatches } = result;
+
+    if (matches === 0) return `No matches for /${options.pattern}/${truncated ? ` (scan stopped after ${MAX_FILES_SCANNED} files)` : ""}.`;
+    const notes = [
+        matches >= limit ? `stopped at ${limit} matches, narrow the pattern or the path` : "",
+        truncated ? `scan stopped after ${MAX_FILES_SCANNED} files` : "",
+    ].filter(Boolean);
+    return `${matches} match(es) in ${filesWithMatches} file(s):\n${out.join("\n")}${notes.length ? `\n(${notes.join("; ")})` : ""}`;
+}
+
+// ─── Scan Worker ───
+
+/** Read `files` and collect the matching lines ("path:line: text", context lines with "-"). */
+async function scanFiles(job: ScanJob): Promise<ScanResult> {
+    const regex = new RegExp(job.source, job.flags);
+    const { context, limit } = job;
+    const out: string[] = [];
+    let matches = 0;
+    let filesWithMatches = 0;
+    for (const file of job.files) {
+        const abs = path.join(job.root, file);
+        const size = (await fs.stat(abs).catch(() => undefined))?.size ?? 0;
+        if (size === 0 || size > MAX_FILE_BYTES) continue;
+        const buffer = await fs.readFile(abs).catch(() => undefined);
+        if (!buffer || buffer.subarray(0, 8000).includes(0)) continue;  // binary
+
+        const lines = buffer.toString("utf-8").split(/\r?\n/);
+        if (lines[lines.length - 1] === "") lines.pop();
+        let lastShown = -1;
+        let fileHit = false;
+        for (let i = 0; i < lines.length && matches < limit; i++) {
+            const line = lines[i].length > MAX_MATCH_LINE_CHARS ? lines[i].slice(0, MAX_MATCH_LINE_CHARS) : lines[i];
+            if (!regex.test(line)) continue;
+            matches++;
+            if (!fileHit) { filesWithMatches++; fileHit = true; }
+            const from = Math.max(lastShown + 1, i - context);
+            if (context > 0 && lastShown >= 0 && from > lastShown + 1) out.push("--");
+            for (let k = from; k <= Math.min(lines.length - 1, i + context); k++) {
+                const text = lines[k].length > MAX_LINE_CHARS ? lines[k].slice(0, MAX_LINE_CHARS) + "…" : lines[k];
+                out.push(`${file}:${k + 1}${k === i ? ":" : "-"} ${text}`);
+                lastShown = k;
+            }
+        }
+        if (matches >= limit) break;
+    }
+    return { out, matches, filesWithMatches };
+}
+
+/** Run scanFiles in a worker, terminated (result "timeout") after getSearchTimeoutMs(). */
+function scanInWorker(job: ScanJob): Promise<ScanResult | "timeout"> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL(import.meta.url), { workerData: { task: SCAN_TASK, job } });
+        const timer = setTimeout(() => {
+            void worker.terminate();
+            resolve("timeout");
+        }, getSearchTimeoutMs());
+        worker.once("message", (result: ScanResult) => {
+            clearTimeout(timer);
+            resolve(result);
+        });
+        worker.once("error", err => {
+            clearTimeout(timer);
+            reject(err);
+        });
+        // Settled already unless the worker died without answering
+        worker.once("exit", code => {
+            clearTimeout(timer);
+            reject(new Error(`search worker exited with code ${code}`));
+        });
+    });
+}
+
+if (!isMainThread && workerData?.task === SCAN_TASK) {
+    scanFiles(workerData.job as ScanJob).then(result => parentPort!.postMessage(result));
+}
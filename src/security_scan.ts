@@ -0,0 +1,355 @@
+/**
+ * Security Scan — static checks run by the SECURITY phase: secrets about to
+ * be committed in a pipeline workspace, and declared dependencies matched
+ * against a local advisory database (ADVISORY_DB_PATH).
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+
+import { gitCommandEnv } from "./sandbox.js";
+
+// ─── Types ───
+
+export type Severity = "info" | "low" | "medium" | "high" | "critical";
+
+export const SEVERITIES: Severity[] = ["info", "low", "medium", "high", "critical"];
+
+export type SecurityFinding = {
+    kind: "secret" | "dependency";
+    severity: Severity;
+    rule: string;              // e.g. "github-token", "dokploy-script", "advisory"
+    file: string;              // relative to the workspace
+    line?: number;
+    message: string;
+    package?: string;
+    version?: string;
+    advisoryId?: string;
+};
+
+export type SecurityReport = {
+    scannedAt: string;
+    filesScanned: number;
+    findings: SecurityFinding[];
+    counts: Record<Severity, number>;
+    threshold: Severity | "off";
+    blocked: boolean;          // at least one finding at or above the threshold
+    advisoryDb: { path: string; loaded: boolean; entries: number };
+};
+
+/**
+ * One entry of the advisory database (JSON array). `vulnerable` is a range
+ * such as "<4.17.21" or ">=2.0.0 <2.3.1 || <1.9.0".
+ */
+export type Advisory = {
+    ecosystem: "npm" | "pypi";
+    package: string;
+    vulnerable: string;
+    severity: Severity;
+    id?: string;
+    summary?: string;
+};
+
+export type ScanOptions = {
+    dokployUrl?: string;
+    knownSecrets?: string[];   // actual values of server-side tokens that must never leak
+    advisoryDbPath?: string;
+    threshold?: Severity | "off";
+};
+
+/** Thrown when a scan blocks a push or a deployment. */
+export class SecurityBlockedError extends Error {
+    constructor(message: string, public readonly report: SecurityReport) {
+        super(message);
+        this.name = "SecurityBlockedError";
+    }
+}
+
+// ─── Config ───
+
+export const getAdvisoryDbPath = () => process.env.ADVISORY_DB_PATH || "/data/advisories.json";
+
+/** SECURITY_BLOCK_SEVERITY: minimum severity that blocks deployment ("off" to never block). */
+export function getSecurityBlockSeverity(): Severity | "off" {
+    const raw = (process.env.SECURITY_BLOCK_SEVERITY || "high").toLowerCase();
+    if (raw === "off" || raw === "none") return "off";
+    return SEVERITIES.includes(raw as Severity) ? raw as Severity : "high";
+}
+
+export function severityAtLeast(severity: Severity, threshold: Severity | "off"): boolean {
+    return threshold !== "off" && SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(threshold);
+}
+
+// ─── Secret Rules ───
+
+const SECRET_RULES: { rule: string; severity: Severity; pattern: RegExp; message: string }[] = [
+    { rule: "private-key", severity: "critical", pattern: /-----BEGIN (?:RSA |EC |OPENSSH |DSA |PGP )?PRIVATE KEY-----/, message: "Clé privée" },
+    { rule: "aws-access-key", severity: "critical", pattern: /\bAKIA[0-9A-Z]{16}\b/, message: "Clé d'accès AWS" },
+    { rule: "github-token", severity: "critical", pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}\b|\bgithub_pat_[A-Za-z0-9_]{22,}/, message: "Token GitHub" },
+    { rule: "git-credentials-url", severity: "critical", pattern: /https:\/\/[^\s/:@'"]+(?::[^\s/@'"]+)?@github\.com/, message: "URL Git avec identifiants" },
+    { rule: "anthropic-key", severity: "critical", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/, message: "Clé API Anthropic" },
+    { rule: "openai-key", severity: "high", pattern: /\bsk-(?:proj-)?[A-Za-z0-9]{20,}/, message: "Clé API OpenAI" },
+    { rule: "slack-token", severity: "high", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/, message: "Token Slack" },
+    {
+        rule: "generic-secret",
+        severity: "medium",
+        pattern: /\b(?:api[_-]?key|secret|token|passw(?:or)?d)\b["']?\s*[:=]\s*["']([^"'\s]{12,})["']/i,
+        message: "Secret en dur",
+    },
+];
+
+// Values that are obviously placeholders, not real secrets
+const PLACEHOLDER = /^(?:your|change|example|dummy|test|xxx|<|\$\{|process\.env|os\.environ)/i;
+
+const DOKPLOY_SCRIPT = /^update_dokploy_port_.*\.sh$/;
+const ENV_FILE = /^\.env(?:\..+)?$/;
+const ENV_TEMPLATE = /\.(?:example|sample|template)$/;
+
+const SKIPPED_DIRS = new Set([".git", "node_modules", "dist", "build", ".venv", "venv", "__pycache__", ".next"]);
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// ─── File Listing ───
+
+/**
+ * Files that the next push would publish: tracked plus untracked-but-not-ignored
+ * (gitPush runs `git add -A`). Falls back to a directory walk outside git.
+ */
+async function listWorkspaceFiles(root: string): Promise<string[]> {
+    const fromGit = await new Promise<string[] | null>((resolve) => {
+        const proc = spawn("git", ["ls-files", "--cached", "--others", "--exclude-standard", "-z"], { cwd: root, env: gitCommandEnv() });
+        let out = "";
+        proc.stdout?.on("data", (chunk: Buffer) => { out += chunk.toString(); });
+        proc.on("close", (code) => resolve(code === 0 ? out.split("\0").filter(Boolean) : null));
+        proc.on("error", () => resolve(null));
+    });
+    if (fromGit) return fromGit.filter(f => !f.split("/").some(part => SKIPPED_DIRS.has(part)));
+
+    const files: string[] = [];
+    const walk = async (dir: string) => {
+        const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            const rel = dir ? `${dir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (!SKIPPED_DIRS.has(entry.name)) await walk(rel);
+            } else if (entry.isFile()) {
+                files.push(rel);
+            }
+        }
+    };
+    await walk("");
+    return files;
+}
+
+async function readText(file: string): Promise<string | undefined> {
+    try {
+        const stat = await fs.stat(file);
+        if (stat.size > MAX_FILE_BYTES) return undefined;
+        const buf = await fs.readFile(file);
+        if (buf.includes(0)) return undefined; // binary
+        return buf.toString("utf-8");
+    } catch {
+        return undefined;
+    }
+}
+
+// ─── Secret Scanning ───
+
+function scanSecrets(file: string, content: string, options: ScanOptions): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+    const base = path.basename(file);
+
+    if (DOKPLOY_SCRIPT.test(base)) {
+        findings.push({
+            kind: "secret",
+            severity: "high",
+            rule: "dokploy-script",
+            file,
+            message: "Script update_dokploy_port commité: expose l'URL Dokploy et les IDs d'application (à ajouter au .gitignore)",
+        });
+    }
+    if (ENV_FILE.test(base) && !ENV_TEMPLATE.test(base)) {
+        findings.push({ kind: "secret", severity: "high", rule: "env-file", file, message: "Fichier .env commité" });
+    }
+
+    const knownSecrets = (options.knownSecrets ?? []).filter(s => s.length >= 8);
+    const lines = content.split("\n");
+    lines.forEach((text, i) => {
+        const line = i + 1;
+        for (const rule of SECRET_RULES) {
+            const match = text.match(rule.pattern);
+            if (!match) continue;
+            if (rule.rule === "generic-secret" && PLACEHOLDER.test(match[1] ?? "")) continue;
+            findings.push({ kind: "secret", severity: rule.severity, rule: rule.rule, file, line, message: rule.message });
+        }
+        if (knownSecrets.some(secret => text.includes(secret))) {
+            findings.push({ kind: "secret", severity: "critical", rule: "leaked-server-secret", file, line, message: "Token du serveur (GitHub/Dokploy/Anthropic) copié dans le projet" });
+        }
+        if (options.dokployUrl && text.includes(options.dokployUrl) && !DOKPLOY_SCRIPT.test(base)) {
+            findings.push({ kind: "secret", severity: "medium", rule: "dokploy-url", file, line, message: "URL de l'instance Dokploy en dur" });
+        }
+    });
+
+    return findings;
+}
+
+// ─── Dependency Scanning ───
+
+type DeclaredDependency = { ecosystem: Advisory["ecosystem"]; name: string; spec: string; file: string };
+
+function normalizePackageName(ecosystem: Advisory["ecosystem"], name: string): string {
+    return ecosystem === "pypi" ? name.toLowerCase().replace(/[_.]+/g, "-") : name.toLowerCase();
+}
+
+function parsePackageJson(file: string, content: string): DeclaredDependency[] {
+    try {
+        const pkg = JSON.parse(content);
+        const deps = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.optionalDependencies };
+        return Object.entries(deps).map(([name, spec]) => ({ ecosystem: "npm" as const, name, spec: String(spec), file }));
+    } catch {
+        return [];
+    }
+}
+
+function parseRequirements(file: string, content: string): DeclaredDependency[] {
+    const deps: DeclaredDependency[] = [];
+    for (const raw of content.split("\n")) {
+        const line = raw.replace(/#.*/, "").trim();
+        if (!line || line.startsWith("-") || line.includes("://")) continue;
+        const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(.*?)\s*(?:;.*)?$/);
+        if (match) deps.push({ ecosystem: "pypi", name: match[1], spec: match[2], file });
+    }
+    return deps;
+}
+
+function parseVersion(v: string): number[] | undefined {
+    const match = v.match(/\d+(?:\.\d+){0,2}/);
+    if (!match) return undefined;
+    const parts = match[0].split(".").map(Number);
+    while (parts.length < 3) parts.push(0);
+    return parts;
+}
+
+function compareVersions(a: number[], b: number[]): number {
+    for (let i = 0; i < 3; i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return 0;
+}
+
+/** Does `version` fall in `range` (space-separated comparators, "||" alternatives)? */
+export function versionInRange(version: string, range: string): boolean {
+    const v = parseVersion(version);
+    if (!v) return false;
+    return range.split("||").some(alternative => {
+        const comparators = alternative.replace(/(<=|>=|==|<|>|=)\s+/g, "$1").trim().split(/[\s,]+/).filter(Boolean);
+        return comparators.length > 0 && comparators.every(c => {
+            const [, op = "=", raw] = c.match(/^(<=|>=|==|<|>|=)?(.+)$/) ?? [];
+            const bound = parseVersion(raw ?? "");
+            if (!bound) return false;
+            const cmp = compareVersions(v, bound);
+            switch (op) {
+                case "<": return cmp < 0;
+                case "<=": return cmp <= 0;
+                case ">": return cmp > 0;
+                case ">=": return cmp >= 0;
+                default: return cmp === 0;
+            }
+        });
+    });
+}
+
+/**
+ * Version to check for a declared spec. Ranges (^1.2.0, >=1.2) resolve to
+ * their lower bound, so the check is conservative; unpinned specs return undefined.
+ */
+function declaredVersion(spec: string): { version: string; exact: boolean } | undefined {
+    const s = spec.trim();
+    if (!s || s === "*" || s === "latest" || s.includes("||") || /^(?:git|file|link|workspace|https?):/.test(s)) return undefined;
+    const v = parseVersion(s);
+    if (!v) return undefined;
+    return { version: v.join("."), exact: /^(?:==|=)?\s*v?\d/.test(s) && !/[xX*]/.test(s) };
+}
+
+export async function loadAdvisories(file: string): Promise<Advisory[] | undefined> {
+    try {
+        const parsed = JSON.parse(await fs.readFile(file, "utf-8"));
+        return Array.isArray(parsed) ? parsed.filter(a => a && a.package && a.vulnerable && SEVERITIES.includes(a.severity)) : [];
+    } catch {
+        return undefined;
+    }
+}
+
+function scanDependencies(deps: DeclaredDependency[], advisories: Advisory[]): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+    for (const dep of deps) {
+        const name = normalizePackageName(dep.ecosystem, dep.name);
+        const matching = advisories.filter(a => a.ecosystem === dep.ecosystem && normalizePackageName(a.ecosystem, a.package) === name);
+        if (matching.length === 0) continue;
+
+        const declared = declaredVersion(dep.spec);
+        if (!declared) {
+            findings.push({
+                kind: "dependency",
+                severity: "info",
+                rule: "unpinned-dependency",
+                file: dep.file,
+                package: dep.name,
+                message: `${dep.name}: version non épinglée ("${dep.spec || "aucune"}"), ${matching.length} advisory(s) connue(s)`,
+            });
+            continue;
+        }
+
+        for (const advisory of matching) {
+            if (!versionInRange(declared.version, advisory.vulnerable)) continue;
+            findings.push({
+                kind: "dependency",
+                severity: advisory.severity,
+                rule: "advisory",
+                file: dep.file,
+                package: dep.name,
+                version: dep.spec,
+                advisoryId: advisory.id,
+                message: `${dep.name} ${dep.spec} vulnérable (${advisory.vulnerable})${advisory.summary ? `: ${advisory.summary}` : ""}${declared.exact ? "" : " — version minimale déclarée"}`,
+            });
+        }
+    }
+    return findings;
+}
+
+// ─── Scan ───
+
+export async function scanWorkspace(root: string, options: ScanOptions = {}): Promise<SecurityReport> {
+    const advisoryDbPath = options.advisoryDbPath ?? getAdvisoryDbPath();
+    const threshold = options.threshold ?? getSecurityBlockSeverity();
+    const advisories = await loadAdvisories(advisoryDbPath);
+
+    const files = await listWorkspaceFiles(root);
+    const findings: SecurityFinding[] = [];
+    const deps: DeclaredDependency[] = [];
+
+    for (const file of files) {
+        const content = await readText(path.join(root, file));
+        if (content === undefined) continue;
+        findings.push(...scanSecrets(file, content, options));
+
+        const base = path.basename(file);
+        if (base === "package.json") deps.push(...parsePackageJson(file, content));
+        else if (/^requirements.*\.txt$/.test(base)) deps.push(...parseRequirements(file, content));
+    }
+    if (advisories) findings.push(...scanDependencies(deps, advisories));
+
+    findings.sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity));
+    const counts = Object.fromEntries(SEVERITIES.map(s => [s, 0])) as Record<Severity, number>;
+    for (const f of findings) counts[f.severity]++;
+
+    return {
+        scannedAt: new Date().toISOString(),
+        filesScanned: files.length,
+        findings,
+        counts,
+        threshold,
+        blocked: findings.some(f => severityAtLeast(f.severity, threshold)),
+        advisoryDb: { path: advisoryDbPath, loaded: advisories !== undefined, entries: advisories?.length ?? 0 },
+    };
+}
@@ -1,3 +1,8 @@
+import type { ApprovalGate } from "./orchestrator.js";
+import type { ModelRoutes } from "./model_routing.js";
+import type { BudgetLimits } from "./budget.js";
+import type { PhaseFlow } from "./phase_graph.js";
+
 export type ProjectTemplate = {
     id: string;
     name: string;
@@ -10,6 +15,16 @@ export type ProjectTemplate = {
         // meta optionnel (modèle, endpoint, etc.)
         meta?: Record<string, unknown>;
     }>;
+    // options appliquées aux pipelines lancées avec ce template
+    pipeline?: {
+        approvalGates?: ApprovalGate[];
+        // id d'un flow enregistré (ex: "static-site") ou flow complet (voir src/phase_graph.ts)
+        flow?: string | PhaseFlow;
+        // modèles par phase / par rôle, ex: { phases: { ARCHITECTURE: "claude-sonnet-4-5" } } (voir src/model_routing.ts)
+        models?: ModelRoutes;
+        // plafonds du pipeline, ex: { maxCost: 5 } en USD (voir src/budget.ts)
+        budget?: BudgetLimits;
+    };
 };
 
 /**
@@ -26,6 +41,20 @@ export const TEMPLATES: ProjectTemplate[] = [
             { name: "skills-researcher", profileId: "skills-researcher" },
         ],
     },
+    {
+        id: "reviewed-pipeline",
+        name: "Pipeline avec validation",
+        description: "Pipeline BMAD qui attend une validation humaine du PRD et de l'architecture",
+        agents: [],
+        pipeline: { approvalGates: ["analysis", "architecture"] },
+    },
+    {
+        id: "static-site",
+        name: "Site statique",
+        description: "Pipeline sans phase Architecture: les features viennent directement du PRD",
+        agents: [],
+        pipeline: { flow: "static-site" },
+    },
     {
         id: "empty",
         name: "Empty Project",
@@ -0,0 +1,242 @@
+/**
+ * Test Runner — detects a service's test runner (npm test, pytest), runs it
+ * inside the workspace and parses the pass/fail counts, so QA relies on real
+ * test results instead of the model's opinion.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+
+import { prepareSandboxedCommand } from "./sandbox.js";
+
+// ─── Types ───
+
+export type TestRunnerKind = "npm" | "pytest";
+
+export type TestCounts = {
+    passed: number;
+    failed: number;
+    skipped: number;
+    total: number;
+};
+
+export type ServiceTestResult = TestCounts & {
+    service: string;
+    runner: TestRunnerKind | "none";  // "none": no test suite detected
+    command?: string;
+    exitCode?: number;
+    timedOut?: boolean;
+    status: "passed" | "failed" | "skipped";
+    durationMs: number;
+    output?: string;                  // tail of stdout + stderr
+};
+
+export type QaReport = {
+    runAt: string;
+    attempt: number;                  // 1 = first run, then one per Debugger pass
+    services: ServiceTestResult[];
+    passed: boolean;                  // no service with failing tests
+    regressions: string[];            // services whose tests passed in the previous report
+};
+
+// ─── Config ───
+
+export const getTestTimeoutMs = () => Math.max(10_000, Number(process.env.QA_TEST_TIMEOUT_MS) || 300_000);
+
+const OUTPUT_TAIL = 6000;
+
+// ─── Detection ───
+
+async function readJson(file: string): Promise<any | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(file, "utf-8"));
+    } catch {
+        return undefined;
+    }
+}
+
+async function exists(file: string): Promise<boolean> {
+    return fs.access(file).then(() => true, () => false);
+}
+
+/**
+ * Test runner declared by the service directory, if any. The default
+ * `npm init` test script ("no test specified") does not count.
+ */
+export async function detectTestRunner(serviceDir: string): Promise<TestRunnerKind | undefined> {
+    const pkg = await readJson(path.join(serviceDir, "package.json"));
+    const npmTest: string | undefined = pkg?.scripts?.test;
+    if (npmTest && !/no test specified/.test(npmTest)) return "npm";
+
+    if (await exists(path.join(serviceDir, "pytest.ini")) || await exists(path.join(serviceDir, "conftest.py"))) return "pytest";
+    const pyproject = await fs.readFile(path.join(serviceDir, "pyproject.toml"), "utf-8").catch(() => "");
+    if (pyproject.includes("[tool.pytest")) return "pytest";
+    const setupCfg = await fs.readFile(path.join(serviceDir, "setup.cfg"), "utf-8").catch(() => "");
+    if (setupCfg.includes("[tool:pytest]")) return "pytest";
+
+    // Python project with a tests/ directory
+    const isPython = await exists(path.join(serviceDir, "requirements.txt")) || pyproject !== "";
+    if (isPython) {
+        for (const dir of ["tests", "test"]) {
+            const entries = await fs.readdir(path.join(serviceDir, dir)).catch(() => [] as string[]);
+            if (entries.some(f => /^test_.*\.py$|_test\.py$/.test(f))) return "pytest";
+        }
+    }
+    return undefined;
+}
+
+// Install dependencies when missing, then run the suite non-interactively
+const RUNNER_COMMANDS: Record<TestRunnerKind, string> = {
+    npm: "([ -d node_modules ] || npm install --no-audit --no-fund --loglevel=error) && npm test",
+    pytest: "([ ! -f requirements.txt ] || pip install -q -r requirements.txt) && python3 -m pytest -q --tb=short -p no:cacheprovider",
+};
+
+// ─── Output Parsing ───
+
+const count = (text: string, pattern: RegExp): number | undefined => {
+    const matches = [...text.matchAll(pattern)];
+    return matches.length > 0 ? Number(matches[matches.length - 1][1]) : undefined;
+};
+
+/**
+ * Pass/fail counts from a test runner's summary line. Understands jest,
+ * vitest, mocha, node:test and pytest; the last summary wins.
+ */
+export function parseTestOutput(runner: TestRunnerKind, output: string): TestCounts | undefined {
+    const text = output.replace(/\x1b\[[0-9;]*m/g, "");
+    let passed: number | undefined;
+    let failed: number | undefined;
+    let skipped: number | undefined;
+
+    if (runner === "pytest") {
+        const summary = [...text.matchAll(/^=+ (.*\b(?:passed|failed|error|errors|skipped|no tests ran)\b.*) =+$/gm)].pop()?.[1];
+        if (!summary) return undefined;
+        passed = count(summary, /(\d+) passed/g) ?? 0;
+        failed = (count(summary, /(\d+) failed/g) ?? 0) + (count(summary, /(\d+) errors?/g) ?? 0);
+        skipped = (count(summary, /(\d+) skipped/g) ?? 0) + (count(summary, /(\d+) xfailed/g) ?? 0);
+    } else {
+        const jest = [...text.matchAll(/^Tests:\s+(.*\d+ total)$/gm)].pop()?.[1];
+        const vitest = [...text.matchAll(/^\s*Tests\s+(.*\(\d+\))\s*$/gm)].pop()?.[1];
+        if (jest || vitest) {
+            const summary = (jest || vitest)!;
+            passed = count(summary, /(\d+) passed/g) ?? 0;
+            failed = count(summary, /(\d+) failed/g) ?? 0;
+            skipped = (count(summary, /(\d+) skipped/g) ?? 0) + (count(summary, /(\d+) todo/g) ?? 0);
+        } else if (/^\s*\d+ passing\b/m.test(text)) {
+            // mocha
+            passed = count(text, /^\s*(\d+) passing\b/gm) ?? 0;
+            failed = count(text, /^\s*(\d+) failing\b/gm) ?? 0;
+            skipped = count(text, /^\s*(\d+) pending\b/gm) ?? 0;
+        } else if (/^# pass \d+/m.test(text)) {
+            // node --test (TAP)
+            passed = count(text, /^# pass (\d+)/gm) ?? 0;
+            failed = count(text, /^# fail (\d+)/gm) ?? 0;
+            skipped = (count(text, /^# skipped (\d+)/gm) ?? 0) + (count(text, /^# todo (\d+)/gm) ?? 0);
+        } else {
+            return undefined;
+        }
+    }
+
+    return { passed, failed, skipped, total: passed + failed + skipped };
+}
+
+// ─── Execution ───
+
+export type CommandResult = { exitCode: number; output: string; timedOut: boolean };
+
+/**
+ * Run a shell command in `cwd` (inside the sandbox unless `sandboxed: false`),
+ * killing its whole process tree on timeout or abort. Output is stdout +
+ * stderr interleaved, truncated to its tail.
+ */
+export async function runCommand(
+    command: string,
+    cwd: string,
+    options: { timeoutMs: number; signal?: AbortSignal; env?: Record<string, string>; sandboxed?: boolean },
+): Promise<CommandResult> {
+    const { timeoutMs, signal } = options;
+    const env = { FORCE_COLOR: "0", ...options.env };
+    const { file, args, options: spawnOptions } = options.sandboxed === false
+        ? { file: "bash", args: ["-c", command], options: { cwd, env: { ...process.env, CI: "true", ...env }, detached: true } }
+        : await prepareSandboxedCommand(command, cwd, env);
+
+    return new Promise((resolve) => {
+        // detached: own process group, so the whole tree is killed on timeout
+        const proc = spawn(file, args, spawnOptions);
+        let output = "";
+        let timedOut = false;
+        const append = (chunk: Buffer) => {
+            output += chunk.toString();
+            if (output.length > OUTPUT_TAIL * 4) output = output.slice(-OUTPUT_TAIL * 2);
+        };
+        const kill = () => {
+            try { process.kill(-proc.pid!, "SIGKILL"); } catch { /* already exited */ }
+        };
+        const timer = setTimeout(() => { timedOut = true; kill(); }, timeoutMs);
+        signal?.addEventListener("abort", kill, { once: true });
+
+        proc.stdout?.on("data", append);
+        proc.stderr?.on("data", append);
+        proc.on("close", (code) => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", kill);
+            resolve({ exitCode: code ?? 1, output, timedOut });
+        });
+        proc.on("error", (err) => {
+            clearTimeout(timer);
+            resolve({ exitCode: 1, output: err.message, timedOut: false });
+        });
+    });
+}
+
+/** Detect and run the test suite of one service directory. */
+export async function runServiceTests(service: string, serviceDir: string, signal?: AbortSignal): Promise<ServiceTestResult> {
+    const startedAt = Date.now();
+    const runner = await detectTestRunner(serviceDir);
+    if (!runner) {
+        return { service, runner: "none", status: "skipped", passed: 0, failed: 0, skipped: 0, total: 0, durationMs: 0 };
+    }
+
+    const command = RUNNER_COMMANDS[runner];
+    const { exitCode, output, timedOut } = await runCommand(command, serviceDir, {
+        timeoutMs: getTestTimeoutMs(),
+        signal,
+        env: { NODE_ENV: "test" },
+    });
+    const counts = parseTestOutput(runner, output);
+    // pytest exits 5 when no test was collected
+    const noTests = runner === "pytest" && exitCode === 5;
+    const failed = !noTests && (exitCode !== 0 || timedOut || (counts?.failed ?? 0) > 0);
+
+    return {
+        service,
+        runner,
+        command,
+        exitCode,
+        timedOut: timedOut || undefined,
+        status: noTests ? "skipped" : failed ? "failed" : "passed",
+        passed: counts?.passed ?? 0,
+        // A non-zero exit without a parsable summary (crash, install error) still counts as one failure
+        failed: counts?.failed || (failed ? 1 : 0),
+        skipped: counts?.skipped ?? 0,
+        total: counts?.total || (failed ? 1 : 0),
+        durationMs: Date.now() - startedAt,
+        output: output.slice(-OUTPUT_TAIL),
+    };
+}
+
+/**
+ * Services whose tests now fail although they passed in the previous
+ * report, or that pass fewer tests than before.
+ */
+export function findRegressions(previous: QaReport | undefined, services: ServiceTestResult[]): string[] {
+    if (!previous) return [];
+    return services
+        .filter(s => {
+            const before = previous.services.find(b => b.service === s.service);
+            if (!before || before.status !== "passed") return false;
+            return s.status === "failed" || s.passed < before.passed;
+        })
+        .map(s => s.service);
+}
@@ -0,0 +1,68 @@
+/**
+ * Tool Permissions — maps the logical tool names used by the orchestrator
+ * (`allowedTools: ["Read", "ListDir"]`) to the concrete tools exposed to the
+ * model, and defines which tools each agent role gets by default.
+ */
+
+// ─── Types ───
+
+export type ToolPermission = "Read" | "Write" | "Edit" | "Bash" | "Process" | "ListDir" | "Search" | "Docs" | "WebSearch" | "WebFetch";
+
+export type AgentToolProfile =
+    | "analyst"
+    | "architect"
+    | "scaffold"
+    | "developer"
+    | "debugger"
+    | "qa-review"
+    | "qa-verify";
+
+// ─── Mapping ───
+
+export const TOOL_PERMISSIONS: Record<ToolPermission, string[]> = {
+    Read: ["read_file"],
+    Write: ["write_file"],
+    Edit: ["replace_in_file", "multi_edit", "apply_patch"],
+    Bash: ["bash"],
+    Process: ["process_start", "process_output", "process_stop", "process_list"],
+    ListDir: ["list_dir"],
+    Search: ["glob_files", "search_code"],
+    Docs: ["docs_search"],
+    WebSearch: ["web_search"],
+    WebFetch: ["fetch_url"],
+};
+
+const WEB: ToolPermission[] = ["Docs", "WebSearch", "WebFetch"];
+
+// Default tools per agent role — the one place to widen or narrow what an agent can do
+export const AGENT_TOOL_PROFILES: Record<AgentToolProfile, ToolPermission[]> = {
+    analyst: [...WEB],
+    architect: ["Read", "ListDir", "Search", ...WEB],
+    scaffold: ["Write", "Edit", "Bash", "Process", "ListDir", "Search", ...WEB],
+    developer: ["Read", "Write", "Edit", "Bash", "Process", "ListDir", "Search", ...WEB],
+    debugger: ["Read", "Write", "Edit", "Bash", "Process", "ListDir", "Search", ...WEB],
+    "qa-review": ["Read", "ListDir", "Search", "Docs"],
+    "qa-verify": ["Read", "Bash", "Process", "ListDir", "Search", "Docs"],
+};
+
+export function toolsForProfile(profile: AgentToolProfile): ToolPermission[] {
+    return [...AGENT_TOOL_PROFILES[profile]];
+}
+
+/**
+ * Concrete tool names granted by `allowedTools`. Logical names are expanded,
+ * concrete names are accepted as-is; unknown names are reported in `unknown`.
+ * `undefined` grants every tool in `available`.
+ */
+export function resolveAllowedTools(allowedTools: string[] | undefined, available: string[]): { allowed: Set<string>; unknown: string[] } {
+    if (allowedTools === undefined) return { allowed: new Set(available), unknown: [] };
+    const allowed = new Set<string>();
+    const unknown: string[] = [];
+    for (const name of allowedTools) {
+        const mapped = TOOL_PERMISSIONS[name as ToolPermission];
+        if (mapped) mapped.forEach(t => allowed.add(t));
+        else if (available.includes(name)) allowed.add(name);
+        else unknown.push(name);
+    }
+    return { allowed, unknown };
+}
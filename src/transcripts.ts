@@ -0,0 +1,240 @@
+/**
+ * Transcripts — the full record of every agent conversation of a pipeline
+ * (prompt, each model response with its usage, untruncated tool inputs and
+ * outputs), one JSON file per runClaudeAgent call under
+ * TRANSCRIPT_DIR/<pipelineId>/. A transcript can be replayed against a
+ * ScriptedProvider fed with its recorded responses:
+ *   dry      tools return their recorded outputs, nothing runs
+ *   execute  tools really run, in a scratch copy of the workspace, and
+ *            outputs that differ from the recording are reported
+ */
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { runClaudeAgent, type AgentRunContext, type AgentTranscript } from "./claude_code.js";
+import { ScriptedProvider } from "./llm_provider.js";
+
+// ─── Types ───
+
+export type TranscriptSummary = {
+    id: string;
+    context?: AgentRunContext;
+    provider: string;
+    models: string[];
+    startedAt: string;
+    endedAt?: string;
+    turns: number;
+    toolCalls: number;
+    inputTokens: number;
+    outputTokens: number;
+    success?: boolean;         // undefined while the run is in progress (or was interrupted)
+    error?: string;
+};
+
+export type TranscriptQuery = {
+    phase?: string;
+    role?: string;
+    featureIndex?: number;
+};
+
+export type ReplayMode = "dry" | "execute";
+
+export type ReplayDivergence = {
+    kind: "tool_call" | "output" | "turns" | "error";
+    turn?: number;
+    index?: number;            // tool call position within the turn
+    tool?: string;
+    expected?: string;
+    actual?: string;
+};
+
+export type ReplayReport = {
+    transcriptId: string;
+    mode: ReplayMode;
+    success: boolean;
+    error?: string;
+    turns: { recorded: number; replayed: number };
+    divergences: ReplayDivergence[];
+    replay?: AgentTranscript;
+};
+
+// ─── Config ───
+
+export const getTranscriptDir = () => process.env.TRANSCRIPT_DIR || "/data/transcripts";
+
+const safeName = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, "_");
+const clip = (text: string, max = 500) => text.length > max ? `${text.slice(0, max)}… (${text.length} chars)` : text;
+
+// ─── Store ───
+
+export class TranscriptStore {
+    private readonly writes = new Map<string, Promise<void>>();
+
+    constructor(private readonly dir: string = getTranscriptDir()) { }
+
+    private dirFor(pipelineId: string) {
+        return path.join(this.dir, safeName(pipelineId));
+    }
+
+    private fileFor(pipelineId: string, transcriptId: string) {
+        return path.join(this.dirFor(pipelineId), `${safeName(transcriptId)}.json`);
+    }
+
+    /**
+     * Write the transcript as it is now; called again as it grows. Writes to
+     * one file are serialized and go through a temp file, so readers never see half a transcript.
+     */
+    save(pipelineId: string, transcript: AgentTranscript): Promise<void> {
+        const file = this.fileFor(pipelineId, transcript.id);
+        const json = JSON.stringify(transcript);
+        const previous = this.writes.get(file) ?? Promise.resolve();
+        const next = previous.then(async () => {
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(`${file}.tmp`, json, "utf-8");
+            await fs.rename(`${file}.tmp`, file);
+        }).catch(err => console.warn(`[Transcripts] Save failed for ${pipelineId}/${transcript.id}: ${err.message}`));
+        this.writes.set(file, next);
+        void next.then(() => {
+            if (this.writes.get(file) === next) this.writes.delete(file);
+        });
+        return next;
+    }
+
+    async get(pipelineId: string, transcriptId: string): Promise<AgentTranscript | undefined> {
+        const file = this.fileFor(pipelineId, transcriptId);
+        await this.writes.get(file);
+        try {
+            return JSON.parse(await fs.readFile(file, "utf-8"));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Summaries of a pipeline's transcripts, oldest first. */
+    async list(pipelineId: string, query: TranscriptQuery = {}): Promise<TranscriptSummary[]> {
+        await Promise.all(this.writes.values());
+        const files = await fs.readdir(this.dirFor(pipelineId)).catch(() => [] as string[]);
+        const summaries: TranscriptSummary[] = [];
+        for (const file of files.filter(f => f.endsWith(".json"))) {
+            let t: AgentTranscript;
+            try {
+                t = JSON.parse(await fs.readFile(path.join(this.dirFor(pipelineId), file), "utf-8"));
+            } catch {
+                continue;
+            }
+            if (query.phase !== undefined && t.context?.phase !== query.phase) continue;
+            if (query.role !== undefined && t.context?.role?.toLowerCase() !== query.role.toLowerCase()) continue;
+            if (query.featureIndex !== undefined && t.context?.featureIndex !== query.featureIndex) continue;
+            summaries.push({
+                id: t.id,
+                context: t.context,
+                provider: t.provider,
+                models: t.models,
+                startedAt: t.startedAt,
+                endedAt: t.endedAt,
+                turns: t.turns.length,
+                toolCalls: t.turns.reduce((n, turn) => n + turn.toolCalls.length, 0),
+                inputTokens: t.turns.reduce((n, turn) => n + turn.response.usage.inputTokens, 0),
+                outputTokens: t.turns.reduce((n, turn) => n + turn.response.usage.outputTokens, 0),
+                success: t.outcome?.success,
+                error: t.outcome?.error,
+            });
+        }
+        return summaries.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    }
+
+    async delete(pipelineId: string): Promise<void> {
+        await Promise.all(this.writes.values());
+        await fs.rm(this.dirFor(pipelineId), { recursive: true, force: true });
+    }
+}
+
+// ─── Replay ───
+
+/**
+ * Re-run a transcript with its recorded model responses. `workspace` is
+ * copied (without node_modules / .git) for an execute replay, so the
+ * pipeline's files are never touched.
+ */
+export async function replayTranscript(transcript: AgentTranscript, options: { mode?: ReplayMode; workspace?: string } = {}): Promise<ReplayReport> {
+    const mode = options.mode ?? "dry";
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), "replay-"));
+    let replay: AgentTranscript | undefined;
+
+    try {
+        const source = options.workspace ?? transcript.cwd;
+        if (mode === "execute" && await fs.stat(source).then(s => s.isDirectory(), () => false)) {
+            await fs.cp(source, scratch, {
+                recursive: true,
+                filter: src => !["node_modules", ".git"].includes(path.basename(src)),
+            });
+        }
+
+        const [model, ...fallbackModels] = transcript.models;
+        const result = await runClaudeAgent({
+            prompt: transcript.prompt,
+            systemPrompt: transcript.systemPrompt,
+            cwd: scratch,
+            allowedTools: transcript.allowedTools,
+            maxTurns: transcript.maxTurns,
+            provider: new ScriptedProvider(transcript.turns.map(t => t.response)),
+            model,
+            fallbackModels,
+            stream: false,
+            // No pipelineId: the replay's actions stay out of the pipeline's action log
+            runContext: { phase: transcript.context?.phase, role: transcript.context?.role, featureIndex: transcript.context?.featureIndex },
+            toolOverride: mode === "dry"
+                ? ({ turn, index, name }) => {
+                    const recorded = transcript.turns[turn - 1]?.toolCalls[index];
+                    return recorded && recorded.name === name ? recorded.output : `Error: no recorded output for ${name} (turn ${turn}, call ${index + 1})`;
+                }
+                : undefined,
+            onTranscript: t => { replay = t; },
+        });
+
+        const divergences: ReplayDivergence[] = [];
+        const replayed = replay?.turns ?? [];
+        for (const [i, recorded] of transcript.turns.entries()) {
+            const actual = replayed[i];
+            if (!actual) break;
+            recorded.toolCalls.forEach((call, index) => {
+                const other = actual.toolCalls[index];
+                if (!other || other.name !== call.name) {
+                    divergences.push({ kind: "tool_call", turn: recorded.turn, index, tool: call.name, expected: call.name, actual: other?.name ?? "(none)" });
+                } else if (other.output !== call.output) {
+                    divergences.push({ kind: "output", turn: recorded.turn, index, tool: call.name, expected: clip(call.output), actual: clip(other.output) });
+                }
+            });
+        }
+        if (replayed.length !== transcript.turns.length) {
+            divergences.push({ kind: "turns", expected: String(transcript.turns.length), actual: String(replayed.length) });
+        }
+        if ((transcript.outcome?.error ?? "") !== (result.error ?? "")) {
+            divergences.push({ kind: "error", expected: transcript.outcome?.error ?? "(none)", actual: result.error ?? "(none)" });
+        }
+
+        return {
+            transcriptId: transcript.id,
+            mode,
+            success: result.success,
+            error: result.error,
+            turns: { recorded: transcript.turns.length, replayed: replayed.length },
+            divergences,
+            replay,
+        };
+    } catch (err: any) {
+        return {
+            transcriptId: transcript.id,
+            mode,
+            success: false,
+            error: err.message,
+            turns: { recorded: transcript.turns.length, replayed: replay?.turns.length ?? 0 },
+            divergences: [{ kind: "error", expected: transcript.outcome?.error ?? "(none)", actual: err.message }],
+            replay,
+        };
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { SpendTotal, addModelUsage, checkBudget, costOf, describeBudgetExceeded, parseBudgetLimits, parseModelPrices, priceFor } from "../src/budget.js";
+
+const PRICES = {
+    "claude-haiku-4-5": { input: 1, output: 5 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+// ─── Prices ───
+
+test("parses a price table and skips malformed entries", () => {
+    assert.deepEqual(parseModelPrices("claude-haiku-4-5=1/5, gpt-4o-mini = 0.15/0.6,bad,x=1,y=-1/2"), {
+        "claude-haiku-4-5": { input: 1, output: 5 },
+        "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    });
+    assert.deepEqual(parseModelPrices("a=1/5/0.1/1.25,b=2/8/0.5,c=1/2/3/4/5"), {
+        a: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+        b: { input: 2, output: 8, cacheRead: 0.5 },
+    });
+});
+
+test("a model uses the price of the longest key it starts with", () => {
+    assert.deepEqual(priceFor("claude-haiku-4-5-20251001", PRICES), PRICES["claude-haiku-4-5"]);
+    assert.deepEqual(priceFor("gpt-4o-mini-2024-07-18", PRICES), PRICES["gpt-4o-mini"]);
+    assert.deepEqual(priceFor("gpt-4o-2024-08-06", PRICES), PRICES["gpt-4o"]);
+    assert.equal(priceFor("llama-3", PRICES), undefined);
+});
+
+// ─── Cost ───
+
+test("sums the cost of each model, unknown models are free", () => {
+    const cost = costOf({
+        "claude-haiku-4-5-20251001": { inputTokens: 1_000_000, outputTokens: 200_000 },
+        "gpt-4o-mini": { inputTokens: 2_000_000, outputTokens: 1_000_000 },
+        "llama-3": { inputTokens: 5_000_000, outputTokens: 5_000_000 },
+    }, PRICES);
+    assert.equal(cost.toFixed(6), (1 + 1 + 0.3 + 0.6).toFixed(6));
+});
+
+test("prices cached prompt tokens at the cache rates", () => {
+    const prices = { m: { input: 10, output: 20, cacheRead: 1, cacheWrite: 12.5 }, plain: { input: 10, output: 20 } };
+    const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 600_000, cacheCreationTokens: 200_000 };
+    // 200k uncached * 10 + 600k read * 1 + 200k written * 12.5
+    assert.equal(costOf({ m: usage }, prices).toFixed(6), (2 + 0.6 + 2.5).toFixed(6));
+    // Without cache prices, cached tokens cost the input price
+    assert.equal(costOf({ plain: usage }, prices).toFixed(6), (10).toFixed(6));
+});
+
+test("adds usage per model, cache counts included", () => {
+    const totals = {};
+    addModelUsage(totals, "m", { inputTokens: 100, outputTokens: 10, cacheReadTokens: 80 });
+    addModelUsage(totals, "m", { inputTokens: 50, outputTokens: 5, cacheCreationTokens: 40 });
+    addModelUsage(totals, "n", { inputTokens: 1, outputTokens: 1 });
+    assert.deepEqual(totals, {
+        m: { inputTokens: 150, outputTokens: 15, cacheReadTokens: 80, cacheCreationTokens: 40 },
+        n: { inputTokens: 1, outputTokens: 1 },
+    });
+});
+
+// ─── Checks ───
+
+test("tokens are checked before cost and limits are inclusive", () => {
+    const limits = { maxTokens: 1000, maxCost: 1 };
+    assert.equal(checkBudget({ tokens: 999, cost: 0.99 }, limits, "pipeline"), undefined);
+    assert.deepEqual(checkBudget({ tokens: 1000, cost: 5 }, limits, "pipeline"), { scope: "pipeline", kind: "tokens", limit: 1000, spent: 1000 });
+    assert.deepEqual(checkBudget({ tokens: 10, cost: 1 }, limits, "global"), { scope: "global", kind: "cost", limit: 1, spent: 1 });
+    assert.equal(checkBudget({ tokens: 1e9, cost: 1e9 }, {}, "global"), undefined);
+});
+
+test("describes the exhausted budget", () => {
+    assert.equal(describeBudgetExceeded({ scope: "pipeline", kind: "tokens", limit: 1000, spent: 1200 }), "Budget du pipeline épuisé: 1200 / 1000 tokens");
+    assert.equal(describeBudgetExceeded({ scope: "global", kind: "cost", limit: 5, spent: 5.123 }), "Budget global épuisé: $5.12 / $5.00");
+});
+
+test("validates budget limits from a request body", () => {
+    assert.deepEqual(parseBudgetLimits({ maxTokens: 5000 }), { maxTokens: 5000 });
+    assert.equal(parseBudgetLimits({ maxCost: -1 }), null);
+    assert.equal(parseBudgetLimits({ maxCost: null }), null);
+    assert.deepEqual(parseBudgetLimits({ maxCost: null, maxTokens: 10 }, true), { maxCost: null, maxTokens: 10 });
+    assert.equal(parseBudgetLimits("5000"), null);
+});
+
+// ─── Global Spend ───
+
+test("the global total is seeded once, then only grows and survives a reload", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "spend-"));
+    try {
+        const file = path.join(dir, "spend.json");
+        const total = new SpendTotal(file);
+        assert.deepEqual(await total.load({ tokens: 100, cost: 0.5 }), { tokens: 100, cost: 0.5 });
+        await total.add({ tokens: 50, cost: 0.25 });
+
+        // The seed only applies without a stored total: deleted pipelines stay counted
+        const reloaded = new SpendTotal(file);
+        assert.deepEqual(await reloaded.load({ tokens: 0, cost: 0 }), { tokens: 150, cost: 0.75 });
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { ContextManager, estimateTokens } from "../src/context_manager.js";
+import type { LlmMessage } from "../src/llm_provider.js";
+
+const text = (role: LlmMessage["role"], value: string): LlmMessage => ({ role, content: [{ type: "text", text: value }] });
+
+/** One assistant tool call and its result. */
+function exchange(id: string, name: string, input: Record<string, unknown>, result: string): LlmMessage[] {
+    return [
+        { role: "assistant", content: [{ type: "tool_use", id, name, input }] },
+        { role: "user", content: [{ type: "tool_result", toolUseId: id, content: result }] },
+    ];
+}
+
+const firstText = (messages: LlmMessage[]) => (messages[0].content[0] as { text: string }).text;
+
+test("estimates about four characters per token", () => {
+    assert.equal(estimateTokens([{ type: "text", text: "x".repeat(400) }]), 100);
+});
+
+test("keeps the history untouched while it fits the budget", () => {
+    const manager = new ContextManager({ budgetTokens: 10_000 });
+    const messages = [text("user", "task"), ...exchange("1", "read_file", { path: "a.ts" }, "content")];
+    manager.compact(messages);
+    assert.equal(messages.length, 3);
+    assert.equal(firstText(messages), "task");
+    assert.equal(manager.evictedExchanges, 0);
+});
+
+test("evicts the oldest exchanges into a summary and keeps the recent ones", () => {
+    const manager = new ContextManager({ budgetTokens: 200, keepRecentExchanges: 1 });
+    const big = "y".repeat(2000);
+    const messages = [
+        text("user", "task"),
+        ...exchange("1", "read_file", { path: "old.ts" }, big),
+        ...exchange("2", "bash", { command: "npm test" }, big),
+        ...exchange("3", "read_file", { path: "recent.ts" }, "short"),
+    ];
+    manager.compact(messages);
+    assert.equal(messages.length, 3);
+    assert.equal(manager.evictedExchanges, 2);
+    const summary = firstText(messages);
+    assert.match(summary, /^task\n\n--- CONTEXTE DES TOURS PRÉCÉDENTS/);
+    assert.match(summary, /- Tour 1: read_file old\.ts → y+…/);
+    assert.match(summary, /- Tour 2: bash `npm test`/);
+    assert.equal((messages[1].content[0] as { id: string }).id, "3");
+});
+
+test("only files whose content is inlined are marked as not worth re-reading", () => {
+    const manager = new ContextManager({ budgetTokens: 50, keepRecentExchanges: 1 });
+    manager.recordToolCall("write_file", { path: "written.ts", content: "export const a = 1;" }, 1, true);
+    manager.recordToolCall("read_file", { path: "read.ts" }, 2, true);
+    manager.recordToolCall("replace_in_file", { path: "edited.ts" }, 3, true);
+    // A later read doesn't downgrade a file we wrote
+    manager.recordToolCall("read_file", { path: "written.ts" }, 4, true);
+
+    const filler = "z".repeat(800);
+    const messages = [
+        text("user", "task"),
+        ...exchange("1", "read_file", { path: "read.ts" }, filler),
+        ...exchange("2", "list_dir", { path: "." }, filler),
+    ];
+    manager.compact(messages);
+    const summary = firstText(messages);
+    assert.match(summary, /- written\.ts \(écrit, tour 1\) — contenu ci-dessous, inutile de le relire[^\n]*\n```\nexport const a = 1;\n```/);
+    assert.match(summary, /- read\.ts \(lu, tour 2\) — contenu plus dans le contexte, relis-le si tu en as besoin/);
+    assert.match(summary, /- edited\.ts \(modifié, tour 3\) — contenu plus dans le contexte, relis-le si tu en as besoin/);
+});
+
+test("a written file over the inline budget is not marked as in context", () => {
+    const manager = new ContextManager({ budgetTokens: 50, keepRecentExchanges: 0, workingSetChars: 10 });
+    manager.recordToolCall("write_file", { path: "big.ts", content: "x".repeat(100) }, 1, true);
+    const messages = [text("user", "task"), ...exchange("1", "write_file", { path: "big.ts" }, "z".repeat(800))];
+    manager.compact(messages);
+    assert.match(firstText(messages), /- big\.ts \(écrit, tour 1\) — contenu plus dans le contexte/);
+});
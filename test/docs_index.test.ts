@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { assertPublicUrl, fetchPageText } from "../src/docs_index.js";
+
+const refused = (url: string) => assert.rejects(assertPublicUrl(url), `${url} should be refused`);
+
+test("refuses non-http schemes", async () => {
+    await refused("file:///etc/passwd");
+    await refused("ftp://example.com/x");
+    await refused("not a url");
+});
+
+test("refuses loopback, private and link-local hosts", async () => {
+    for (const url of [
+        "http://127.0.0.1:3000/",
+        "http://localhost/",
+        "http://10.0.0.5/",
+        "http://172.20.1.1/",
+        "http://192.168.1.10/",
+        "http://169.254.169.254/latest/meta-data/",
+        "http://100.64.0.1/",
+        "http://0.0.0.0/",
+        "http://[::1]/",
+        "http://[fd00::1]/",
+        "http://[fe80::1]/",
+        "http://[::ffff:127.0.0.1]/",
+    ]) await refused(url);
+});
+
+test("accepts public addresses", async () => {
+    assert.equal((await assertPublicUrl("https://93.184.216.34/docs")).pathname, "/docs");
+    assert.equal((await assertPublicUrl("http://[2606:4700::1111]/")).protocol, "http:");
+});
+
+test("fetchPageText never reaches an internal address", async () => {
+    await assert.rejects(fetchPageText("http://127.0.0.1:9/"), /internal address/);
+});
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { LlmError, backoffDelayMs, classifyLlmError, parseRetryAfter, sleep } from "../src/llm_errors.js";
+
+const apiError = (status: number, message = "error", extra: Record<string, unknown> = {}) =>
+    Object.assign(new Error(message), { status, ...extra });
+
+// ─── Classification ───
+
+test("classifies API errors by status and body type", () => {
+    const cases: [unknown, string][] = [
+        [apiError(429), "rate_limit"],
+        [apiError(529), "overloaded"],
+        [apiError(503), "overloaded"],
+        [apiError(500, "boom", { error: { type: "overloaded_error" } }), "overloaded"],
+        [apiError(502), "server"],
+        [apiError(408), "timeout"],
+        [apiError(401), "auth"],
+        [apiError(400, "invalid x-api-key"), "auth"],
+        [apiError(403), "permission"],
+        [apiError(400, "Your credit balance is too low to access the API"), "credit"],
+        [apiError(400, "bad", { error: { error: { type: "rate_limit_error" } } }), "rate_limit"],
+        [apiError(422), "invalid_request"],
+    ];
+    for (const [err, kind] of cases) assert.equal(classifyLlmError(err).kind, kind, (err as Error).message + " " + (err as any).status);
+});
+
+test("classifies network failures, timeouts and aborts", () => {
+    assert.equal(classifyLlmError(Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" })).kind, "network");
+    assert.equal(classifyLlmError(new TypeError("fetch failed", { cause: { code: "ENOTFOUND" } })).kind, "network");
+    assert.equal(classifyLlmError(new Error("Request timed out.")).kind, "timeout");
+    assert.equal(classifyLlmError(Object.assign(new Error("This operation was aborted"), { name: "AbortError" })).kind, "aborted");
+    assert.equal(classifyLlmError(new Error("something else")).kind, "unknown");
+});
+
+test("retryable, fatal and capacity follow the kind", () => {
+    const rateLimit = classifyLlmError(apiError(429));
+    assert.ok(rateLimit.retryable && rateLimit.capacity && !rateLimit.fatal);
+    const server = classifyLlmError(apiError(500));
+    assert.ok(server.retryable && !server.capacity);
+    const auth = classifyLlmError(apiError(401));
+    assert.ok(auth.fatal && !auth.retryable);
+    assert.ok(!classifyLlmError(apiError(400)).retryable);
+});
+
+test("keeps an already classified error and the original as cause", () => {
+    const original = apiError(429, "slow down", { headers: { "retry-after": "3" } });
+    const classified = classifyLlmError(original);
+    assert.equal(classified.cause, original);
+    assert.equal(classified.status, 429);
+    assert.equal(classified.retryAfterMs, 3000);
+    assert.equal(classifyLlmError(classified), classified);
+    assert.ok(classified instanceof LlmError);
+});
+
+// ─── Retry-After ───
+
+test("reads retry-after in milliseconds, seconds or as a date", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    assert.equal(parseRetryAfter({ "retry-after-ms": "250", "retry-after": "9" }, now), 250);
+    assert.equal(parseRetryAfter(new Headers({ "retry-after": "2" }), now), 2000);
+    assert.equal(parseRetryAfter({ "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" }, now), 5000);
+    assert.equal(parseRetryAfter({ "retry-after": "soon" }, now), undefined);
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+});
+
+// ─── Backoff ───
+
+test("backoff grows exponentially, is capped and honors retry-after", () => {
+    const policy = { maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 5000 };
+    const top = () => 1;
+    const bottom = () => 0;
+    assert.equal(backoffDelayMs(1, policy, undefined, top), 1000);
+    assert.equal(backoffDelayMs(1, policy, undefined, bottom), 500);
+    assert.equal(backoffDelayMs(3, policy, undefined, top), 4000);
+    assert.equal(backoffDelayMs(10, policy, undefined, top), 5000);
+    assert.equal(backoffDelayMs(1, policy, 30_000, top), 30_000);
+});
+
+test("sleep rejects with AbortError when aborted", async () => {
+    const controller = new AbortController();
+    const pending = sleep(60_000, controller.signal);
+    controller.abort();
+    await assert.rejects(pending, { name: "AbortError" });
+    await assert.rejects(sleep(10, AbortSignal.abort()), { name: "AbortError" });
+});
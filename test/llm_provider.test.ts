@@ -0,0 +1,71 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { RecordingProvider, ScriptedProvider, type LlmRequest, type LlmResponse } from "../src/llm_provider.js";
+
+let dir: string;
+
+before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "llm-"));
+});
+
+after(() => fs.rm(dir, { recursive: true, force: true }));
+
+const request = (text: string): LlmRequest => ({
+    model: "m",
+    system: "",
+    messages: [{ role: "user", content: [{ type: "text", text }] }],
+    tools: [],
+    maxTokens: 100,
+});
+
+const reply = (text: string): LlmResponse => ({
+    content: [{ type: "text", text }],
+    stopReason: "end_turn",
+    usage: { inputTokens: 3, outputTokens: 2 },
+    model: "m",
+});
+
+async function record(file: string, texts: string[]) {
+    const recorder = new RecordingProvider(new ScriptedProvider(texts.map(reply)), file);
+    for (const text of texts) await recorder.createMessage(request(text));
+}
+
+// ─── Recording → Replay ───
+
+test("replays a recording of a single response", async () => {
+    for (const name of ["one.jsonl", "one.log"]) {
+        const file = path.join(dir, name);
+        await record(file, ["only"]);
+        const replay = ScriptedProvider.fromFile(file);
+        assert.equal(replay.remaining, 1);
+        assert.deepEqual(await replay.createMessage(request("again")), reply("only"));
+    }
+});
+
+test("replays a multi-line recording in order", async () => {
+    const file = path.join(dir, "many.jsonl");
+    await record(file, ["first", "second", "third"]);
+    const replay = ScriptedProvider.fromFile(file);
+    for (const text of ["first", "second", "third"]) assert.deepEqual(await replay.createMessage(request(text)), reply(text));
+    await assert.rejects(replay.createMessage(request("more")), /exhausted after 3 response/);
+});
+
+// ─── Script Files ───
+
+test("reads a JSON array, a { responses } object and { response } entries", async () => {
+    const array = path.join(dir, "array.json");
+    await fs.writeFile(array, JSON.stringify([reply("a"), { response: reply("b") }]));
+    assert.equal(ScriptedProvider.fromFile(array).remaining, 2);
+
+    const wrapped = path.join(dir, "wrapped.json");
+    await fs.writeFile(wrapped, JSON.stringify({ responses: [reply("a")] }));
+    assert.equal(ScriptedProvider.fromFile(wrapped).remaining, 1);
+
+    const invalid = path.join(dir, "invalid.json");
+    await fs.writeFile(invalid, JSON.stringify({ steps: [] }));
+    assert.throws(() => ScriptedProvider.fromFile(invalid), /expected an array of responses/);
+});
@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { applyEdits, applyHunks, applyPatchToWorkspace, parseUnifiedDiff } from "../src/patch_tools.js";
+
+const hunksOf = (diff: string) => parseUnifiedDiff(diff)[0].hunks;
+
+// ─── applyHunks ───
+
+test("applies a hunk at its stated line", () => {
+    const { lines, results, ok } = applyHunks(["a", "b", "c"], hunksOf("--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n"));
+    assert.ok(ok);
+    assert.deepEqual(lines, ["a", "B", "c"]);
+    assert.equal(results[0].status, "applied");
+    assert.equal(results[0].line, 1);
+});
+
+test("finds a hunk whose line numbers are off", () => {
+    const file = ["x", "x", "x", "a", "b", "c"];
+    const { lines, results } = applyHunks(file, hunksOf("--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n"));
+    assert.deepEqual(lines, ["x", "x", "x", "a", "B", "c"]);
+    assert.equal(results[0].status, "offset");
+    assert.equal(results[0].line, 4);
+});
+
+test("picks the match closest to the stated line", () => {
+    const file = ["a", "b", "a", "b", "a", "b"];
+    const { lines } = applyHunks(file, hunksOf("--- a/f\n+++ b/f\n@@ -5,2 +5,2 @@\n a\n-b\n+B\n"));
+    assert.deepEqual(lines, ["a", "b", "a", "b", "a", "B"]);
+});
+
+test("drops mismatched outer context lines (fuzz)", () => {
+    const file = ["one", "two", "three", "four"];
+    const { lines, results } = applyHunks(file, hunksOf("--- a/f\n+++ b/f\n@@ -1,4 +1,4 @@\n stale\n two\n-three\n+THREE\n four\n"));
+    assert.deepEqual(lines, ["one", "two", "THREE", "four"]);
+    assert.equal(results[0].status, "fuzzy");
+});
+
+test("matches ignoring whitespace and re-indents added lines", () => {
+    const file = ["def f():", "    if x:", "        foo(1)", "    return 0"];
+    const { lines, results } = applyHunks(file, hunksOf("--- a/f\n+++ b/f\n@@ -2,2 +2,3 @@\n if x:\n-    foo(1)\n+    foo(2)\n+    bar()\n"));
+    assert.equal(results[0].status, "fuzzy");
+    assert.deepEqual(lines, ["def f():", "    if x:", "        foo(2)", "        bar()", "    return 0"]);
+});
+
+test("applies hunks in order with the shift of earlier ones", () => {
+    const file = ["a", "b", "c", "d", "e"];
+    const diff = "--- a/f\n+++ b/f\n@@ -1,2 +1,3 @@\n a\n+a2\n b\n@@ -4,2 +5,2 @@\n d\n-e\n+E\n";
+    const { lines, results } = applyHunks(file, hunksOf(diff));
+    assert.deepEqual(lines, ["a", "a2", "b", "c", "d", "E"]);
+    assert.deepEqual(results.map(r => r.status), ["applied", "applied"]);
+});
+
+test("reports a hunk whose context is nowhere in the file", () => {
+    const { ok, results } = applyHunks(["a", "b"], hunksOf("--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n zzz\n-yyy\n+x\n"));
+    assert.equal(ok, false);
+    assert.equal(results[0].status, "failed");
+    assert.match(results[0].reason!, /context not found/);
+});
+
+// ─── applyEdits ───
+
+test("replaces an exact target once", () => {
+    const { content, results } = applyEdits("a = 1\nb = 2\n", [{ targetStr: "b = 2", replacementStr: "b = 3" }]);
+    assert.equal(content, "a = 1\nb = 3\n");
+    assert.equal(results[0].status, "applied");
+});
+
+test("refuses an ambiguous target without replaceAll", () => {
+    const { ok, results } = applyEdits("x\nx\n", [{ targetStr: "x", replacementStr: "y" }]);
+    assert.equal(ok, false);
+    assert.match(results[0].reason!, /matches 2 times/);
+    assert.equal(applyEdits("x\nx\n", [{ targetStr: "x", replacementStr: "y", replaceAll: true }]).content, "y\ny\n");
+});
+
+test("whitespace-insensitive edit keeps the file's indentation", () => {
+    const file = "def f():\n    if x:\n        foo(1)\n    return 0\n";
+    const { content, results } = applyEdits(file, [{ targetStr: "if x:\n    foo(1)", replacementStr: "if x:\n    foo(2)\n    bar()" }]);
+    assert.equal(results[0].status, "fuzzy");
+    assert.equal(content, "def f():\n    if x:\n        foo(2)\n        bar()\n    return 0\n");
+});
+
+test("whitespace-insensitive edit of an indented line without indentation", () => {
+    const { content } = applyEdits("items:\n  - foo( 1 )\n", [{ targetStr: "- foo(  1 )", replacementStr: "- foo(2)" }]);
+    assert.equal(content, "items:\n  - foo(2)\n");
+});
+
+test("edits are all or nothing", () => {
+    const { ok, results } = applyEdits("a\n", [{ targetStr: "a", replacementStr: "b" }, { targetStr: "missing", replacementStr: "c" }]);
+    assert.equal(ok, false);
+    assert.deepEqual(results.map(r => r.status), ["applied", "failed"]);
+});
+
+// ─── applyPatchToWorkspace ───
+
+test("a failing hunk leaves every file untouched", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "patch-"));
+    try {
+        await fs.writeFile(path.join(dir, "a.txt"), "one\ntwo\n");
+        await fs.writeFile(path.join(dir, "b.txt"), "three\n");
+        const patch = [
+            "--- a/a.txt", "+++ b/a.txt", "@@ -1,2 +1,2 @@", " one", "-two", "+TWO",
+            "--- a/b.txt", "+++ b/b.txt", "@@ -1 +1 @@", "-nope", "+x", "",
+        ].join("\n");
+        const out = await applyPatchToWorkspace(dir, patch);
+        assert.match(out, /^Error: patch not applied/);
+        assert.equal(await fs.readFile(path.join(dir, "a.txt"), "utf-8"), "one\ntwo\n");
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,58 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { PathDeniedError, resolveWorkspacePath } from "../src/path_guard.js";
+
+let base: string;
+let workspace: string;
+
+before(async () => {
+    base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "guard-")));
+    workspace = path.join(base, "ws");
+    await fs.mkdir(path.join(workspace, "src"), { recursive: true });
+    await fs.mkdir(path.join(workspace, ".git"));
+    await fs.mkdir(path.join(base, "outside"));
+    await fs.symlink(path.join(base, "outside"), path.join(workspace, "escape"));
+    await fs.symlink(path.join(workspace, "src"), path.join(workspace, "inner"));
+});
+
+after(() => fs.rm(base, { recursive: true, force: true }));
+
+const denial = async (requested: string, access: "read" | "write") => {
+    try {
+        await resolveWorkspacePath(workspace, requested, access);
+    } catch (err) {
+        if (err instanceof PathDeniedError) return err.reason;
+        throw err;
+    }
+    return undefined;
+};
+
+test("resolves paths inside the workspace, existing or not", async () => {
+    assert.equal(await resolveWorkspacePath(workspace, "src/new/file.ts", "write"), path.join(workspace, "src/new/file.ts"));
+    assert.equal(await resolveWorkspacePath(workspace, "./src/../src", "read"), path.join(workspace, "src"));
+});
+
+test("rejects lexical escapes", async () => {
+    assert.equal(await denial("../outside/x", "read"), "outside_workspace");
+    assert.equal(await denial("/etc/passwd", "read"), "outside_workspace");
+    assert.equal(await denial("src/../../ws2/x", "write"), "outside_workspace");
+});
+
+test("rejects escapes through a symlink, including files not created yet", async () => {
+    assert.equal(await denial("escape", "read"), "symlink_escape");
+    assert.equal(await denial("escape/new/file.txt", "write"), "symlink_escape");
+});
+
+test("allows symlinks that stay inside the workspace", async () => {
+    assert.equal(await denial("inner/file.ts", "write"), undefined);
+});
+
+test("keeps .git read-only by default", async () => {
+    assert.equal(await denial(".git/config", "read"), undefined);
+    assert.equal(await denial(".git/config", "write"), "read_only");
+    assert.equal(await denial(".gitignore", "write"), undefined);
+});
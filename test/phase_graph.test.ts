@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import type { Pipeline } from "../src/orchestrator.js";
+import { BUILTIN_FLOWS, END, FLOW_FOR_RUN_KIND, nextNodeId, validateFlow, type PhaseFlow } from "../src/phase_graph.js";
+
+const HANDLERS = ["analysis", "build", "ship", "notify"];
+
+const pipeline = (fields: Partial<Pipeline> = {}) => ({ services: [], ...fields }) as Pipeline;
+
+const node = (flow: PhaseFlow, id: string) => flow.nodes.find(n => n.id === id)!;
+
+// ─── validateFlow ───
+
+test("a well-formed flow has no errors", () => {
+    const flow: PhaseFlow = {
+        id: "custom",
+        nodes: [
+            { id: "A", handler: "analysis", retry: { maxAttempts: 2 } },
+            { id: "B", handler: "build", next: [{ to: "C", when: "github" }, { to: END }] },
+            { id: "C", handler: "ship", when: "!staticSite" },
+        ],
+    };
+    assert.deepEqual(validateFlow(flow, HANDLERS), []);
+});
+
+test("reports duplicate ids, unknown handlers, conditions and targets", () => {
+    const flow: PhaseFlow = {
+        id: "broken",
+        nodes: [
+            { id: "A", handler: "analysis", when: "sunny" },
+            { id: "A", handler: "missing", retry: { maxAttempts: 0 } },
+            { id: "B", handler: "build", next: [{ to: "Z" }, { to: END, when: "!cloudy" }] },
+        ],
+    };
+    assert.deepEqual(validateFlow(flow, HANDLERS), [
+        `broken.A: unknown condition "sunny"`,
+        `broken: duplicate node id "A"`,
+        `broken.A: unknown handler "missing"`,
+        "broken.A: retry.maxAttempts must be an integer >= 1",
+        `broken.B: next node "Z" does not exist`,
+        `broken.B: unknown condition "!cloudy"`,
+    ]);
+    assert.deepEqual(validateFlow({ id: "empty", nodes: [] }, HANDLERS), ["empty: flow has no nodes"]);
+});
+
+test("every run kind maps to a built-in flow", () => {
+    const ids = new Set(BUILTIN_FLOWS.map(f => f.id));
+    for (const flowId of Object.values(FLOW_FOR_RUN_KIND)) assert.ok(ids.has(flowId), flowId);
+});
+
+// ─── nextNodeId ───
+
+test("without next, a node is followed by the next one in the list", () => {
+    const flow: PhaseFlow = { id: "f", nodes: [{ id: "A", handler: "analysis" }, { id: "B", handler: "build" }] };
+    assert.equal(nextNodeId(flow, node(flow, "A"), pipeline()), "B");
+    assert.equal(nextNodeId(flow, node(flow, "B"), pipeline()), undefined);
+});
+
+test("the first rule whose condition holds wins, END stops the flow", () => {
+    const flow: PhaseFlow = {
+        id: "f",
+        nodes: [
+            { id: "A", handler: "analysis", next: [{ to: "C", when: "github" }, { to: "B", when: "!github" }] },
+            { id: "B", handler: "build", next: END },
+            { id: "C", handler: "ship", next: [{ to: "A", when: "deployed" }] },
+        ],
+    };
+    const withRepo = pipeline({ github: { owner: "o", repo: "r" } as Pipeline["github"] });
+    assert.equal(nextNodeId(flow, node(flow, "A"), withRepo), "C");
+    assert.equal(nextNodeId(flow, node(flow, "A"), pipeline()), "B");
+    assert.equal(nextNodeId(flow, node(flow, "B"), pipeline()), undefined);
+    // No rule matches: the flow is over
+    assert.equal(nextNodeId(flow, node(flow, "C"), withRepo), undefined);
+});
+
+test("an unknown condition in a rule throws", () => {
+    const flow: PhaseFlow = { id: "f", nodes: [{ id: "A", handler: "analysis", next: [{ to: "A", when: "sunny" }] }] };
+    assert.throws(() => nextNodeId(flow, flow.nodes[0], pipeline()), /Unknown phase condition: sunny/);
+});
@@ -0,0 +1,123 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { RunQueue, parsePhaseLimits } from "../src/run_queue.js";
+
+let dir: string;
+
+before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "queue-"));
+});
+
+after(() => fs.rm(dir, { recursive: true, force: true }));
+
+const queueFile = () => path.join(dir, `${Math.random().toString(36).slice(2)}.json`);
+const options = (phaseLimits: Record<string, number> = {}) => ({ concurrency: 2, phaseLimits });
+
+// ─── Config ───
+
+test("parses phase limits and skips malformed entries", () => {
+    assert.deepEqual(parsePhaseLimits("deploying=1, DEVELOPMENT=3,QA=0,BAD,X=1.5"), { DEPLOYING: 1, DEVELOPMENT: 3 });
+    assert.deepEqual(parsePhaseLimits(""), {});
+});
+
+// ─── Persistence ───
+
+test("queued runs survive a reload in FIFO order", async () => {
+    const file = queueFile();
+    const queue = new RunQueue(file, options());
+    assert.equal(await queue.enqueue({ pipelineId: "a", kind: "pipeline" }), 1);
+    assert.equal(await queue.enqueue({ pipelineId: "b", kind: "modification", instructions: "fix" }), 2);
+
+    const reloaded = new RunQueue(file, options());
+    const runs = await reloaded.load();
+    assert.deepEqual(runs.map(r => [r.pipelineId, r.kind]), [["a", "pipeline"], ["b", "modification"]]);
+    assert.equal(runs[1].instructions, "fix");
+    assert.equal(reloaded.position("b"), 2);
+});
+
+test("a newer run for the same pipeline replaces the queued one in place", async () => {
+    const queue = new RunQueue(queueFile(), options());
+    await queue.enqueue({ pipelineId: "a", kind: "pipeline" });
+    await queue.enqueue({ pipelineId: "b", kind: "pipeline" });
+    assert.equal(await queue.enqueue({ pipelineId: "a", kind: "modification", instructions: "v2" }), 1);
+    assert.deepEqual(queue.list().map(r => [r.pipelineId, r.kind]), [["a", "modification"], ["b", "pipeline"]]);
+});
+
+test("take and remove are persisted", async () => {
+    const file = queueFile();
+    const queue = new RunQueue(file, options());
+    for (const id of ["a", "b", "c"]) await queue.enqueue({ pipelineId: id, kind: "pipeline" });
+
+    assert.equal(queue.take(r => r.pipelineId !== "a")?.pipelineId, "b");
+    assert.equal(await queue.remove("c"), true);
+    assert.equal(await queue.remove("missing"), false);
+
+    const reloaded = new RunQueue(file, options());
+    assert.deepEqual((await reloaded.load()).map(r => r.pipelineId), ["a"]);
+});
+
+test("an unreadable queue file loads as empty", async () => {
+    const file = queueFile();
+    await fs.writeFile(file, "{not json");
+    assert.deepEqual(await new RunQueue(file, options()).load(), []);
+});
+
+// ─── Phase Limits ───
+
+test("unlimited phases never wait", async () => {
+    const queue = new RunQueue(queueFile(), options({ DEPLOYING: 1 }));
+    await queue.acquirePhase("DEVELOPMENT", "a");
+    await queue.acquirePhase("DEVELOPMENT", "b");
+    assert.equal(queue.isPhaseFull("DEVELOPMENT", "c"), false);
+});
+
+test("a full phase makes the next pipeline wait until the slot is released", async () => {
+    const queue = new RunQueue(queueFile(), options({ DEPLOYING: 1 }));
+    await queue.acquirePhase("DEPLOYING", "a");
+    assert.equal(queue.isPhaseFull("DEPLOYING", "a"), false);
+    assert.equal(queue.isPhaseFull("DEPLOYING", "b"), true);
+
+    let entered = false;
+    const waiting = queue.acquirePhase("DEPLOYING", "b").then(() => { entered = true; });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(entered, false);
+
+    // Moving to another phase releases the previous slot
+    await queue.acquirePhase("QA", "a");
+    await waiting;
+    assert.equal(entered, true);
+    assert.equal(queue.isPhaseFull("DEPLOYING", "a"), true);
+});
+
+test("a cancelled or aborted wait rejects with AbortError", async () => {
+    const queue = new RunQueue(queueFile(), options({ DEPLOYING: 1 }));
+    await queue.acquirePhase("DEPLOYING", "a");
+
+    const cancelled = queue.acquirePhase("DEPLOYING", "b");
+    queue.cancelPhaseWait("b");
+    await assert.rejects(cancelled, { name: "AbortError" });
+
+    const controller = new AbortController();
+    const aborted = queue.acquirePhase("DEPLOYING", "c", controller.signal);
+    controller.abort();
+    await assert.rejects(aborted, { name: "AbortError" });
+
+    // Neither got the slot when "a" leaves
+    queue.releasePhase("a");
+    assert.equal(queue.isPhaseFull("DEPLOYING", "d"), false);
+});
+
+test("an already aborted signal rejects without taking or waiting for a slot", async () => {
+    const queue = new RunQueue(queueFile(), options({ DEPLOYING: 1 }));
+    await assert.rejects(queue.acquirePhase("DEPLOYING", "a", AbortSignal.abort()), { name: "AbortError" });
+    assert.equal(queue.isPhaseFull("DEPLOYING", "b"), false);
+
+    await queue.acquirePhase("DEPLOYING", "b");
+    await assert.rejects(queue.acquirePhase("DEPLOYING", "c", AbortSignal.abort()), { name: "AbortError" });
+    queue.releasePhase("b");
+    assert.equal(queue.isPhaseFull("DEPLOYING", "d"), false);
+});
@@ -0,0 +1,108 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { globFiles, globToRegExp, searchCode } from "../src/search_tools.js";
+
+let workspace: string;
+
+before(async () => {
+    workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "search-")));
+    const files: Record<string, string> = {
+        ".gitignore": "dist/\n*.log\n",
+        "src/app.ts": "import { db } from './db';\n\nexport function start() {\n    db.connect();\n    return 'ok';\n}\n",
+        "src/db.ts": "export const db = {\n    connect() {},\n};\n",
+        "src/ui/Button.tsx": "export const Button = () => null; // TODO: style\n",
+        "src/legacy/.gitignore": "*.ts\n!keep.ts\n",
+        "src/legacy/old.ts": "// TODO: delete\n",
+        "src/legacy/keep.ts": "// TODO: keep\n",
+        "dist/app.js": "// TODO: built\n",
+        "debug.log": "TODO: log\n",
+        "node_modules/pkg/index.js": "// TODO: dependency\n",
+        "README.md": "Call start() (a+b)\n",
+    };
+    for (const [name, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(workspace, name)), { recursive: true });
+        await fs.writeFile(path.join(workspace, name), content);
+    }
+    await fs.writeFile(path.join(workspace, "image.bin"), Buffer.from([0x54, 0x4f, 0x44, 0x4f, 0, 1, 2]));
+});
+
+after(() => fs.rm(workspace, { recursive: true, force: true }));
+
+// ─── Globs ───
+
+test("** crosses directories, * and ? do not", () => {
+    const re = globToRegExp("src/**/*.{ts,tsx}");
+    assert.ok(re.test("src/app.ts"));
+    assert.ok(re.test("src/ui/Button.tsx"));
+    assert.ok(!re.test("src/app.js"));
+    assert.ok(!globToRegExp("*.ts").test("src/app.ts"));
+    assert.ok(globToRegExp("src/?b.ts").test("src/db.ts"));
+    assert.ok(globToRegExp("[!a]*.md").test("README.md"));
+});
+
+test("glob_files honors nested .gitignore files and ALWAYS_IGNORED", async () => {
+    const out = await globFiles(workspace, { pattern: "**/*.{ts,tsx,js,log}" });
+    assert.equal(out, [
+        "4 file(s) match \"**/*.{ts,tsx,js,log}\":",
+        "src/app.ts",
+        "src/db.ts",
+        "src/legacy/keep.ts",
+        "src/ui/Button.tsx",
+    ].join("\n"));
+});
+
+test("glob_files patterns are relative to the searched directory", async () => {
+    assert.match(await globFiles(workspace, { pattern: "*.tsx", path: "src/ui" }), /^1 file\(s\) match "\*\.tsx":\nsrc\/ui\/Button\.tsx$/);
+});
+
+// ─── search_code ───
+
+test("lists matches as path:line and skips ignored and binary files", async () => {
+    const out = await searchCode(workspace, { pattern: "TODO" });
+    assert.equal(out, [
+        "2 match(es) in 2 file(s):",
+        "src/legacy/keep.ts:1: // TODO: keep",
+        "src/ui/Button.tsx:1: export const Button = () => null; // TODO: style",
+    ].join("\n"));
+});
+
+test("shows context lines and filters by glob", async () => {
+    const out = await searchCode(workspace, { pattern: "connect", glob: "app.ts", contextLines: 1 });
+    assert.equal(out, [
+        "1 match(es) in 1 file(s):",
+        "src/app.ts:3- export function start() {",
+        "src/app.ts:4:     db.connect();",
+        "src/app.ts:5-     return 'ok';",
+    ].join("\n"));
+});
+
+test("literal search, case folding and the match limit", async () => {
+    assert.match(await searchCode(workspace, { pattern: "(a+b)", literal: true }), /README\.md:1: Call start\(\) \(a\+b\)/);
+    assert.match(await searchCode(workspace, { pattern: "EXPORT", ignoreCase: true, path: "src" }), /^3 match\(es\) in 3 file\(s\)/);
+    assert.match(await searchCode(workspace, { pattern: "export", limit: 1 }), /stopped at 1 matches/);
+});
+
+test("reports an invalid regex and a missing path", async () => {
+    assert.match(await searchCode(workspace, { pattern: "(" }), /^Error: invalid regex: .*Set literal: true/);
+    assert.match(await searchCode(workspace, { pattern: "x", path: "nope" }), /^Error: path not found: nope/);
+    await assert.rejects(searchCode(workspace, { pattern: "x", path: "../outside" }));
+});
+
+test("a catastrophically backtracking regex is stopped by the time limit", async () => {
+    await fs.writeFile(path.join(workspace, "slow.txt"), "a".repeat(40) + "!\n");
+    process.env.SEARCH_TIMEOUT_MS = "500";
+    try {
+        const started = Date.now();
+        assert.match(await searchCode(workspace, { pattern: "^(a+)+$", path: "slow.txt" }), /^Error: search stopped after 0\.5s/);
+        assert.ok(Date.now() - started < 5000);
+        // The server is still responsive afterwards
+        assert.match(await searchCode(workspace, { pattern: "connect", path: "src/db.ts" }), /^1 match/);
+    } finally {
+        delete process.env.SEARCH_TIMEOUT_MS;
+        await fs.rm(path.join(workspace, "slow.txt"));
+    }
+});